@@ -8,6 +8,13 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import CustomerDashboard from "./pages/CustomerDashboard";
 import MaidDashboard from "./pages/MaidDashboard";
+import AdminDeliveries from "./pages/AdminDeliveries";
+import AdminPayouts from "./pages/AdminPayouts";
+import ResetPassword from "./pages/ResetPassword";
+import Account from "./pages/Account";
+import Profile from "./pages/Profile";
+import RequireRole from "./components/RequireRole";
+import PasswordRecoveryRedirect from "./components/PasswordRecoveryRedirect";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,11 +26,17 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
+          <PasswordRecoveryRedirect />
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
-            <Route path="/customer-dashboard" element={<CustomerDashboard />} />
-            <Route path="/maid-dashboard" element={<MaidDashboard />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/account" element={<RequireRole><Account /></RequireRole>} />
+            <Route path="/profile" element={<RequireRole><Profile /></RequireRole>} />
+            <Route path="/customer-dashboard" element={<RequireRole role="customer"><CustomerDashboard /></RequireRole>} />
+            <Route path="/maid-dashboard" element={<RequireRole role="maid"><MaidDashboard /></RequireRole>} />
+            <Route path="/admin/deliveries" element={<RequireRole role="admin"><AdminDeliveries /></RequireRole>} />
+            <Route path="/admin/payouts" element={<RequireRole role="admin"><AdminPayouts /></RequireRole>} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
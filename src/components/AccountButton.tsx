@@ -0,0 +1,11 @@
+import { Link } from 'react-router-dom';
+import { UserCog } from 'lucide-react';
+import '../styles/account.css';
+
+const AccountButton = () => (
+  <Link to="/profile" className="account-btn" aria-label="Profile and account settings" title="Profile and account settings">
+    <UserCog style={{ width: '1.25rem', height: '1.25rem' }} />
+  </Link>
+);
+
+export default AccountButton;
@@ -0,0 +1,23 @@
+import { NavLink } from 'react-router-dom';
+
+const ADMIN_PAGES = [
+  { to: '/admin/deliveries', label: 'Deliveries' },
+  { to: '/admin/payouts', label: 'Payouts' },
+  { to: '/account', label: 'Account' },
+];
+
+const AdminNav = () => (
+  <nav className="admin-nav">
+    {ADMIN_PAGES.map((page) => (
+      <NavLink
+        key={page.to}
+        to={page.to}
+        className={({ isActive }) => (isActive ? 'admin-nav-link admin-nav-link-active' : 'admin-nav-link')}
+      >
+        {page.label}
+      </NavLink>
+    ))}
+  </nav>
+);
+
+export default AdminNav;
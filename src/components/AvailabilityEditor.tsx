@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO, startOfToday } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import { useToast } from '@/hooks/use-toast';
+import {
+  defaultWeek,
+  fetchAvailability,
+  saveTimeOff,
+  saveWeeklyHours,
+  WEEKDAYS,
+  WorkingDay,
+} from '@/lib/availability';
+
+interface AvailabilityEditorProps {
+  maidId: string;
+}
+
+const AvailabilityEditor = ({ maidId }: AvailabilityEditorProps) => {
+  const { toast } = useToast();
+  const [week, setWeek] = useState<WorkingDay[]>(defaultWeek());
+  const [savedTimeOff, setSavedTimeOff] = useState<string[]>([]);
+  const [timeOff, setTimeOff] = useState<Date[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAvailability(maidId)
+      .then((availability) => {
+        setWeek(availability.week);
+        setSavedTimeOff(availability.timeOff);
+        setTimeOff(availability.timeOff.map((date) => parseISO(date)));
+      })
+      .catch((error) => {
+        toast({
+          title: 'Error fetching availability',
+          description: error.message,
+          variant: 'destructive',
+        });
+      });
+  }, [maidId, toast]);
+
+  const updateDay = (weekday: number, changes: Partial<WorkingDay>) => {
+    setWeek(week.map((day) => (day.weekday === weekday ? { ...day, ...changes } : day)));
+  };
+
+  const handleSave = async () => {
+    const invalid = week.find((day) => day.enabled && day.endTime <= day.startTime);
+    if (invalid) {
+      toast({
+        title: 'Validation Error',
+        description: `${WEEKDAYS[invalid.weekday]} must end after it starts`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const nextTimeOff = timeOff.map((date) => format(date, 'yyyy-MM-dd'));
+      await saveWeeklyHours(maidId, week);
+      await saveTimeOff(maidId, savedTimeOff, nextTimeOff);
+      setSavedTimeOff(nextTimeOff);
+
+      toast({
+        title: 'Availability saved',
+        description: 'Customers will only be able to book you when you are available.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="availability-section">
+      <h2 className="section-title">Your Availability</h2>
+      <p className="availability-hint">
+        Leave every day unticked to accept bookings on any day.
+      </p>
+      <div className="availability-grid">
+        <div className="availability-week">
+          <h3 className="availability-subtitle">Weekly working hours</h3>
+          {week.map((day) => (
+            <div key={day.weekday} className="availability-day">
+              <label className="availability-day-label">
+                <input
+                  type="checkbox"
+                  checked={day.enabled}
+                  onChange={(e) => updateDay(day.weekday, { enabled: e.target.checked })}
+                />
+                {WEEKDAYS[day.weekday]}
+              </label>
+              <input
+                type="time"
+                className="availability-time"
+                value={day.startTime}
+                disabled={!day.enabled}
+                onChange={(e) => updateDay(day.weekday, { startTime: e.target.value })}
+              />
+              <span className="availability-to">to</span>
+              <input
+                type="time"
+                className="availability-time"
+                value={day.endTime}
+                disabled={!day.enabled}
+                onChange={(e) => updateDay(day.weekday, { endTime: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="availability-time-off">
+          <h3 className="availability-subtitle">Time off</h3>
+          <Calendar
+            mode="multiple"
+            selected={timeOff}
+            onSelect={(dates) => setTimeOff(dates ?? [])}
+            disabled={{ before: startOfToday() }}
+          />
+        </div>
+      </div>
+      <button onClick={handleSave} className="submit-btn" style={{ padding: '0.5rem 1.5rem' }} disabled={saving}>
+        {saving ? 'Saving...' : 'Save Availability'}
+      </button>
+    </section>
+  );
+};
+
+export default AvailabilityEditor;
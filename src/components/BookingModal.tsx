@@ -0,0 +1,411 @@
+import { useEffect, useState } from 'react';
+import { addDays, addMonths, format, parseISO, startOfToday } from 'date-fns';
+import { CalendarDays } from 'lucide-react';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { fetchUnavailableDates } from '@/lib/availability';
+import {
+  CancellationPolicy,
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationPolicy,
+  fetchCancellationPolicy,
+} from '@/lib/cancellations';
+import { createBooking, formatQuantity, JOB_TYPE_UNITS, JobType, quoteBooking, rateFor } from '@/lib/bookings';
+import { createSeries, SHORT_WEEKDAYS } from '@/lib/series';
+import Checkout from '@/components/Checkout';
+
+export interface BookableMaid {
+  id: string;
+  hourly_rate: number;
+  daily_rate: number;
+  monthly_rate: number;
+  profile: {
+    full_name: string;
+  };
+}
+
+interface BookingModalProps {
+  maid: BookableMaid;
+  onClose: () => void;
+  onBooked: () => void;
+}
+
+const emptyBooking = {
+  date: '',
+  startTime: '09:00',
+  quantity: '1',
+  location: '',
+  jobType: 'hourly' as JobType,
+  repeat: false,
+  weekdays: [] as string[],
+  intervalWeeks: '1',
+  endsOn: '',
+};
+
+const BookingModal = ({ maid, onClose, onBooked }: BookingModalProps) => {
+  const { toast } = useToast();
+  const [bookingData, setBookingData] = useState(emptyBooking);
+  const [quote, setQuote] = useState<number | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [unavailableDates, setUnavailableDates] = useState<Set<string>>(new Set());
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [policy, setPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
+  // One-off bookings move on to checkout once the job exists
+  const [bookedJob, setBookedJob] = useState<{ id: string; amount: number } | null>(null);
+
+  // Recurring daily visits are always a single day
+  const fixedDay = bookingData.repeat && bookingData.jobType === 'daily';
+  const quantity = fixedDay ? 1 : parseInt(bookingData.quantity, 10);
+  const unit = JOB_TYPE_UNITS[bookingData.jobType];
+  const validQuantity = Number.isInteger(quantity) && quantity >= 1 && quantity <= unit.max;
+  // Shown instantly while the authoritative server quote is on its way
+  const estimate = validQuantity ? quantity * Number(rateFor(maid, bookingData.jobType)) : null;
+
+  useEffect(() => {
+    const today = startOfToday();
+    fetchUnavailableDates(maid.id, format(today, 'yyyy-MM-dd'), format(addMonths(today, 6), 'yyyy-MM-dd'))
+      .then(setUnavailableDates)
+      .catch((error) => console.error('Error fetching maid availability:', error));
+  }, [maid.id]);
+
+  useEffect(() => {
+    fetchCancellationPolicy()
+      .then(setPolicy)
+      .catch((error) => console.error('Error fetching cancellation policy:', error));
+  }, []);
+
+  // Ask the server for a price whenever the priced inputs change
+  useEffect(() => {
+    let cancelled = false;
+    setQuote(null);
+    setQuoteError(null);
+
+    if (!validQuantity) return;
+
+    quoteBooking(maid.id, bookingData.jobType, quantity)
+      .then((amount) => {
+        if (!cancelled) setQuote(amount);
+      })
+      .catch((error) => {
+        if (!cancelled) setQuoteError(error.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [maid.id, bookingData.jobType, quantity, validQuantity]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bookingData.date) {
+      toast({
+        title: 'Validation Error',
+        description: bookingData.repeat ? 'Please pick a start date' : 'Please pick a date',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (bookingData.repeat && bookingData.weekdays.length === 0) {
+      toast({
+        title: 'Validation Error',
+        description: 'Pick at least one day of the week',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      if (bookingData.repeat) {
+        await createSeries({
+          maidId: maid.id,
+          jobType: bookingData.jobType as 'hourly' | 'daily',
+          weekdays: bookingData.weekdays.map(Number),
+          intervalWeeks: parseInt(bookingData.intervalWeeks, 10),
+          startsOn: bookingData.date,
+          endsOn: bookingData.endsOn,
+          quantity,
+          location: bookingData.location,
+          startTime: bookingData.startTime,
+        });
+        toast({
+          title: 'Booking successful!',
+          description: 'Your recurring booking has been sent to the maid for approval.',
+        });
+        setBookingData(emptyBooking);
+        onBooked();
+      } else {
+        const job = await createBooking({
+          maidId: maid.id,
+          jobType: bookingData.jobType,
+          date: bookingData.date,
+          quantity,
+          location: bookingData.location,
+          startTime: bookingData.startTime,
+        });
+        setBookingData(emptyBooking);
+        setBookedJob({ id: job.id, amount: Number(job.amount) });
+      }
+    } catch (error) {
+      toast({
+        title: 'Booking failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 50,
+        padding: '1rem',
+      }}
+      onClick={bookedJob ? onBooked : onClose}
+    >
+      <div
+        style={{
+          background: 'hsl(var(--card))',
+          borderRadius: '0.75rem',
+          padding: '1.5rem',
+          maxWidth: '28rem',
+          width: '100%',
+          boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={{ fontSize: '1.25rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>
+          {bookedJob ? 'Pay for your booking' : `Book ${maid.profile.full_name}`}
+        </h3>
+        <p style={{ color: 'hsl(var(--muted-foreground))', marginBottom: '1rem' }}>
+          {bookedJob
+            ? `Your request has been sent. ${maid.profile.full_name} can accept it once it is paid for.`
+            : 'Fill in the details for your booking'}
+        </p>
+        {bookedJob ? (
+          <>
+            <Checkout
+              jobId={bookedJob.id}
+              amount={bookedJob.amount}
+              maidName={maid.profile.full_name}
+              onPaid={onBooked}
+            />
+            <button type="button" className="checkout-secondary-btn checkout-later-btn" onClick={onBooked}>
+              Pay Later
+            </button>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="auth-form">
+            <div className="form-group">
+              <label htmlFor="repeat" className="form-label">Frequency</label>
+              <select
+                id="repeat"
+                className="form-input"
+                value={bookingData.repeat ? 'weekly' : 'once'}
+                onChange={(e) => {
+                  const repeat = e.target.value === 'weekly';
+                  setBookingData({
+                    ...bookingData,
+                    repeat,
+                    date: '',
+                    jobType: repeat && bookingData.jobType === 'monthly' ? 'hourly' : bookingData.jobType,
+                  });
+                }}
+              >
+                <option value="once">One-off</option>
+                <option value="weekly">Repeats weekly</option>
+              </select>
+            </div>
+            {bookingData.repeat && (
+              <>
+                <div className="form-group">
+                  <span className="form-label">Days</span>
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    className="booking-weekdays"
+                    value={bookingData.weekdays}
+                    onValueChange={(weekdays) => setBookingData({ ...bookingData, weekdays })}
+                  >
+                    {SHORT_WEEKDAYS.map((day, index) => (
+                      <ToggleGroupItem key={day} value={String(index)} aria-label={day}>
+                        {day}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="interval-weeks" className="form-label">Repeat every</label>
+                  <select
+                    id="interval-weeks"
+                    className="form-input"
+                    value={bookingData.intervalWeeks}
+                    onChange={(e) => setBookingData({ ...bookingData, intervalWeeks: e.target.value })}
+                  >
+                    <option value="1">Week</option>
+                    <option value="2">2 weeks</option>
+                    <option value="3">3 weeks</option>
+                    <option value="4">4 weeks</option>
+                  </select>
+                </div>
+              </>
+            )}
+            <div className="form-group">
+              <label htmlFor="date" className="form-label">{bookingData.repeat ? 'Starts on' : 'Date'}</label>
+              <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <button id="date" type="button" className="form-input booking-date-trigger">
+                    <CalendarDays style={{ width: '1rem', height: '1rem' }} />
+                    {bookingData.date ? format(parseISO(bookingData.date), 'PPP') : 'Pick a date'}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={bookingData.date ? parseISO(bookingData.date) : undefined}
+                    onSelect={(date) => {
+                      setBookingData({ ...bookingData, date: date ? format(date, 'yyyy-MM-dd') : '' });
+                      setCalendarOpen(false);
+                    }}
+                    disabled={[
+                      { before: bookingData.repeat ? addDays(startOfToday(), 1) : startOfToday() },
+                      (date) => !bookingData.repeat && unavailableDates.has(format(date, 'yyyy-MM-dd')),
+                    ]}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="form-group">
+              <label htmlFor="job-type" className="form-label">Job Type</label>
+              <select
+                id="job-type"
+                className="form-input"
+                value={bookingData.jobType}
+                onChange={(e) => setBookingData({ ...bookingData, jobType: e.target.value as JobType, quantity: '1' })}
+                required
+              >
+                <option value="hourly">Hourly (₹{maid.hourly_rate})</option>
+                <option value="daily">Daily (₹{maid.daily_rate})</option>
+                {!bookingData.repeat && <option value="monthly">Monthly (₹{maid.monthly_rate})</option>}
+              </select>
+            </div>
+            {bookingData.jobType === 'hourly' && (
+              <div className="form-group">
+                <label htmlFor="start-time" className="form-label">Start Time</label>
+                <input
+                  id="start-time"
+                  type="time"
+                  className="form-input"
+                  value={bookingData.startTime}
+                  onChange={(e) => setBookingData({ ...bookingData, startTime: e.target.value })}
+                  required
+                />
+              </div>
+            )}
+            {!fixedDay && (
+              <div className="form-group">
+                <label htmlFor="quantity" className="form-label">
+                  Number of {unit.plural}
+                  {bookingData.repeat && ' per visit'}
+                </label>
+                <input
+                  id="quantity"
+                  type="number"
+                  min={1}
+                  max={unit.max}
+                  step={1}
+                  className="form-input"
+                  value={bookingData.quantity}
+                  onChange={(e) => setBookingData({ ...bookingData, quantity: e.target.value })}
+                  required
+                />
+              </div>
+            )}
+            {bookingData.repeat && (
+              <div className="form-group">
+                <label htmlFor="ends-on" className="form-label">Ends on (optional)</label>
+                <input
+                  id="ends-on"
+                  type="date"
+                  className="form-input"
+                  min={bookingData.date || undefined}
+                  value={bookingData.endsOn}
+                  onChange={(e) => setBookingData({ ...bookingData, endsOn: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="form-group">
+              <label htmlFor="location" className="form-label">Location</label>
+              <input
+                id="location"
+                type="text"
+                placeholder="Enter service location"
+                className="form-input"
+                value={bookingData.location}
+                onChange={(e) => setBookingData({ ...bookingData, location: e.target.value })}
+                required
+              />
+            </div>
+            <div className="booking-quote">
+              {quoteError ? (
+                <span className="booking-quote-error">{quoteError}</span>
+              ) : !validQuantity ? (
+                <span className="booking-quote-label">Enter 1 to {unit.max} {unit.plural}</span>
+              ) : quote === null ? (
+                <>
+                  <span className="booking-quote-label">
+                    Estimated {bookingData.repeat ? 'per visit' : 'total'} for {formatQuantity(quantity, bookingData.jobType)}
+                  </span>
+                  <span className="booking-quote-amount">₹{estimate?.toFixed(2)}</span>
+                </>
+              ) : (
+                <>
+                  <span className="booking-quote-label">
+                    {bookingData.repeat ? 'Per visit' : 'Total'} for {formatQuantity(quantity, bookingData.jobType)}
+                  </span>
+                  <span className="booking-quote-amount">₹{quote.toFixed(2)}</span>
+                </>
+              )}
+            </div>
+            <p className="booking-policy">{describeCancellationPolicy(policy)}</p>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button
+                type="button"
+                onClick={onClose}
+                style={{
+                  flex: 1,
+                  padding: '0.75rem',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '0.375rem',
+                  background: 'transparent',
+                  cursor: 'pointer',
+                }}
+              >
+                Cancel
+              </button>
+              <button type="submit" className="submit-btn" style={{ flex: 1 }} disabled={quote === null || submitting}>
+                {submitting ? 'Booking...' : 'Confirm Booking'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingModal;
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CancellationTerms, fetchCancellationTerms } from '@/lib/cancellations';
+
+export interface CancellableJob {
+  id: string;
+  job_date: string;
+  status: string;
+}
+
+interface CancelJobDialogProps {
+  job: CancellableJob | null;
+  role: 'customer' | 'maid';
+  otherPartyName: string;
+  onClose: () => void;
+  onConfirm: (job: CancellableJob, reason: string) => void;
+}
+
+const CancelJobDialog = ({ job, role, otherPartyName, onClose, onConfirm }: CancelJobDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [terms, setTerms] = useState<CancellationTerms | null>(null);
+  const [termsFailed, setTermsFailed] = useState(false);
+
+  const jobId = job?.id;
+
+  useEffect(() => {
+    setReason('');
+    setTerms(null);
+    setTermsFailed(false);
+    if (!jobId) return;
+
+    let cancelled = false;
+    fetchCancellationTerms(jobId)
+      .then((result) => {
+        if (!cancelled) setTerms(result);
+      })
+      .catch((error) => {
+        console.error('Error fetching cancellation terms:', error);
+        if (!cancelled) setTermsFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  const declining = role === 'maid' && job?.status === 'pending';
+  const day = job ? new Date(job.job_date).toLocaleDateString() : '';
+
+  const title =
+    role === 'customer' ? 'Cancel this booking?' : declining ? 'Decline this request?' : 'Back out of this job?';
+
+  const consequence = termsFailed
+    ? 'The cancellation policy could not be checked; any fee is worked out when you confirm.'
+    : !terms
+    ? 'Checking the cancellation policy...'
+    : role === 'customer'
+    ? terms.fee > 0
+      ? `This booking starts soon, so a cancellation fee of ₹${terms.fee.toFixed(2)} applies.`
+      : 'This cancellation is free.'
+    : terms.penaltyPoints > 0
+    ? `Backing out this close to the start costs you ${terms.penaltyPoints} reliability points.`
+    : 'This will not affect your reliability score.';
+
+  return (
+    <AlertDialog open={!!job} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {role === 'customer'
+              ? `Your booking with ${otherPartyName} on ${day} will be cancelled. This cannot be undone.`
+              : `${otherPartyName} will be told you can't take the job on ${day}.`}{' '}
+            {consequence}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="form-group">
+          <label htmlFor="cancellation-reason" className="form-label">Reason (Optional)</label>
+          <textarea
+            id="cancellation-reason"
+            className="form-input"
+            rows={2}
+            maxLength={500}
+            placeholder={`Let ${otherPartyName} know why`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>{role === 'customer' ? 'Keep Booking' : 'Keep Job'}</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!terms && !termsFailed}
+            onClick={() => {
+              if (job) onConfirm(job, reason);
+              onClose();
+            }}
+          >
+            {role === 'customer' ? 'Cancel Booking' : declining ? 'Decline' : 'Back Out'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CancelJobDialog;
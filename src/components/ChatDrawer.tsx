@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, CheckCheck, Lock, MessageCircle, Send } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/integrations/supabase/auth';
+import { useToast } from '@/hooks/use-toast';
+import { fetchMessages, isChatLocked, markMessagesRead, Message, sendMessage } from '@/lib/messages';
+import '../styles/chat.css';
+
+export interface ChatJob {
+  id: string;
+  job_date: string;
+  closed_at: string | null;
+}
+
+interface ChatDrawerProps {
+  job: ChatJob | null;
+  otherPartyName: string;
+  onClose: () => void;
+}
+
+export const ChatButton = ({ unread, onClick }: { unread: number; onClick: () => void }) => (
+  <button type="button" className="chat-open-btn" onClick={onClick}>
+    <MessageCircle style={{ width: '1rem', height: '1rem' }} />
+    Chat
+    {unread > 0 && <span className="chat-unread">{unread}</span>}
+  </button>
+);
+
+const ChatDrawer = ({ job, otherPartyName, onClose }: ChatDrawerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const jobId = job?.id;
+  const locked = job ? isChatLocked(job) : false;
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    fetchMessages(jobId)
+      .then(setMessages)
+      .catch((error) => console.error('Error fetching messages:', error));
+    markMessagesRead(jobId).catch((error) => console.error('Error marking messages read:', error));
+
+    const channel = supabase
+      .channel(`messages:${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `job_id=eq.${jobId}` },
+        (payload) => {
+          const message = payload.new as Message;
+          setMessages((current) =>
+            current.some((m) => m.id === message.id) ? current : [...current, message]
+          );
+          if (message.sender_id !== user?.id) {
+            markMessagesRead(jobId).catch((error) => console.error('Error marking messages read:', error));
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `job_id=eq.${jobId}` },
+        (payload) => {
+          const message = payload.new as Message;
+          setMessages((current) => current.map((m) => (m.id === message.id ? message : m)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+      setMessages([]);
+      setDraft('');
+    };
+  }, [jobId, user?.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!jobId || !user || !draft.trim()) return;
+    setSending(true);
+
+    try {
+      const message = await sendMessage(jobId, user.id, draft);
+      setMessages((current) => (current.some((m) => m.id === message.id) ? current : [...current, message]));
+      setDraft('');
+    } catch (error) {
+      toast({
+        title: 'Message not sent',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Sheet open={!!job} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="chat-sheet">
+        <SheetHeader>
+          <SheetTitle>Chat with {otherPartyName}</SheetTitle>
+          <SheetDescription>
+            {job && `Job on ${new Date(job.job_date).toLocaleDateString()}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="chat-messages">
+          {messages.length === 0 ? (
+            <p className="chat-empty">No messages yet. Share directions, keys or supplies here.</p>
+          ) : (
+            messages.map((message) => {
+              const mine = message.sender_id === user?.id;
+              return (
+                <div key={message.id} className={`chat-bubble ${mine ? 'chat-bubble-mine' : 'chat-bubble-theirs'}`}>
+                  <p className="chat-body">{message.body}</p>
+                  <span className="chat-meta">
+                    {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {mine &&
+                      (message.read_at ? (
+                        <CheckCheck className="chat-receipt" aria-label="Read" />
+                      ) : (
+                        <Check className="chat-receipt" aria-label="Sent" />
+                      ))}
+                  </span>
+                </div>
+              );
+            })
+          )}
+          <div ref={bottomRef} />
+        </ScrollArea>
+
+        {locked ? (
+          <div className="chat-locked">
+            <Lock style={{ width: '1rem', height: '1rem' }} />
+            This conversation is closed and read-only.
+          </div>
+        ) : (
+          <form onSubmit={handleSend} className="chat-composer">
+            <input
+              type="text"
+              className="form-input"
+              placeholder="Type a message"
+              maxLength={2000}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <button type="submit" className="submit-btn chat-send" disabled={sending || !draft.trim()} aria-label="Send">
+              <Send style={{ width: '1rem', height: '1rem' }} />
+            </button>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ChatDrawer;
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { CreditCard, Lock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CheckoutSession,
+  confirmCheckout,
+  PaymentError,
+  reportCheckoutFailure,
+  startCheckout,
+} from '@/lib/payments';
+import '../styles/checkout.css';
+
+interface RazorpayResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+interface RazorpayInstance {
+  open(): void;
+  on(event: 'payment.failed', handler: (response: { error: { description: string } }) => void): void;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => RazorpayInstance;
+  }
+}
+
+const RAZORPAY_SCRIPT = 'https://checkout.razorpay.com/v1/checkout.js';
+
+const loadRazorpay = () =>
+  new Promise<void>((resolve, reject) => {
+    if (window.Razorpay) return resolve();
+    const script = document.createElement('script');
+    script.src = RAZORPAY_SCRIPT;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new PaymentError('Could not load the payment window'));
+    document.body.appendChild(script);
+  });
+
+// Opens Razorpay's checkout; resolves with the signed result, or null when the customer closes it
+const payWithRazorpay = async (session: CheckoutSession) => {
+  await loadRazorpay();
+
+  return new Promise<RazorpayResponse | null>((resolve, reject) => {
+    const razorpay = new window.Razorpay!({
+      ...session.checkout,
+      name: 'Maidly',
+      description: 'Booking payment',
+      handler: resolve,
+      modal: { ondismiss: () => resolve(null) },
+    });
+    razorpay.on('payment.failed', ({ error }) => reject(new PaymentError(error.description)));
+    razorpay.open();
+  });
+};
+
+interface CheckoutProps {
+  jobId: string;
+  amount: number;
+  maidName: string;
+  // Recurring visits are already accepted, so paying confirms them instead
+  recurring?: boolean;
+  onPaid: () => void;
+}
+
+// Authorises the booking amount. Nothing is charged until the job is done.
+const Checkout = ({ jobId, amount, maidName, recurring = false, onPaid }: CheckoutProps) => {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+  // Set while the development gateway waits for a simulated outcome
+  const [fakeSession, setFakeSession] = useState<CheckoutSession | null>(null);
+
+  const fail = (error: unknown) =>
+    toast({
+      title: 'Payment failed',
+      description: (error as Error).message,
+      variant: 'destructive',
+    });
+
+  const confirm = async (orderId: string, paymentId: string, signature: string) => {
+    await confirmCheckout(orderId, paymentId, signature);
+    toast({
+      title: 'Payment authorised',
+      description: recurring ? 'Your visit is confirmed.' : `${maidName} can now accept your booking.`,
+    });
+    onPaid();
+  };
+
+  const handlePay = async () => {
+    setBusy(true);
+    try {
+      const session = await startCheckout(jobId);
+
+      if (session.provider === 'fake') {
+        setFakeSession(session);
+        return;
+      }
+
+      try {
+        const result = await payWithRazorpay(session);
+        if (result) {
+          await confirm(result.razorpay_order_id, result.razorpay_payment_id, result.razorpay_signature);
+        }
+      } catch (error) {
+        reportCheckoutFailure(session.orderId, (error as Error).message).catch(console.error);
+        throw error;
+      }
+    } catch (error) {
+      fail(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const simulate = async (succeed: boolean) => {
+    if (!fakeSession) return;
+    setBusy(true);
+    try {
+      if (succeed) {
+        await confirm(fakeSession.orderId, `fake_pay_${crypto.randomUUID()}`, 'fake');
+      } else {
+        await reportCheckoutFailure(fakeSession.orderId, 'Simulated decline');
+        fail(new PaymentError('The test payment was declined'));
+      }
+      setFakeSession(null);
+    } catch (error) {
+      fail(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="checkout">
+      <div className="checkout-amount">
+        <span>Amount to authorise</span>
+        <strong>₹{Number(amount).toFixed(2)}</strong>
+      </div>
+      <p className="checkout-note">
+        <Lock className="checkout-icon" />
+        The amount is held on your card or UPI account and only charged once the job is done.
+      </p>
+
+      {fakeSession ? (
+        <div className="checkout-fake">
+          <p className="checkout-note">Test gateway: choose how this payment ends.</p>
+          <div className="checkout-fake-actions">
+            <button type="button" className="checkout-secondary-btn" disabled={busy} onClick={() => simulate(false)}>
+              Decline
+            </button>
+            <button type="button" className="submit-btn" disabled={busy} onClick={() => simulate(true)}>
+              Approve
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" className="submit-btn checkout-pay-btn" disabled={busy} onClick={handlePay}>
+          <CreditCard className="checkout-icon" />
+          {busy ? 'Opening payment...' : `Pay ₹${Number(amount).toFixed(2)}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default Checkout;
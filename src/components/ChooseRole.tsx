@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { useAuth } from '@/integrations/supabase/auth';
+import { useToast } from '@/hooks/use-toast';
+import { chooseRole, SignUpRole } from '@/lib/onboarding';
+import '../styles/landing.css';
+
+// Shown on the home page to signed-in accounts whose sign-up never saved a role. Maids
+// are asked for their rates and location on the maid dashboard afterwards.
+const ChooseRole = () => {
+  const { refreshRole } = useAuth();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const handleChoose = async (role: SignUpRole) => {
+    setSaving(true);
+    try {
+      await chooseRole(role);
+      await refreshRole();
+    } catch (error) {
+      toast({
+        title: 'Could not save your choice',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="hero-section">
+      <h1 className="hero-title">Finish setting up your account</h1>
+      <p className="hero-subtitle">Tell us how you'll use Maidly</p>
+      <div className="hero-buttons">
+        <button type="button" className="btn btn-primary" disabled={saving} onClick={() => handleChoose('customer')}>
+          I'm looking for a maid
+        </button>
+        <button type="button" className="btn btn-outline" disabled={saving} onClick={() => handleChoose('maid')}>
+          I'm a maid
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default ChooseRole;
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { Download, Wallet } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchJobEarnings,
+  fetchPayoutBatches,
+  JobEarning,
+  Payout,
+  PAYOUT_STATUS_LABELS,
+  PayoutStatus,
+} from '@/lib/earnings';
+import { fetchMaidProfiles } from '@/lib/profiles';
+import { buildStatement, downloadBlob, statementCsv, statementFileName, statementPdf } from '@/lib/statements';
+import '../styles/earnings.css';
+
+const STATEMENT_MONTHS = 12;
+
+interface EarningsPanelProps {
+  maidId: string;
+  // Reloads when it changes, e.g. the ledger payout total after a settlement
+  refreshKey: number;
+}
+
+const rupees = (amount: number) => `₹${Number(amount).toFixed(2)}`;
+
+const EarningsPanel = ({ maidId, refreshKey }: EarningsPanelProps) => {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<JobEarning[]>([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [maidName, setMaidName] = useState('');
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    fetchMaidProfiles([maidId])
+      .then((profiles) => setMaidName(profiles.get(maidId)?.full_name ?? ''))
+      .catch((error) => console.error('Error fetching maid profile:', error));
+  }, [maidId]);
+
+  useEffect(() => {
+    Promise.all([fetchJobEarnings(maidId), fetchPayoutBatches({ maidId })])
+      .then(([jobEarnings, batches]) => {
+        setJobs(jobEarnings);
+        setPayouts(batches);
+      })
+      .catch((error) => console.error('Error fetching earnings:', error));
+  }, [maidId, refreshKey]);
+
+  const statement = buildStatement(parseISO(`${month}-01`), maidName, jobs, payouts);
+  const payoutsById = new Map(payouts.map((payout) => [payout.id, payout]));
+  const months = Array.from({ length: STATEMENT_MONTHS }, (_, i) => startOfMonth(subMonths(new Date(), i)));
+
+  const download = async (kind: 'csv' | 'pdf') => {
+    setDownloading(true);
+    try {
+      const blob = kind === 'csv' ? statementCsv(statement) : await statementPdf(statement);
+      downloadBlob(blob, statementFileName(statement, kind));
+    } catch (error) {
+      toast({
+        title: 'Could not create the statement',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <section className="earnings-section">
+      <div className="earnings-header">
+        <h2 className="section-title">Earnings</h2>
+        <div className="earnings-statement">
+          <select
+            className="earnings-select"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            aria-label="Statement month"
+          >
+            {months.map((m) => (
+              <option key={m.toISOString()} value={format(m, 'yyyy-MM')}>
+                {format(m, 'MMMM yyyy')}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="earnings-download-btn" disabled={downloading} onClick={() => download('csv')}>
+            <Download className="earnings-icon" />
+            CSV
+          </button>
+          <button type="button" className="earnings-download-btn" disabled={downloading} onClick={() => download('pdf')}>
+            <Download className="earnings-icon" />
+            PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="earnings-summary">
+        <div className="earnings-figure">
+          <span className="earnings-figure-label">Gross ({format(statement.month, 'MMM')})</span>
+          <span className="earnings-figure-value">{rupees(statement.totals.gross)}</span>
+        </div>
+        <div className="earnings-figure">
+          <span className="earnings-figure-label">Platform commission</span>
+          <span className="earnings-figure-value">−{rupees(statement.totals.commission)}</span>
+        </div>
+        <div className="earnings-figure">
+          <span className="earnings-figure-label">Net payout</span>
+          <span className="earnings-figure-value earnings-net">{rupees(statement.totals.net)}</span>
+        </div>
+      </div>
+
+      <Tabs defaultValue="jobs">
+        <TabsList>
+          <TabsTrigger value="jobs">By Job ({statement.jobs.length})</TabsTrigger>
+          <TabsTrigger value="payouts">Payouts ({payouts.length})</TabsTrigger>
+        </TabsList>
+        <TabsContent value="jobs">
+          {statement.jobs.length === 0 ? (
+            <p className="earnings-empty">
+              <Wallet className="earnings-icon" />
+              No jobs were settled in {format(statement.month, 'MMMM yyyy')}.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="earnings-amount">Gross</TableHead>
+                  <TableHead className="earnings-amount">Commission</TableHead>
+                  <TableHead className="earnings-amount">Net</TableHead>
+                  <TableHead>Payout</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.jobs.map((job) => {
+                  const payout = job.payout_id ? payoutsById.get(job.payout_id) : undefined;
+                  return (
+                    <TableRow key={job.job_id}>
+                      <TableCell>
+                        {new Date(job.job_date).toLocaleDateString()}
+                        {job.job_status === 'cancelled' && <div className="earnings-muted">Late cancellation fee</div>}
+                      </TableCell>
+                      <TableCell>{job.job_type}</TableCell>
+                      <TableCell className="earnings-amount">{rupees(job.gross)}</TableCell>
+                      <TableCell className="earnings-amount">{rupees(job.commission)}</TableCell>
+                      <TableCell className="earnings-amount">{rupees(job.net)}</TableCell>
+                      <TableCell>
+                        {payout ? PAYOUT_STATUS_LABELS[payout.status as PayoutStatus] : 'Next weekly batch'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </TabsContent>
+        <TabsContent value="payouts">
+          {payouts.length === 0 ? (
+            <p className="earnings-empty">
+              <Wallet className="earnings-icon" />
+              Payouts are batched every Monday for the jobs settled the week before.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Week</TableHead>
+                  <TableHead>Jobs</TableHead>
+                  <TableHead className="earnings-amount">Gross</TableHead>
+                  <TableHead className="earnings-amount">Commission</TableHead>
+                  <TableHead className="earnings-amount">Net</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payouts.map((payout) => (
+                  <TableRow key={payout.id}>
+                    <TableCell>
+                      {format(parseISO(payout.period_start), 'd MMM')} – {format(parseISO(payout.period_end), 'd MMM yyyy')}
+                    </TableCell>
+                    <TableCell>{payout.job_count}</TableCell>
+                    <TableCell className="earnings-amount">{rupees(payout.gross)}</TableCell>
+                    <TableCell className="earnings-amount">{rupees(payout.commission)}</TableCell>
+                    <TableCell className="earnings-amount">{rupees(payout.net)}</TableCell>
+                    <TableCell>
+                      <span className={`payout-status payout-status-${payout.status}`}>
+                        {PAYOUT_STATUS_LABELS[payout.status as PayoutStatus]}
+                      </span>
+                      {payout.paid_at && (
+                        <div className="earnings-muted">
+                          {new Date(payout.paid_at).toLocaleDateString()}
+                          {payout.reference && ` · ${payout.reference}`}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </TabsContent>
+      </Tabs>
+    </section>
+  );
+};
+
+export default EarningsPanel;
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format, parseISO } from 'date-fns';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { MaidDetails, maidDetailsSchema } from '@/lib/authSchemas';
+import { fetchOwnMaid, fetchRateChanges, MaidRateChange, updateMaidDetails } from '@/lib/profiles';
+import MaidOnboarding from '@/components/MaidOnboarding';
+import '../styles/auth.css';
+import '../styles/account.css';
+
+interface MaidDetailsFormProps {
+  userId: string;
+}
+
+const RATE_FIELDS = [
+  { name: 'hourlyRate', label: 'Hourly Rate (₹)', column: 'hourly_rate', unit: 'hour' },
+  { name: 'dailyRate', label: 'Daily Rate (₹)', column: 'daily_rate', unit: 'day' },
+  { name: 'monthlyRate', label: 'Monthly Rate (₹)', column: 'monthly_rate', unit: 'month' },
+] as const;
+
+// Rates, service area and description customers see when booking
+const MaidDetailsForm = ({ userId }: MaidDetailsFormProps) => {
+  const { toast } = useToast();
+  const [maidId, setMaidId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rateChanges, setRateChanges] = useState<MaidRateChange[]>([]);
+  const form = useForm<MaidDetails>({
+    resolver: zodResolver(maidDetailsSchema),
+    defaultValues: { hourlyRate: 0, dailyRate: 0, monthlyRate: 0, location: '', description: '' },
+  });
+  const { reset } = form;
+
+  const loadRateChanges = useCallback(async (id: string) => {
+    try {
+      setRateChanges(await fetchRateChanges(id));
+    } catch (error) {
+      console.error('Error fetching rate changes:', error);
+    }
+  }, []);
+
+  const loadMaid = useCallback(async () => {
+    try {
+      const maid = await fetchOwnMaid(userId);
+      if (!maid) return;
+
+      setMaidId(maid.id);
+      reset({
+        hourlyRate: Number(maid.hourly_rate),
+        dailyRate: Number(maid.daily_rate),
+        monthlyRate: Number(maid.monthly_rate),
+        location: maid.location,
+        description: maid.description ?? '',
+      });
+      loadRateChanges(maid.id);
+    } catch (error) {
+      toast({
+        title: 'Error loading your services',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, reset, loadRateChanges, toast]);
+
+  useEffect(() => {
+    loadMaid();
+  }, [loadMaid]);
+
+  const onSubmit = async (details: MaidDetails) => {
+    if (!maidId) return;
+
+    try {
+      await updateMaidDetails(maidId, details);
+      reset(details);
+      loadRateChanges(maidId);
+      toast({ title: 'Services updated' });
+    } catch (error) {
+      toast({
+        title: 'Could not update your services',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Accounts without a maid row have nothing to edit yet, so they set one up here
+  if (!loading && !maidId) {
+    return <MaidOnboarding onComplete={loadMaid} />;
+  }
+
+  const { isDirty, isSubmitting } = form.formState;
+
+  return (
+    <>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="auth-form">
+          <p className="auth-hint">
+            New rates apply to new bookings. Jobs and recurring bookings you already have keep the price they were
+            booked at.
+          </p>
+          <div className="profile-rates-grid">
+            {RATE_FIELDS.map((rate) => (
+              <FormField
+                key={rate.name}
+                control={form.control}
+                name={rate.name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{rate.label}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} step="0.01" disabled={loading} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+          <FormField
+            control={form.control}
+            name="location"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Location</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Sector 5, Noida" disabled={loading} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Textarea placeholder="Tell customers about yourself" rows={3} disabled={loading} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <button type="submit" className="submit-btn" disabled={loading || !isDirty || isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Save Changes'}
+          </button>
+        </form>
+      </Form>
+
+      {rateChanges.length > 0 && (
+        <div className="rate-history">
+          <h3 className="rate-history-title">Rate history</h3>
+          <ul className="rate-history-list">
+            {rateChanges.map((change) => (
+              <li key={change.id} className="rate-history-item">
+                <span className="rate-history-date">{format(parseISO(change.changed_at), 'd MMM yyyy, h:mm a')}</span>
+                {RATE_FIELDS.filter(
+                  (rate) => Number(change[`previous_${rate.column}`]) !== Number(change[rate.column]),
+                ).map((rate) => (
+                  <span key={rate.column} className="rate-history-change">
+                    ₹{Number(change[`previous_${rate.column}`]).toFixed(2)} → ₹{Number(change[rate.column]).toFixed(2)} per{' '}
+                    {rate.unit}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MaidDetailsForm;
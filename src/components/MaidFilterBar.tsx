@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { DEFAULT_MAID_FILTERS, MaidFilters, MaidSort } from '@/lib/maidSearch';
+import type { JobType } from '@/lib/bookings';
+
+interface MaidFilterBarProps {
+  filters: MaidFilters;
+  onChange: (filters: MaidFilters) => void;
+}
+
+const MaidFilterBar = ({ filters, onChange }: MaidFilterBarProps) => {
+  const [draft, setDraft] = useState(filters);
+
+  // Follow the URL when it changes underneath us (back/forward, shared links)
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ ...draft, page: 1 });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="maid-filters">
+      <div className="filter-field filter-field-wide">
+        <label htmlFor="filter-location" className="filter-label">Location</label>
+        <input
+          id="filter-location"
+          type="search"
+          placeholder="e.g., Sector 5, Noida"
+          className="filter-input"
+          value={draft.location}
+          onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+        />
+      </div>
+      <div className="filter-field">
+        <label htmlFor="filter-type" className="filter-label">Rate type</label>
+        <select
+          id="filter-type"
+          className="filter-input"
+          value={draft.jobType}
+          onChange={(e) => setDraft({ ...draft, jobType: e.target.value as JobType })}
+        >
+          <option value="hourly">Hourly</option>
+          <option value="daily">Daily</option>
+          <option value="monthly">Monthly</option>
+        </select>
+      </div>
+      <div className="filter-field">
+        <label htmlFor="filter-min" className="filter-label">Min ₹</label>
+        <input
+          id="filter-min"
+          type="number"
+          min={0}
+          className="filter-input"
+          value={draft.minRate}
+          onChange={(e) => setDraft({ ...draft, minRate: e.target.value })}
+        />
+      </div>
+      <div className="filter-field">
+        <label htmlFor="filter-max" className="filter-label">Max ₹</label>
+        <input
+          id="filter-max"
+          type="number"
+          min={0}
+          className="filter-input"
+          value={draft.maxRate}
+          onChange={(e) => setDraft({ ...draft, maxRate: e.target.value })}
+        />
+      </div>
+      <div className="filter-field">
+        <label htmlFor="filter-rating" className="filter-label">Min rating</label>
+        <select
+          id="filter-rating"
+          className="filter-input"
+          value={draft.minRating}
+          onChange={(e) => setDraft({ ...draft, minRating: e.target.value })}
+        >
+          <option value="">Any</option>
+          <option value="3">3+</option>
+          <option value="4">4+</option>
+          <option value="4.5">4.5+</option>
+        </select>
+      </div>
+      <div className="filter-field">
+        <label htmlFor="filter-sort" className="filter-label">Sort by</label>
+        <select
+          id="filter-sort"
+          className="filter-input"
+          value={draft.sort}
+          onChange={(e) => setDraft({ ...draft, sort: e.target.value as MaidSort })}
+        >
+          <option value="rating">Top rated</option>
+          <option value="price_asc">Price: low to high</option>
+          <option value="price_desc">Price: high to low</option>
+          <option value="jobs">Most jobs completed</option>
+        </select>
+      </div>
+      <div className="filter-actions">
+        <button type="submit" className="contact-btn">
+          <Search style={{ width: '1rem', height: '1rem', marginRight: '0.5rem', display: 'inline' }} />
+          Search
+        </button>
+        <button type="button" className="filter-reset" onClick={() => onChange(DEFAULT_MAID_FILTERS)}>
+          Reset
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default MaidFilterBar;
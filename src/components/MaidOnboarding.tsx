@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { maidDetailsSchema } from '@/lib/authSchemas';
+import { completeMaidOnboarding } from '@/lib/onboarding';
+import '../styles/auth.css';
+
+interface MaidOnboardingProps {
+  onComplete: () => void;
+}
+
+// Shown on the maid dashboard when the account has the maid role but no maid row, so
+// customers can't find or book the maid until these details are filled in
+const MaidOnboarding = ({ onComplete }: MaidOnboardingProps) => {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [details, setDetails] = useState({
+    location: '',
+    hourlyRate: '',
+    dailyRate: '',
+    monthlyRate: '',
+    description: '',
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = maidDetailsSchema.safeParse(details);
+    if (!validation.success) {
+      toast({
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await completeMaidOnboarding(validation.data);
+      toast({
+        title: 'Profile complete',
+        description: 'Customers can now find and book you.',
+      });
+      onComplete();
+    } catch (error) {
+      toast({
+        title: 'Could not save your profile',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="welcome-section onboarding-section">
+      <h2 className="section-title">
+        <AlertTriangle style={{ width: '1.25rem', height: '1.25rem', display: 'inline', marginRight: '0.5rem' }} />
+        Finish setting up your profile
+      </h2>
+      <p className="welcome-text">
+        Your sign-up didn't save your rates and location. Add them to start receiving bookings.
+      </p>
+      <form onSubmit={handleSubmit} className="auth-form">
+        <div className="onboarding-grid">
+          <div className="form-group">
+            <label htmlFor="onboarding-location" className="form-label">Location</label>
+            <input
+              id="onboarding-location"
+              type="text"
+              placeholder="e.g., Sector 5, Noida"
+              className="form-input"
+              value={details.location}
+              onChange={(e) => setDetails({ ...details, location: e.target.value })}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="onboarding-hourly-rate" className="form-label">Hourly Rate (₹)</label>
+            <input
+              id="onboarding-hourly-rate"
+              type="number"
+              placeholder="100"
+              className="form-input"
+              value={details.hourlyRate}
+              onChange={(e) => setDetails({ ...details, hourlyRate: e.target.value })}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="onboarding-daily-rate" className="form-label">Daily Rate (₹)</label>
+            <input
+              id="onboarding-daily-rate"
+              type="number"
+              placeholder="500"
+              className="form-input"
+              value={details.dailyRate}
+              onChange={(e) => setDetails({ ...details, dailyRate: e.target.value })}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="onboarding-monthly-rate" className="form-label">Monthly Rate (₹)</label>
+            <input
+              id="onboarding-monthly-rate"
+              type="number"
+              placeholder="8000"
+              className="form-input"
+              value={details.monthlyRate}
+              onChange={(e) => setDetails({ ...details, monthlyRate: e.target.value })}
+              required
+            />
+          </div>
+        </div>
+        <div className="form-group">
+          <label htmlFor="onboarding-description" className="form-label">Description (Optional)</label>
+          <input
+            id="onboarding-description"
+            type="text"
+            placeholder="Tell customers about yourself"
+            className="form-input"
+            value={details.description}
+            onChange={(e) => setDetails({ ...details, description: e.target.value })}
+          />
+        </div>
+        <button type="submit" className="submit-btn" disabled={saving}>
+          {saving ? 'Saving...' : 'Complete Profile'}
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default MaidOnboarding;
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { formatJobDuration } from '@/lib/bookings';
+import { cancellationSummary } from '@/lib/cancellations';
+import { EXPIRY_REASON_LABELS, ExpiryReason } from '@/lib/jobs';
+import { PAYMENT_STATUS_LABELS, PaymentStatus } from '@/lib/payments';
+import type { PublicProfile } from '@/lib/profiles';
+import ReviewDialog from '@/components/ReviewDialog';
+import CancelJobDialog from '@/components/CancelJobDialog';
+import Checkout from '@/components/Checkout';
+import { ChatButton } from '@/components/ChatDrawer';
+import { RescheduleButton } from '@/components/RescheduleDialog';
+import { Stars } from '@/components/ReviewList';
+import { CalendarDays, Clock, CreditCard, IndianRupee, MapPin, ClipboardList, Repeat } from 'lucide-react';
+
+export interface Booking {
+  id: string;
+  job_date: string;
+  duration_quantity: number;
+  start_time: string | null;
+  closed_at: string | null;
+  location: string;
+  job_type: string;
+  amount: number;
+  status: string;
+  expiry_reason: string | null;
+  series_id: string | null;
+  occurrence_date: string | null;
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+  cancellation_fee: number;
+  payment_status: string;
+  maid_profile: PublicProfile;
+  reviews: {
+    rating: number;
+  } | null;
+}
+
+type BookingTab = 'pending' | 'accepted' | 'completed' | 'cancelled';
+
+const TABS: { value: BookingTab; label: string; emptyText: string }[] = [
+  { value: 'pending', label: 'Pending', emptyText: 'Bookings waiting for a maid to respond will show up here' },
+  { value: 'accepted', label: 'Upcoming', emptyText: 'Bookings accepted by a maid will show up here' },
+  { value: 'completed', label: 'Completed', emptyText: 'Finished jobs will show up here' },
+  { value: 'cancelled', label: 'Cancelled', emptyText: 'Cancelled or declined bookings will show up here' },
+];
+
+interface MyBookingsProps {
+  jobs: Booking[];
+  onCancel: (jobId: string, reason?: string) => Promise<void>;
+  onReviewed: () => void;
+  unreadCounts: Record<string, number>;
+  onOpenChat: (job: Booking) => void;
+  onReschedule: (job: Booking) => void;
+  onPaid: () => void;
+}
+
+const MyBookings = ({ jobs, onCancel, onReviewed, unreadCounts, onOpenChat, onReschedule, onPaid }: MyBookingsProps) => {
+  const [jobToCancel, setJobToCancel] = useState<Booking | null>(null);
+  const [jobToPay, setJobToPay] = useState<Booking | null>(null);
+  const [jobToReview, setJobToReview] = useState<Booking | null>(null);
+
+  const renderJob = (job: Booking) => {
+    const cancellable = job.status === 'pending' || job.status === 'accepted';
+    // Recurring visits are accepted when generated and paid for one by one afterwards
+    const payable =
+      job.payment_status === 'unpaid' && (job.status === 'pending' || (job.status === 'accepted' && !!job.series_id));
+
+    return (
+      <article key={job.id} className="booking-card">
+        <div className="booking-header">
+          <h3 className="booking-maid">{job.maid_profile.full_name}</h3>
+          <span className={`booking-status booking-status-${job.status}`}>
+            {job.expiry_reason ? 'expired' : job.status}
+          </span>
+        </div>
+        <div className="booking-details">
+          <span className="booking-detail">
+            <CalendarDays className="booking-detail-icon" />
+            {new Date(job.job_date).toLocaleDateString()}
+          </span>
+          <span className="booking-detail">
+            <Clock className="booking-detail-icon" />
+            {formatJobDuration(job)} ({job.job_type})
+          </span>
+          <span className="booking-detail">
+            <MapPin className="booking-detail-icon" />
+            {job.location}
+          </span>
+          <span className="booking-detail">
+            <IndianRupee className="booking-detail-icon" />
+            {job.amount}
+          </span>
+          {job.series_id && (
+            <span className="booking-detail">
+              <Repeat className="booking-detail-icon" />
+              Recurring
+            </span>
+          )}
+          {job.payment_status !== 'waived' && (
+            <span className={`booking-detail booking-payment-${job.payment_status}`}>
+              <CreditCard className="booking-detail-icon" />
+              {PAYMENT_STATUS_LABELS[job.payment_status as Exclude<PaymentStatus, 'waived'>]}
+            </span>
+          )}
+        </div>
+        {job.expiry_reason ? (
+          <p className="booking-expiry">{EXPIRY_REASON_LABELS[job.expiry_reason as ExpiryReason]}</p>
+        ) : (
+          job.status === 'cancelled' &&
+          cancellationSummary(job, 'customer') && (
+            <p className="booking-expiry">{cancellationSummary(job, 'customer')}</p>
+          )
+        )}
+        {Number(job.cancellation_fee) > 0 && (
+          <p className="booking-expiry">Late cancellation fee: ₹{Number(job.cancellation_fee).toFixed(2)}</p>
+        )}
+        <div className="booking-actions">
+          <ChatButton unread={unreadCounts[job.id] ?? 0} onClick={() => onOpenChat(job)} />
+          {payable && (
+            <button className="booking-pay-btn" onClick={() => setJobToPay(job)}>
+              Pay Now
+            </button>
+          )}
+          {/* Recurring visits are moved from the series instead */}
+          {cancellable && !job.series_id && <RescheduleButton onClick={() => onReschedule(job)} />}
+          {cancellable && (
+            <button className="booking-cancel-btn" onClick={() => setJobToCancel(job)}>
+              Cancel Booking
+            </button>
+          )}
+          {job.status === 'completed' &&
+            (job.reviews ? (
+              <span className="booking-reviewed">
+                You rated <Stars rating={job.reviews.rating} />
+              </span>
+            ) : (
+              <button className="booking-review-btn" onClick={() => setJobToReview(job)}>
+                Leave a Review
+              </button>
+            ))}
+        </div>
+      </article>
+    );
+  };
+
+  return (
+    <section className="bookings-section">
+      <h2 className="section-title">My Bookings</h2>
+      <Tabs defaultValue="pending">
+        <TabsList>
+          {TABS.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label} ({jobs.filter((j) => j.status === tab.value).length})
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {TABS.map((tab) => {
+          const tabJobs = jobs.filter((j) => j.status === tab.value);
+          return (
+            <TabsContent key={tab.value} value={tab.value}>
+              {tabJobs.length === 0 ? (
+                <div className="empty-state">
+                  <ClipboardList className="empty-icon" />
+                  <h3 className="empty-title">No {tab.label.toLowerCase()} bookings</h3>
+                  <p className="empty-text">{tab.emptyText}</p>
+                </div>
+              ) : (
+                <div className="bookings-list">{tabJobs.map(renderJob)}</div>
+              )}
+            </TabsContent>
+          );
+        })}
+      </Tabs>
+
+      <CancelJobDialog
+        job={jobToCancel}
+        role="customer"
+        otherPartyName={jobToCancel?.maid_profile.full_name ?? 'your maid'}
+        onClose={() => setJobToCancel(null)}
+        onConfirm={(job, reason) => onCancel(job.id, reason)}
+      />
+
+      <Dialog open={!!jobToPay} onOpenChange={(open) => !open && setJobToPay(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{jobToPay?.series_id ? 'Pay for your visit' : 'Pay for your booking'}</DialogTitle>
+            <DialogDescription>
+              {jobToPay?.series_id
+                ? 'Unpaid visits are cancelled the day before they start.'
+                : `${jobToPay?.maid_profile.full_name ?? 'Your maid'} can accept the booking once it is paid for.`}
+            </DialogDescription>
+          </DialogHeader>
+          {jobToPay && (
+            <Checkout
+              jobId={jobToPay.id}
+              amount={jobToPay.amount}
+              maidName={jobToPay.maid_profile.full_name}
+              recurring={!!jobToPay.series_id}
+              onPaid={() => {
+                setJobToPay(null);
+                onPaid();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ReviewDialog
+        jobId={jobToReview?.id ?? null}
+        maidName={jobToReview?.maid_profile.full_name ?? 'your maid'}
+        onClose={() => setJobToReview(null)}
+        onReviewed={() => {
+          setJobToReview(null);
+          onReviewed();
+        }}
+      />
+    </section>
+  );
+};
+
+export default MyBookings;
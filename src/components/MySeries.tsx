@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { addDays, format, startOfToday } from 'date-fns';
+import { CalendarDays, IndianRupee, MapPin, Repeat } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatJobDay, transitionErrorTitle } from '@/lib/jobs';
+import type { PublicProfile } from '@/lib/profiles';
+import { describeSchedule, RecurringBooking, rescheduleOccurrence, SeriesTransition, transitionSeries } from '@/lib/series';
+import type { Booking } from '@/components/MyBookings';
+
+export type CustomerSeries = RecurringBooking & { maid_profile: PublicProfile };
+
+interface MySeriesProps {
+  series: CustomerSeries[];
+  jobs: Booking[];
+  onSkip: (jobId: string) => Promise<void>;
+  onChanged: () => void;
+}
+
+const UPCOMING_VISITS = 4;
+
+const MoveVisit = ({ job, onMoved }: { job: Booking; onMoved: () => void }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(job.job_date);
+  const [startTime, setStartTime] = useState(job.start_time?.slice(0, 5) ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await rescheduleOccurrence(job.id, date, startTime);
+      toast({ title: 'Visit moved', description: `Now on ${formatJobDay(date)}.` });
+      setOpen(false);
+      onMoved();
+    } catch (error) {
+      toast({
+        title: transitionErrorTitle(error),
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="series-visit-btn">Move</button>
+      </PopoverTrigger>
+      <PopoverContent align="end">
+        <form onSubmit={handleSubmit} className="auth-form">
+          <div className="form-group">
+            <label htmlFor={`move-date-${job.id}`} className="form-label">New date</label>
+            <input
+              id={`move-date-${job.id}`}
+              type="date"
+              className="form-input"
+              min={format(addDays(startOfToday(), 1), 'yyyy-MM-dd')}
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              required
+            />
+          </div>
+          {job.job_type === 'hourly' && (
+            <div className="form-group">
+              <label htmlFor={`move-time-${job.id}`} className="form-label">Start Time</label>
+              <input
+                id={`move-time-${job.id}`}
+                type="time"
+                className="form-input"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                required
+              />
+            </div>
+          )}
+          <button type="submit" className="submit-btn" disabled={saving}>
+            {saving ? 'Moving...' : 'Move Visit'}
+          </button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+const MySeries = ({ series, jobs, onSkip, onChanged }: MySeriesProps) => {
+  const { toast } = useToast();
+  const [visitToSkip, setVisitToSkip] = useState<Booking | null>(null);
+  const [seriesToEnd, setSeriesToEnd] = useState<CustomerSeries | null>(null);
+  const today = format(startOfToday(), 'yyyy-MM-dd');
+
+  const runTransition = async (transition: SeriesTransition, seriesId: string, success: string) => {
+    try {
+      await transitionSeries(transition, seriesId);
+      toast({ title: success });
+      onChanged();
+    } catch (error) {
+      toast({
+        title: transitionErrorTitle(error),
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderSeries = (item: CustomerSeries) => {
+    const visits = jobs
+      .filter((job) => job.series_id === item.id && job.status === 'accepted' && job.job_date >= today)
+      .sort((a, b) => a.job_date.localeCompare(b.job_date))
+      .slice(0, UPCOMING_VISITS);
+
+    return (
+      <article key={item.id} className="booking-card">
+        <div className="booking-header">
+          <h3 className="booking-maid">{item.maid_profile.full_name}</h3>
+          <span className={`booking-status booking-status-${item.status}`}>{item.status}</span>
+        </div>
+        <div className="booking-details">
+          <span className="booking-detail">
+            <Repeat className="booking-detail-icon" />
+            {describeSchedule(item)}
+          </span>
+          <span className="booking-detail">
+            <CalendarDays className="booking-detail-icon" />
+            From {formatJobDay(item.starts_on)}
+            {item.ends_on && ` until ${formatJobDay(item.ends_on)}`}
+          </span>
+          <span className="booking-detail">
+            <MapPin className="booking-detail-icon" />
+            {item.location}
+          </span>
+          <span className="booking-detail">
+            <IndianRupee className="booking-detail-icon" />
+            {item.amount_per_visit} per visit
+          </span>
+        </div>
+
+        {visits.length > 0 && (
+          <ul className="series-visits">
+            {visits.map((visit) => (
+              <li key={visit.id} className="series-visit">
+                <span>
+                  {formatJobDay(visit.job_date)}
+                  {visit.start_time && `, ${visit.start_time.slice(0, 5)}`}
+                  {visit.occurrence_date !== visit.job_date && (
+                    <span className="series-visit-moved"> (moved from {formatJobDay(visit.occurrence_date)})</span>
+                  )}
+                  {visit.payment_status === 'unpaid' && <span className="series-visit-unpaid"> · not paid yet</span>}
+                </span>
+                <span className="series-visit-actions">
+                  <MoveVisit job={visit} onMoved={onChanged} />
+                  <button type="button" className="series-visit-btn" onClick={() => setVisitToSkip(visit)}>
+                    Skip
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="booking-actions">
+          {item.status === 'active' && (
+            <button
+              className="booking-review-btn"
+              onClick={() => runTransition('pause_series', item.id, 'Recurring booking paused')}
+            >
+              Pause
+            </button>
+          )}
+          {item.status === 'paused' && (
+            <button
+              className="booking-review-btn"
+              onClick={() => runTransition('resume_series', item.id, 'Recurring booking resumed')}
+            >
+              Resume
+            </button>
+          )}
+          {(item.status === 'pending' || item.status === 'active' || item.status === 'paused') && (
+            <button className="booking-cancel-btn" onClick={() => setSeriesToEnd(item)}>
+              {item.status === 'pending' ? 'Withdraw' : 'End Series'}
+            </button>
+          )}
+        </div>
+      </article>
+    );
+  };
+
+  return (
+    <section className="bookings-section">
+      <h2 className="section-title">Recurring Bookings</h2>
+      <div className="bookings-list">{series.map(renderSeries)}</div>
+
+      <AlertDialog open={!!visitToSkip} onOpenChange={(open) => !open && setVisitToSkip(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Skip this visit?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {visitToSkip &&
+                `The visit on ${formatJobDay(visitToSkip.job_date)} will be cancelled. The rest of the series is not affected.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Visit</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (visitToSkip) onSkip(visitToSkip.id);
+                setVisitToSkip(null);
+              }}
+            >
+              Skip Visit
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!seriesToEnd} onOpenChange={(open) => !open && setSeriesToEnd(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>End this recurring booking?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {seriesToEnd &&
+                `No more visits with ${seriesToEnd.maid_profile.full_name} will be booked and upcoming visits will be cancelled. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Series</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (seriesToEnd) runTransition('end_series', seriesToEnd.id, 'Recurring booking ended');
+                setSeriesToEnd(null);
+              }}
+            >
+              End Series
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  );
+};
+
+export default MySeries;
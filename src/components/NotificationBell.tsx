@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, Settings } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import NotificationPreferencesDialog from '@/components/NotificationPreferencesDialog';
+import { useAuth } from '@/integrations/supabase/auth';
+import { useNotifications } from '@/hooks/use-notifications';
+import '../styles/notifications.css';
+
+const NotificationBell = () => {
+  const { user } = useAuth();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(user?.id);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className="notification-bell"
+            aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+          >
+            <Bell style={{ width: '1.25rem', height: '1.25rem' }} />
+            {unreadCount > 0 && (
+              <span className="notification-badge">{unreadCount > 9 ? '9+' : unreadCount}</span>
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="notification-menu">
+          <DropdownMenuLabel className="notification-menu-header">
+            Notifications
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                className="notification-mark-all"
+                onClick={(e) => {
+                  e.preventDefault();
+                  markAllRead();
+                }}
+              >
+                Mark all read
+              </button>
+            )}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {notifications.length === 0 ? (
+            <p className="notification-empty">You're all caught up.</p>
+          ) : (
+            <ScrollArea className="notification-list">
+              {notifications.map((notification) => (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className={`notification-item ${notification.read_at ? '' : 'notification-item-unread'}`}
+                  onSelect={(e) => {
+                    e.preventDefault();
+                    markRead(notification.id);
+                  }}
+                >
+                  <span className="notification-title">{notification.title}</span>
+                  <span className="notification-body">{notification.body}</span>
+                  <span className="notification-time">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </ScrollArea>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setPreferencesOpen(true)}>
+            <Settings style={{ width: '1rem', height: '1rem', marginRight: '0.5rem' }} />
+            Notification preferences
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <NotificationPreferencesDialog open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/integrations/supabase/auth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DELIVERY_CHANNELS,
+  fetchNotificationPreferences,
+  NOTIFICATION_KINDS,
+  NotificationPreferences,
+  saveNotificationPreferences,
+} from '@/lib/notifications';
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NotificationPreferencesDialog = ({ open, onOpenChange }: NotificationPreferencesDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    fetchNotificationPreferences(user.id)
+      .then(setPreferences)
+      .catch((error) => {
+        toast({
+          title: 'Error fetching preferences',
+          description: error.message,
+          variant: 'destructive',
+        });
+      });
+  }, [open, user, toast]);
+
+  const handleSave = async () => {
+    if (!user || !preferences) return;
+    setSaving(true);
+
+    try {
+      await saveNotificationPreferences(user.id, preferences);
+      toast({ title: 'Preferences saved' });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error saving preferences',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Notification preferences</DialogTitle>
+          <DialogDescription>Choose which updates appear in your notifications.</DialogDescription>
+        </DialogHeader>
+
+        {[
+          { heading: 'In the app', options: NOTIFICATION_KINDS },
+          { heading: 'Email and SMS', options: DELIVERY_CHANNELS },
+        ].map(({ heading, options }) => (
+          <div key={heading} className="notification-prefs">
+            <h4 className="notification-prefs-heading">{heading}</h4>
+            {options.map(({ kind, label, description }) => (
+              <div key={kind} className="notification-pref">
+                <div>
+                  <Label htmlFor={`notify-${kind}`}>{label}</Label>
+                  <p className="notification-pref-description">{description}</p>
+                </div>
+                <Switch
+                  id={`notify-${kind}`}
+                  checked={preferences?.[kind] ?? true}
+                  disabled={!preferences}
+                  onCheckedChange={(checked) => preferences && setPreferences({ ...preferences, [kind]: checked })}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+
+        <DialogFooter>
+          <button type="button" className="submit-btn" onClick={handleSave} disabled={saving || !preferences}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotificationPreferencesDialog;
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { formatPhone, OTP_LENGTH, OTP_RESEND_SECONDS } from '@/lib/phone';
+import '../styles/auth.css';
+
+interface OtpCodeFormProps {
+  // 10-digit number the code was sent to
+  phone: string;
+  submitLabel: string;
+  // Both throw when Supabase rejects the code or the resend
+  onVerify: (code: string) => Promise<void>;
+  onResend: () => Promise<void>;
+  onCancel: () => void;
+}
+
+// Code entry for an SMS one-time password, shown after the first code has been sent
+const OtpCodeForm = ({ phone, submitLabel, onVerify, onResend, onCancel }: OtpCodeFormProps) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(OTP_RESEND_SECONDS);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+    const timer = setTimeout(() => setSecondsLeft((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  const verify = async (value: string) => {
+    if (value.length !== OTP_LENGTH || verifying) return;
+    setVerifying(true);
+
+    try {
+      await onVerify(value);
+    } catch (error) {
+      setCode('');
+      toast({
+        title: 'Verification failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setResending(true);
+
+    try {
+      await onResend();
+      setCode('');
+      setSecondsLeft(OTP_RESEND_SECONDS);
+      toast({ title: 'Code sent', description: `A new code is on its way to ${formatPhone(phone)}.` });
+    } catch (error) {
+      toast({
+        title: 'Could not resend the code',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <form
+      className="auth-form"
+      onSubmit={(e) => {
+        e.preventDefault();
+        verify(code);
+      }}
+    >
+      <p className="auth-hint">
+        Enter the {OTP_LENGTH}-digit code we sent to <strong>{formatPhone(phone)}</strong>.
+      </p>
+      <div className="otp-input">
+        <InputOTP
+          maxLength={OTP_LENGTH}
+          value={code}
+          onChange={setCode}
+          onComplete={verify}
+          disabled={verifying}
+          autoFocus
+          inputMode="numeric"
+          autoComplete="one-time-code"
+        >
+          <InputOTPGroup>
+            {Array.from({ length: OTP_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <button type="submit" className="submit-btn" disabled={verifying || code.length !== OTP_LENGTH}>
+        {verifying ? (
+          <span className="btn-loading">
+            <span className="btn-spinner"></span>
+            Verifying...
+          </span>
+        ) : submitLabel}
+      </button>
+      <button
+        type="button"
+        className="auth-link-btn"
+        onClick={handleResend}
+        disabled={secondsLeft > 0 || resending}
+      >
+        {secondsLeft > 0 ? `Resend code in ${secondsLeft}s` : resending ? 'Sending...' : 'Resend code'}
+      </button>
+      <button type="button" className="auth-link-btn" onClick={onCancel}>
+        Use a different number
+      </button>
+    </form>
+  );
+};
+
+export default OtpCodeForm;
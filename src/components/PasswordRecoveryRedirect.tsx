@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/integrations/supabase/auth';
+
+// A reset link can land on any page (e.g. the site URL if the redirect isn't allow-listed),
+// so send the user on to choose a new password wherever the recovery session starts
+const PasswordRecoveryRedirect = () => {
+  const { passwordRecovery } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (passwordRecovery && location.pathname !== '/reset-password') {
+      navigate('/reset-password', { replace: true });
+    }
+  }, [passwordRecovery, location.pathname, navigate]);
+
+  return null;
+};
+
+export default PasswordRecoveryRedirect;
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { ProfileDetails, profileDetailsSchema } from '@/lib/authSchemas';
+import { fetchProfileDetails, updateProfileDetails } from '@/lib/profiles';
+import '../styles/auth.css';
+
+interface ProfileDetailsFormProps {
+  userId: string;
+}
+
+const ProfileDetailsForm = ({ userId }: ProfileDetailsFormProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const form = useForm<ProfileDetails>({
+    resolver: zodResolver(profileDetailsSchema),
+    defaultValues: { fullName: '', phone: '' },
+  });
+  const { reset } = form;
+
+  useEffect(() => {
+    fetchProfileDetails(userId)
+      .then((details) => reset(details))
+      .catch((error) => {
+        toast({
+          title: 'Error loading your profile',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [userId, reset, toast]);
+
+  const onSubmit = async (details: ProfileDetails) => {
+    try {
+      await updateProfileDetails(userId, details);
+      reset(details);
+      toast({ title: 'Profile updated' });
+    } catch (error) {
+      toast({
+        title: 'Could not update your profile',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const { isDirty, isSubmitting } = form.formState;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="auth-form">
+        <FormField
+          control={form.control}
+          name="fullName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Full Name</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" disabled={loading} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="phone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone</FormLabel>
+              <FormControl>
+                <Input type="tel" inputMode="numeric" placeholder="10-digit mobile number" disabled={loading} {...field} />
+              </FormControl>
+              <FormDescription>
+                Used for SMS booking updates. To sign in with a code, link your number in Account settings.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <button type="submit" className="submit-btn" disabled={loading || !isDirty || isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save Changes'}
+        </button>
+      </form>
+    </Form>
+  );
+};
+
+export default ProfileDetailsForm;
@@ -0,0 +1,39 @@
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { AppRole, useAuth } from '@/integrations/supabase/auth';
+import { dashboardPathFor, ReturnToState } from '@/lib/roles';
+
+interface RequireRoleProps {
+  // Omit to allow any signed-in user
+  role?: AppRole;
+  children: ReactNode;
+}
+
+// Renders its children only for signed-in users with the given role (any role if none is
+// given). Signed-out users go to /auth and are brought back here afterwards; other roles go
+// to their own dashboard.
+const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { user, userRole, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="loading-container">
+        <div className="spinner"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    const state: ReturnToState = { from: location };
+    return <Navigate to="/auth" replace state={state} />;
+  }
+
+  if (role && userRole !== role) {
+    return <Navigate to={dashboardPathFor(userRole)} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
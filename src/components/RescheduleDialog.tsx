@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { format, startOfToday } from 'date-fns';
+import { CalendarClock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/integrations/supabase/auth';
+import { useToast } from '@/hooks/use-toast';
+import { transitionErrorTitle } from '@/lib/jobs';
+import {
+  formatSlot,
+  PROPOSAL_STATUS_LABELS,
+  ProposalStatus,
+  proposeReschedule,
+  RescheduleProposal,
+} from '@/lib/reschedules';
+import '../styles/reschedule.css';
+
+export interface ReschedulableJob {
+  id: string;
+  job_date: string;
+  start_time: string | null;
+  job_type: string;
+  status: string;
+}
+
+interface RescheduleDialogProps {
+  job: ReschedulableJob | null;
+  otherPartyName: string;
+  proposals: RescheduleProposal[];
+  onClose: () => void;
+}
+
+export const RescheduleButton = ({ onClick }: { onClick: () => void }) => (
+  <button type="button" className="reschedule-open-btn" onClick={onClick}>
+    <CalendarClock style={{ width: '1rem', height: '1rem' }} />
+    Reschedule
+  </button>
+);
+
+const RescheduleDialog = ({ job, otherPartyName, proposals, onClose }: RescheduleDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setDate(job?.job_date ?? '');
+    setStartTime(job?.start_time?.slice(0, 5) ?? '');
+  }, [job]);
+
+  const history = job ? proposals.filter((p) => p.job_id === job.id) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!job) return;
+    setSubmitting(true);
+
+    try {
+      await proposeReschedule(job.id, date, startTime);
+      toast({
+        title: 'New time proposed',
+        description: `We'll let you know when ${otherPartyName} responds.`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: transitionErrorTitle(error),
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!job} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reschedule booking</DialogTitle>
+          <DialogDescription>
+            {job &&
+              `Currently ${formatSlot(job.job_date, job.start_time)}. ${otherPartyName} will be asked to accept the new time.`}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="auth-form">
+          <div className="form-group">
+            <label htmlFor="reschedule-date" className="form-label">New date</label>
+            <input
+              id="reschedule-date"
+              type="date"
+              className="form-input"
+              min={format(startOfToday(), 'yyyy-MM-dd')}
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              required
+            />
+          </div>
+          {job?.job_type === 'hourly' && (
+            <div className="form-group">
+              <label htmlFor="reschedule-time" className="form-label">Start Time</label>
+              <input
+                id="reschedule-time"
+                type="time"
+                className="form-input"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                required
+              />
+            </div>
+          )}
+          <button type="submit" className="submit-btn" disabled={submitting}>
+            {submitting ? 'Sending...' : 'Propose New Time'}
+          </button>
+        </form>
+
+        {history.length > 0 && (
+          <div className="reschedule-history">
+            <h4 className="reschedule-history-title">Earlier proposals</h4>
+            <ul>
+              {history.map((proposal) => (
+                <li key={proposal.id} className="reschedule-history-item">
+                  <span>
+                    {proposal.proposed_by === user?.id ? 'You' : otherPartyName} proposed{' '}
+                    {formatSlot(proposal.proposed_date, proposal.proposed_start_time)}
+                  </span>
+                  <span className={`reschedule-status reschedule-status-${proposal.status}`}>
+                    {PROPOSAL_STATUS_LABELS[proposal.status as ProposalStatus]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RescheduleDialog;
@@ -0,0 +1,103 @@
+import { ArrowRight, CalendarClock } from 'lucide-react';
+import { useAuth } from '@/integrations/supabase/auth';
+import { useToast } from '@/hooks/use-toast';
+import { transitionErrorTitle } from '@/lib/jobs';
+import { formatSlot, RescheduleProposal, respondToReschedule, withdrawReschedule } from '@/lib/reschedules';
+import type { ReschedulableJob } from '@/components/RescheduleDialog';
+import '../styles/reschedule.css';
+
+interface RescheduleRequestsProps {
+  proposals: RescheduleProposal[];
+  jobs: ReschedulableJob[];
+  otherPartyName: (jobId: string) => string;
+  onCounter: (job: ReschedulableJob) => void;
+  onChanged: () => void;
+}
+
+// Open proposals on the user's jobs: theirs to answer, or ours awaiting a reply
+const RescheduleRequests = ({ proposals, jobs, otherPartyName, onCounter, onChanged }: RescheduleRequestsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const pending = proposals.filter((p) => p.status === 'pending' && jobs.some((j) => j.id === p.job_id));
+  if (pending.length === 0) return null;
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({ title: success });
+      onChanged();
+    } catch (error) {
+      toast({
+        title: transitionErrorTitle(error),
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <section className="reschedule-section">
+      <h2 className="section-title">Reschedule Requests ({pending.length})</h2>
+      <div className="reschedule-list">
+        {pending.map((proposal) => {
+          const job = jobs.find((j) => j.id === proposal.job_id)!;
+          const name = otherPartyName(job.id);
+          const mine = proposal.proposed_by === user?.id;
+
+          return (
+            <article key={proposal.id} className="reschedule-card">
+              <div>
+                <p className="reschedule-who">
+                  <CalendarClock className="reschedule-icon" />
+                  {mine ? `Waiting for ${name} to reply` : `${name} asked to move this booking`}
+                </p>
+                <p className="reschedule-slots">
+                  <span className="reschedule-from">
+                    {formatSlot(proposal.previous_date, proposal.previous_start_time)}
+                  </span>
+                  <ArrowRight className="reschedule-icon" />
+                  <strong>{formatSlot(proposal.proposed_date, proposal.proposed_start_time)}</strong>
+                </p>
+              </div>
+              <div className="reschedule-actions">
+                {mine ? (
+                  <button
+                    type="button"
+                    className="reschedule-secondary-btn"
+                    onClick={() => run(() => withdrawReschedule(proposal.id), 'Proposal withdrawn')}
+                  >
+                    Withdraw
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      className="reschedule-secondary-btn"
+                      onClick={() => run(() => respondToReschedule(proposal.id, false), 'Kept the original time')}
+                    >
+                      Decline
+                    </button>
+                    <button type="button" className="reschedule-secondary-btn" onClick={() => onCounter(job)}>
+                      Suggest Another
+                    </button>
+                    <button
+                      type="button"
+                      className="submit-btn"
+                      style={{ padding: '0.5rem 1rem' }}
+                      onClick={() => run(() => respondToReschedule(proposal.id, true), 'Booking moved')}
+                    >
+                      Accept
+                    </button>
+                  </>
+                )}
+              </div>
+            </article>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default RescheduleRequests;
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { submitReview } from '@/lib/reviews';
+import '../styles/reviews.css';
+
+interface ReviewDialogProps {
+  jobId: string | null;
+  maidName: string;
+  onClose: () => void;
+  onReviewed: () => void;
+}
+
+const ReviewDialog = ({ jobId, maidName, onClose, onReviewed }: ReviewDialogProps) => {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!jobId) return;
+    setSubmitting(true);
+
+    try {
+      await submitReview(jobId, rating, comment);
+      toast({
+        title: 'Thanks for your review!',
+        description: `Your rating helps other customers find great maids like ${maidName}.`,
+      });
+      setRating(0);
+      setComment('');
+      onReviewed();
+    } catch (error) {
+      toast({
+        title: 'Review failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!jobId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review {maidName}</DialogTitle>
+          <DialogDescription>How did the job go?</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="auth-form">
+          <div className="review-star-input" role="radiogroup" aria-label="Rating">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={rating === value}
+                aria-label={`${value} star${value === 1 ? '' : 's'}`}
+                onClick={() => setRating(value)}
+              >
+                <Star className={value <= rating ? 'review-star review-star-filled' : 'review-star'} />
+              </button>
+            ))}
+          </div>
+          <div className="form-group">
+            <label htmlFor="review-comment" className="form-label">Comment (Optional)</label>
+            <textarea
+              id="review-comment"
+              className="form-input"
+              rows={3}
+              maxLength={1000}
+              placeholder="Tell other customers about your experience"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <button type="submit" className="submit-btn" disabled={rating === 0 || submitting}>
+              {submitting ? 'Submitting...' : 'Submit Review'}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Star } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { fetchMaidReviews, replyToReview, Review } from '@/lib/reviews';
+import '../styles/reviews.css';
+
+interface ReviewListProps {
+  maidId: string;
+  canReply?: boolean;
+}
+
+export const Stars = ({ rating }: { rating: number }) => (
+  <span className="review-stars" aria-label={`${rating} out of 5 stars`}>
+    {[1, 2, 3, 4, 5].map((value) => (
+      <Star key={value} className={value <= rating ? 'review-star review-star-filled' : 'review-star'} />
+    ))}
+  </span>
+);
+
+const ReviewList = ({ maidId, canReply = false }: ReviewListProps) => {
+  const { toast } = useToast();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replies, setReplies] = useState<Record<string, string>>({});
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setReviews(await fetchMaidReviews(maidId));
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [maidId]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleReply = async (reviewId: string) => {
+    try {
+      await replyToReview(reviewId, replies[reviewId] ?? '');
+      toast({
+        title: 'Reply posted',
+        description: 'Your reply is now visible to customers.',
+      });
+      setReplies({ ...replies, [reviewId]: '' });
+      loadReviews();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return <p className="review-empty">Loading reviews...</p>;
+  }
+
+  if (reviews.length === 0) {
+    return <p className="review-empty">No reviews yet</p>;
+  }
+
+  return (
+    <ul className="review-list">
+      {reviews.map((review) => (
+        <li key={review.id} className="review-item">
+          <div className="review-header">
+            <Stars rating={review.rating} />
+            <span className="review-date">{new Date(review.created_at).toLocaleDateString()}</span>
+          </div>
+          {review.comment && <p className="review-comment">{review.comment}</p>}
+          {review.maid_reply ? (
+            <div className="review-reply">
+              <span className="review-reply-label">Maid's reply</span>
+              <p>{review.maid_reply}</p>
+            </div>
+          ) : (
+            canReply && (
+              <div className="review-reply-form">
+                <textarea
+                  className="form-input"
+                  rows={2}
+                  maxLength={1000}
+                  placeholder="Write a public reply"
+                  value={replies[review.id] ?? ''}
+                  onChange={(e) => setReplies({ ...replies, [review.id]: e.target.value })}
+                />
+                <button
+                  className="submit-btn"
+                  style={{ padding: '0.5rem 1rem' }}
+                  disabled={!replies[review.id]?.trim()}
+                  onClick={() => handleReply(review.id)}
+                >
+                  Reply
+                </button>
+              </div>
+            )
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ReviewList;
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarDays, IndianRupee, MapPin, Repeat } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatJobDay, transitionErrorTitle } from '@/lib/jobs';
+import { fetchSeriesCustomerProfiles, profileOrUnknown, PublicProfile } from '@/lib/profiles';
+import { describeSchedule, fetchSeries, RecurringBooking, SeriesTransition, transitionSeries } from '@/lib/series';
+
+type MaidSeries = RecurringBooking & { customer: PublicProfile };
+
+interface SeriesRequestsProps {
+  maidId: string;
+  onChanged: () => void;
+}
+
+const SeriesRequests = ({ maidId, onChanged }: SeriesRequestsProps) => {
+  const { toast } = useToast();
+  const [series, setSeries] = useState<MaidSeries[]>([]);
+  const [seriesToEnd, setSeriesToEnd] = useState<MaidSeries | null>(null);
+
+  const loadSeries = useCallback(async () => {
+    try {
+      const data = await fetchSeries('maid_id', maidId);
+      const customers = await fetchSeriesCustomerProfiles(data.map((item) => item.id));
+      setSeries(data.map((item) => ({ ...item, customer: profileOrUnknown(customers, item.id) })));
+    } catch (error) {
+      console.error('Error fetching recurring bookings:', error);
+    }
+  }, [maidId]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const runTransition = async (transition: SeriesTransition, seriesId: string, success: string) => {
+    try {
+      await transitionSeries(transition, seriesId);
+      toast({ title: success });
+      loadSeries();
+      onChanged();
+    } catch (error) {
+      toast({
+        title: transitionErrorTitle(error),
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const requests = series.filter((item) => item.status === 'pending');
+  const running = series.filter((item) => item.status === 'active' || item.status === 'paused');
+
+  if (requests.length === 0 && running.length === 0) return null;
+
+  const renderSeries = (item: MaidSeries) => (
+    <article key={item.id} className="job-card">
+      <div className="job-card-info">
+        <h3 className="job-card-title">
+          {item.customer.full_name}
+          {item.status === 'paused' && <span className="series-paused">Paused</span>}
+        </h3>
+        <div className="job-card-meta">
+          <span>
+            <Repeat className="job-card-icon" />
+            {describeSchedule(item)}
+          </span>
+          <span>
+            <CalendarDays className="job-card-icon" />
+            From {formatJobDay(item.starts_on)}
+            {item.ends_on && ` until ${formatJobDay(item.ends_on)}`}
+          </span>
+          <span>
+            <MapPin className="job-card-icon" />
+            {item.location}
+          </span>
+        </div>
+      </div>
+      <div className="job-card-side">
+        <div className="job-card-amount">
+          <IndianRupee className="job-card-icon" style={{ display: 'inline' }} />
+          {item.amount_per_visit} <span className="job-card-type">per visit</span>
+        </div>
+        <div className="job-card-actions">
+          {item.status === 'pending' ? (
+            <>
+              <button
+                className="series-decline-btn"
+                onClick={() => runTransition('decline_series', item.id, 'Recurring booking declined')}
+              >
+                Decline
+              </button>
+              <button
+                className="submit-btn"
+                style={{ padding: '0.5rem 1rem' }}
+                onClick={() => runTransition('accept_series', item.id, 'Recurring booking accepted!')}
+              >
+                Accept All Visits
+              </button>
+            </>
+          ) : (
+            <button className="series-decline-btn" onClick={() => setSeriesToEnd(item)}>
+              End Series
+            </button>
+          )}
+        </div>
+      </div>
+    </article>
+  );
+
+  return (
+    <>
+      {requests.length > 0 && (
+        <section style={{ marginTop: '2rem' }}>
+          <h2 className="section-title">Recurring Requests ({requests.length})</h2>
+          <div className="job-list">{requests.map(renderSeries)}</div>
+        </section>
+      )}
+
+      {running.length > 0 && (
+        <section style={{ marginTop: '2rem' }}>
+          <h2 className="section-title">Recurring Customers</h2>
+          <div className="job-list">{running.map(renderSeries)}</div>
+        </section>
+      )}
+
+      <AlertDialog open={!!seriesToEnd} onOpenChange={(open) => !open && setSeriesToEnd(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>End this recurring booking?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {seriesToEnd &&
+                `Upcoming visits for ${seriesToEnd.customer.full_name} will be cancelled and no more will be booked. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Series</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (seriesToEnd) runTransition('end_series', seriesToEnd.id, 'Recurring booking ended');
+                setSeriesToEnd(null);
+              }}
+            >
+              End Series
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default SeriesRequests;
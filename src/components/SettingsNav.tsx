@@ -0,0 +1,22 @@
+import { NavLink } from 'react-router-dom';
+
+const SETTINGS_PAGES = [
+  { to: '/profile', label: 'Profile' },
+  { to: '/account', label: 'Account' },
+];
+
+const SettingsNav = () => (
+  <nav className="settings-nav">
+    {SETTINGS_PAGES.map((page) => (
+      <NavLink
+        key={page.to}
+        to={page.to}
+        className={({ isActive }) => (isActive ? 'settings-nav-link settings-nav-link-active' : 'settings-nav-link')}
+      >
+        {page.label}
+      </NavLink>
+    ))}
+  </nav>
+);
+
+export default SettingsNav;
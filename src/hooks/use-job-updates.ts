@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react';
+import { REALTIME_SUBSCRIBE_STATES, RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type JobRow = Tables<'jobs'>;
+
+export interface JobChange {
+  eventType: 'INSERT' | 'UPDATE';
+  job: JobRow;
+}
+
+const POLL_INTERVAL_MS = 30_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// Streams inserts and updates on the jobs owned by one customer or maid.
+// While the channel is down it reconnects with backoff and polls via onResync,
+// and resyncs once more after reconnecting to pick up anything missed.
+export function useJobUpdates(
+  column: 'customer_id' | 'maid_id',
+  value: string | undefined,
+  onChange: (change: JobChange) => void,
+  onResync: () => void
+) {
+  const handlers = useRef({ onChange, onResync });
+  handlers.current = { onChange, onResync };
+
+  useEffect(() => {
+    if (!value) return;
+
+    let channel: RealtimeChannel | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let attempt = 0;
+
+    const startPolling = () => {
+      pollTimer ??= setInterval(() => handlers.current.onResync(), POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    };
+
+    const scheduleReconnect = () => {
+      if (reconnectTimer) return;
+      const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+      attempt += 1;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = undefined;
+        connect();
+      }, delay);
+    };
+
+    const connect = () => {
+      const previous = channel;
+      channel = undefined;
+      if (previous) supabase.removeChannel(previous);
+
+      const filter = `${column}=eq.${value}`;
+      const current = supabase
+        .channel(`jobs:${column}:${value}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'jobs', filter }, (payload) =>
+          handlers.current.onChange({ eventType: 'INSERT', job: payload.new as JobRow })
+        )
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'jobs', filter }, (payload) =>
+          handlers.current.onChange({ eventType: 'UPDATE', job: payload.new as JobRow })
+        );
+      channel = current;
+
+      current.subscribe((status) => {
+        // Ignore status callbacks from channels we have already replaced
+        if (channel !== current) return;
+
+        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          if (attempt > 0) handlers.current.onResync();
+          attempt = 0;
+          stopPolling();
+        } else {
+          startPolling();
+          scheduleReconnect();
+        }
+      });
+    };
+
+    connect();
+
+    return () => {
+      const current = channel;
+      channel = undefined;
+      clearTimeout(reconnectTimer);
+      stopPolling();
+      if (current) supabase.removeChannel(current);
+    };
+  }, [column, value]);
+}
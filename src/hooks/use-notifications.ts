@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AppNotification,
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '@/lib/notifications';
+
+// The signed-in user's latest notifications, kept live via realtime
+export function useNotifications(userId: string | undefined) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setNotifications(await fetchNotifications());
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    refresh();
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => refresh()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  const markRead = async (notificationId: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((n) => (n.id === notificationId && !n.read_at ? { ...n, read_at: readAt } : n))
+    );
+    try {
+      await markNotificationRead(notificationId);
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+      refresh();
+    }
+  };
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) => current.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+    try {
+      await markAllNotificationsRead();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      refresh();
+    }
+  };
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  return { notifications, unreadCount, markRead, markAllRead };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchProposals, RescheduleProposal } from '@/lib/reschedules';
+
+// Reschedule proposals on the signed-in user's jobs, kept live via realtime
+export function useRescheduleProposals(userId: string | undefined) {
+  const [proposals, setProposals] = useState<RescheduleProposal[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setProposals(await fetchProposals());
+    } catch (error) {
+      console.error('Error fetching reschedule proposals:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    refresh();
+
+    // RLS decides which rows reach this user, so no filter is needed
+    const channel = supabase
+      .channel(`reschedule_proposals:${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'reschedule_proposals' }, () => refresh())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  return { proposals, refresh };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchUnreadCounts } from '@/lib/messages';
+
+// Unread chat messages per job for the signed-in user, kept live via realtime
+export function useUnreadMessages(userId: string | undefined) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setCounts(await fetchUnreadCounts(userId));
+    } catch (error) {
+      console.error('Error fetching unread messages:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    refresh();
+
+    // RLS limits the change feed to jobs this user is part of
+    const channel = supabase
+      .channel(`unread-messages:${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, () => refresh())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  return { counts, refresh };
+}
@@ -1,14 +1,22 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from './client';
+import type { Database } from './types';
 import { useNavigate } from 'react-router-dom';
 
+export type AppRole = Database['public']['Enums']['app_role'];
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
-  userRole: 'customer' | 'maid' | null;
+  userRole: AppRole | null;
   loading: boolean;
   signOut: () => Promise<void>;
+  // Re-reads the role, e.g. after a role-less account picks one
+  refreshRole: () => Promise<void>;
+  // True after the user arrived through a password reset link, until a new password is set
+  passwordRecovery: boolean;
+  endPasswordRecovery: () => void;
 }
 
 const AuthContext = createContext<AuthContextType>({
@@ -17,6 +25,9 @@ const AuthContext = createContext<AuthContextType>({
   userRole: null,
   loading: true,
   signOut: async () => {},
+  refreshRole: async () => {},
+  passwordRecovery: false,
+  endPasswordRecovery: () => {},
 });
 
 export const useAuth = () => useContext(AuthContext);
@@ -24,22 +35,40 @@ export const useAuth = () => useContext(AuthContext);
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [userRole, setUserRole] = useState<'customer' | 'maid' | null>(null);
+  const [userRole, setUserRole] = useState<AppRole | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  // The user whose role is loaded (or loading), so token refreshes don't refetch it
+  const roleUserId = useRef<string | null>(null);
 
   useEffect(() => {
+    // Stays loading until the role of a newly signed-in user is known, so role-guarded
+    // routes never see a user without their role
+    const loadRoleFor = (userId: string) => {
+      if (roleUserId.current === userId) return;
+      roleUserId.current = userId;
+      setLoading(true);
+      setTimeout(() => {
+        fetchUserRole(userId);
+      }, 0);
+    };
+
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
+        if (event === 'PASSWORD_RECOVERY') {
+          setPasswordRecovery(true);
+        }
+
         setSession(session);
         setUser(session?.user ?? null);
         
         if (session?.user) {
-          setTimeout(() => {
-            fetchUserRole(session.user.id);
-          }, 0);
+          loadRoleFor(session.user.id);
         } else {
+          roleUserId.current = null;
           setUserRole(null);
+          setPasswordRecovery(false);
           setLoading(false);
         }
       }
@@ -51,7 +80,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        fetchUserRole(session.user.id);
+        loadRoleFor(session.user.id);
       } else {
         setLoading(false);
       }
@@ -69,7 +98,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         .single();
 
       if (error) throw error;
-      setUserRole(data?.role as 'customer' | 'maid');
+      setUserRole(data?.role ?? null);
     } catch (error) {
       console.error('Error fetching user role:', error);
       setUserRole(null);
@@ -80,13 +109,30 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    roleUserId.current = null;
     setUser(null);
     setSession(null);
     setUserRole(null);
+    setPasswordRecovery(false);
   };
 
+  const refreshRole = async () => {
+    if (user) await fetchUserRole(user.id);
+  };
+
+  const endPasswordRecovery = () => setPasswordRecovery(false);
+
   return (
-    <AuthContext.Provider value={{ user, session, userRole, loading, signOut }}>
+    <AuthContext.Provider value={{
+        user,
+        session,
+        userRole,
+        loading,
+        signOut,
+        refreshRole,
+        passwordRecovery,
+        endPasswordRecovery,
+      }}>
       {children}
     </AuthContext.Provider>
   );
@@ -14,43 +14,126 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      job_reminders: {
+        Row: {
+          job_id: string
+          kind: string
+          sent_at: string
+        }
+        Insert: {
+          job_id: string
+          kind: string
+          sent_at?: string
+        }
+        Update: {
+          job_id?: string
+          kind?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_reminders_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jobs: {
         Row: {
           amount: number
+          cancellation_fee: number
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          closed_at: string | null
+          completion_flagged_at: string | null
           created_at: string
           customer_id: string
-          duration: string
+          duration_quantity: number
+          duration_unit: string
+          expiry_reason: string | null
           id: string
           job_date: string
           job_type: string
           location: string
           maid_id: string
+          occurrence_date: string | null
+          payment_status: string
+          series_id: string | null
+          start_time: string | null
           status: string
           updated_at: string
         }
         Insert: {
           amount: number
+          cancellation_fee?: number
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          closed_at?: string | null
+          completion_flagged_at?: string | null
           created_at?: string
           customer_id: string
-          duration: string
+          duration_quantity: number
+          duration_unit: string
+          expiry_reason?: string | null
           id?: string
           job_date: string
           job_type: string
           location: string
           maid_id: string
+          occurrence_date?: string | null
+          payment_status?: string
+          series_id?: string | null
+          start_time?: string | null
           status?: string
           updated_at?: string
         }
         Update: {
           amount?: number
+          cancellation_fee?: number
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          closed_at?: string | null
+          completion_flagged_at?: string | null
           created_at?: string
           customer_id?: string
-          duration?: string
+          duration_quantity?: number
+          duration_unit?: string
+          expiry_reason?: string | null
           id?: string
           job_date?: string
           job_type?: string
           location?: string
           maid_id?: string
+          occurrence_date?: string | null
+          payment_status?: string
+          series_id?: string | null
+          start_time?: string | null
           status?: string
           updated_at?: string
         }
@@ -62,6 +145,237 @@ export type Database = {
             referencedRelation: "maids"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "jobs_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_entries: {
+        Row: {
+          amount: number
+          created_at: string
+          entry_type: string
+          id: string
+          job_id: string
+          maid_id: string
+          payment_id: string
+          payout_id: string | null
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          entry_type: string
+          id?: string
+          job_id: string
+          maid_id: string
+          payment_id: string
+          payout_id?: string | null
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          entry_type?: string
+          id?: string
+          job_id?: string
+          maid_id?: string
+          payment_id?: string
+          payout_id?: string | null
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_maid_id_fkey"
+            columns: ["maid_id"]
+            isOneToOne: false
+            referencedRelation: "maids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maid_availability: {
+        Row: {
+          created_at: string
+          end_time: string
+          id: string
+          maid_id: string
+          start_time: string
+          updated_at: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string
+          end_time: string
+          id?: string
+          maid_id: string
+          start_time: string
+          updated_at?: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string
+          end_time?: string
+          id?: string
+          maid_id?: string
+          start_time?: string
+          updated_at?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maid_availability_maid_id_fkey"
+            columns: ["maid_id"]
+            isOneToOne: false
+            referencedRelation: "maids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maid_penalties: {
+        Row: {
+          created_at: string
+          hours_notice: number
+          id: string
+          job_id: string
+          maid_id: string
+          points: number
+          reason: string
+        }
+        Insert: {
+          created_at?: string
+          hours_notice: number
+          id?: string
+          job_id: string
+          maid_id: string
+          points: number
+          reason: string
+        }
+        Update: {
+          created_at?: string
+          hours_notice?: number
+          id?: string
+          job_id?: string
+          maid_id?: string
+          points?: number
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maid_penalties_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: true
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maid_penalties_maid_id_fkey"
+            columns: ["maid_id"]
+            isOneToOne: false
+            referencedRelation: "maids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maid_rate_changes: {
+        Row: {
+          changed_at: string
+          daily_rate: number
+          hourly_rate: number
+          id: string
+          maid_id: string
+          monthly_rate: number
+          previous_daily_rate: number
+          previous_hourly_rate: number
+          previous_monthly_rate: number
+        }
+        Insert: {
+          changed_at?: string
+          daily_rate: number
+          hourly_rate: number
+          id?: string
+          maid_id: string
+          monthly_rate: number
+          previous_daily_rate: number
+          previous_hourly_rate: number
+          previous_monthly_rate: number
+        }
+        Update: {
+          changed_at?: string
+          daily_rate?: number
+          hourly_rate?: number
+          id?: string
+          maid_id?: string
+          monthly_rate?: number
+          previous_daily_rate?: number
+          previous_hourly_rate?: number
+          previous_monthly_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maid_rate_changes_maid_id_fkey"
+            columns: ["maid_id"]
+            isOneToOne: false
+            referencedRelation: "maids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maid_time_off: {
+        Row: {
+          created_at: string
+          id: string
+          maid_id: string
+          off_date: string
+          reason: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          maid_id: string
+          off_date: string
+          reason?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          maid_id?: string
+          off_date?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maid_time_off_maid_id_fkey"
+            columns: ["maid_id"]
+            isOneToOne: false
+            referencedRelation: "maids"
+            referencedColumns: ["id"]
+          },
         ]
       }
       maids: {
@@ -75,6 +389,7 @@ export type Database = {
           location: string
           monthly_rate: number
           rating: number | null
+          reliability_score: number
           total_jobs: number | null
           updated_at: string
           user_id: string
@@ -89,6 +404,7 @@ export type Database = {
           location: string
           monthly_rate: number
           rating?: number | null
+          reliability_score?: number
           total_jobs?: number | null
           updated_at?: string
           user_id: string
@@ -103,6 +419,7 @@ export type Database = {
           location?: string
           monthly_rate?: number
           rating?: number | null
+          reliability_score?: number
           total_jobs?: number | null
           updated_at?: string
           user_id?: string
@@ -117,26 +434,318 @@ export type Database = {
           },
         ]
       }
+      messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          job_id: string
+          read_at: string | null
+          sender_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          job_id: string
+          read_at?: string | null
+          sender_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          job_id?: string
+          read_at?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_outbox: {
+        Row: {
+          attempts: number
+          channel: string
+          created_at: string
+          event: string
+          id: string
+          job_id: string | null
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          created_at?: string
+          event: string
+          id?: string
+          job_id?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          event?: string
+          id?: string
+          job_id?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          booking: boolean
+          email: boolean
+          message: boolean
+          review: boolean
+          sms: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          booking?: boolean
+          email?: boolean
+          message?: boolean
+          review?: boolean
+          sms?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          booking?: boolean
+          email?: boolean
+          message?: boolean
+          review?: boolean
+          sms?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          job_id: string | null
+          kind: string
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          job_id?: string | null
+          kind: string
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          job_id?: string | null
+          kind?: string
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          authorized_at: string | null
+          captured_at: string | null
+          created_at: string
+          currency: string
+          customer_id: string
+          failure_reason: string | null
+          id: string
+          job_id: string
+          provider: string
+          provider_order_id: string | null
+          provider_payment_id: string | null
+          refunded_amount: number
+          settled_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          authorized_at?: string | null
+          captured_at?: string | null
+          created_at?: string
+          currency?: string
+          customer_id: string
+          failure_reason?: string | null
+          id?: string
+          job_id: string
+          provider: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          refunded_amount?: number
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          authorized_at?: string | null
+          captured_at?: string | null
+          created_at?: string
+          currency?: string
+          customer_id?: string
+          failure_reason?: string | null
+          id?: string
+          job_id?: string
+          provider?: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          refunded_amount?: number
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payouts: {
+        Row: {
+          commission: number
+          created_at: string
+          gross: number
+          id: string
+          job_count: number
+          maid_id: string
+          net: number
+          paid_at: string | null
+          period_end: string
+          period_start: string
+          reference: string | null
+          status: string
+        }
+        Insert: {
+          commission: number
+          created_at?: string
+          gross: number
+          id?: string
+          job_count: number
+          maid_id: string
+          net: number
+          paid_at?: string | null
+          period_end: string
+          period_start: string
+          reference?: string | null
+          status?: string
+        }
+        Update: {
+          commission?: number
+          created_at?: string
+          gross?: number
+          id?: string
+          job_count?: number
+          maid_id?: string
+          net?: number
+          paid_at?: string | null
+          period_end?: string
+          period_start?: string
+          reference?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payouts_maid_id_fkey"
+            columns: ["maid_id"]
+            isOneToOne: false
+            referencedRelation: "maids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          avatar_url: string | null
           created_at: string
-          email: string
+          email: string | null
           full_name: string
           id: string
           phone: string | null
           updated_at: string
         }
         Insert: {
+          avatar_url?: string | null
           created_at?: string
-          email: string
+          email?: string | null
           full_name: string
           id: string
           phone?: string | null
           updated_at?: string
         }
         Update: {
+          avatar_url?: string | null
           created_at?: string
-          email?: string
+          email?: string | null
           full_name?: string
           id?: string
           phone?: string | null
@@ -144,6 +753,198 @@ export type Database = {
         }
         Relationships: []
       }
+      recurring_bookings: {
+        Row: {
+          amount_per_visit: number
+          created_at: string
+          customer_id: string
+          duration_quantity: number
+          ends_on: string | null
+          generated_until: string | null
+          id: string
+          interval_weeks: number
+          job_type: string
+          location: string
+          maid_id: string
+          start_time: string | null
+          starts_on: string
+          status: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          amount_per_visit: number
+          created_at?: string
+          customer_id: string
+          duration_quantity: number
+          ends_on?: string | null
+          generated_until?: string | null
+          id?: string
+          interval_weeks?: number
+          job_type: string
+          location: string
+          maid_id: string
+          start_time?: string | null
+          starts_on: string
+          status?: string
+          updated_at?: string
+          weekdays: number[]
+        }
+        Update: {
+          amount_per_visit?: number
+          created_at?: string
+          customer_id?: string
+          duration_quantity?: number
+          ends_on?: string | null
+          generated_until?: string | null
+          id?: string
+          interval_weeks?: number
+          job_type?: string
+          location?: string
+          maid_id?: string
+          start_time?: string | null
+          starts_on?: string
+          status?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_bookings_maid_id_fkey"
+            columns: ["maid_id"]
+            isOneToOne: false
+            referencedRelation: "maids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reschedule_proposals: {
+        Row: {
+          created_at: string
+          id: string
+          job_id: string
+          previous_date: string
+          previous_start_time: string | null
+          proposed_by: string
+          proposed_date: string
+          proposed_start_time: string | null
+          responded_at: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          job_id: string
+          previous_date: string
+          previous_start_time?: string | null
+          proposed_by: string
+          proposed_date: string
+          proposed_start_time?: string | null
+          responded_at?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          job_id?: string
+          previous_date?: string
+          previous_start_time?: string | null
+          proposed_by?: string
+          proposed_date?: string
+          proposed_start_time?: string | null
+          responded_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reschedule_proposals_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          customer_id: string
+          id: string
+          job_id: string
+          maid_id: string
+          maid_reply: string | null
+          rating: number
+          replied_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          customer_id: string
+          id?: string
+          job_id: string
+          maid_id: string
+          maid_reply?: string | null
+          rating: number
+          replied_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          customer_id?: string
+          id?: string
+          job_id?: string
+          maid_id?: string
+          maid_reply?: string | null
+          rating?: number
+          replied_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: true
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_maid_id_fkey"
+            columns: ["maid_id"]
+            isOneToOne: false
+            referencedRelation: "maids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      series_skipped_occurrences: {
+        Row: {
+          occurrence_date: string
+          series_id: string
+          skipped_at: string
+        }
+        Insert: {
+          occurrence_date: string
+          series_id: string
+          skipped_at?: string
+        }
+        Update: {
+          occurrence_date?: string
+          series_id?: string
+          skipped_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_skipped_occurrences_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -164,9 +965,166 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      job_customer_profiles: {
+        Row: {
+          avatar_url: string | null
+          customer_id: string | null
+          full_name: string | null
+          job_id: string | null
+        }
+        Relationships: []
+      }
+      maid_job_earnings: {
+        Row: {
+          commission: number | null
+          gross: number | null
+          job_date: string | null
+          job_id: string | null
+          job_status: string | null
+          job_type: string | null
+          maid_id: string | null
+          net: number | null
+          payout_id: string | null
+          settled_at: string | null
+        }
+        Relationships: []
+      }
+      public_maid_profiles: {
+        Row: {
+          avatar_url: string | null
+          full_name: string | null
+          maid_id: string | null
+        }
+        Relationships: []
+      }
+      series_customer_profiles: {
+        Row: {
+          avatar_url: string | null
+          customer_id: string | null
+          full_name: string | null
+          series_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_job: {
+        Args: { _job_id: string }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"]
+      }
+      accept_series: {
+        Args: { _series_id: string }
+        Returns: Database["public"]["Tables"]["recurring_bookings"]["Row"]
+      }
+      app_setting: {
+        Args: { _key: string }
+        Returns: string
+      }
+      attach_payment_order: {
+        Args: { _order_id: string; _payment_id: string }
+        Returns: Database["public"]["Tables"]["payments"]["Row"]
+      }
+      begin_payment: {
+        Args: { _job_id: string; _provider: string }
+        Returns: Database["public"]["Tables"]["payments"]["Row"]
+      }
+      cancel_job: {
+        Args: { _job_id: string; _reason?: string }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"]
+      }
+      cancellation_policy: {
+        Args: never
+        Returns: {
+          fee_percent: number
+          free_hours: number
+        }[]
+      }
+      cancellation_terms: {
+        Args: { _job_id: string }
+        Returns: {
+          fee: number
+          penalty_points: number
+        }[]
+      }
+      choose_role: {
+        Args: { _role: Database["public"]["Enums"]["app_role"] }
+        Returns: undefined
+      }
+      claim_outbox_messages: {
+        Args: { _limit?: number }
+        Returns: Database["public"]["Tables"]["notification_outbox"]["Row"][]
+      }
+      complete_job: {
+        Args: { _job_id: string }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"]
+      }
+      complete_maid_onboarding: {
+        Args: {
+          _daily_rate: number
+          _description?: string
+          _hourly_rate: number
+          _location: string
+          _monthly_rate: number
+        }
+        Returns: string
+      }
+      create_booking: {
+        Args: {
+          _job_date: string
+          _job_type: string
+          _location: string
+          _maid_id: string
+          _quantity: number
+          _start_time?: string
+        }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"]
+      }
+      create_recurring_booking: {
+        Args: {
+          _ends_on?: string
+          _interval_weeks: number
+          _job_type: string
+          _location: string
+          _maid_id: string
+          _quantity: number
+          _start_time?: string
+          _starts_on: string
+          _weekdays: number[]
+        }
+        Returns: Database["public"]["Tables"]["recurring_bookings"]["Row"]
+      }
+      create_weekly_payouts: {
+        Args: never
+        Returns: number
+      }
+      decline_series: {
+        Args: { _series_id: string }
+        Returns: Database["public"]["Tables"]["recurring_bookings"]["Row"]
+      }
+      end_series: {
+        Args: { _ends_on?: string; _series_id: string }
+        Returns: Database["public"]["Tables"]["recurring_bookings"]["Row"]
+      }
+      enqueue_booking_reminders: {
+        Args: never
+        Returns: number
+      }
+      expire_stale_jobs: {
+        Args: never
+        Returns: number
+      }
+      flag_incomplete_jobs: {
+        Args: never
+        Returns: number
+      }
+      generate_all_series_jobs: {
+        Args: never
+        Returns: number
+      }
+      generate_series_jobs: {
+        Args: { _series_id: string }
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -174,9 +1132,135 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_job_chat_locked: {
+        Args: { _job_id: string }
+        Returns: boolean
+      }
+      is_job_participant: {
+        Args: { _job_id: string; _user_id: string }
+        Returns: boolean
+      }
+      maid_unavailable_dates: {
+        Args: { _from: string; _maid_id: string; _to: string }
+        Returns: string[]
+      }
+      mark_all_notifications_read: {
+        Args: never
+        Returns: number
+      }
+      mark_messages_read: {
+        Args: { _job_id: string }
+        Returns: number
+      }
+      mark_notification_read: {
+        Args: { _notification_id: string }
+        Returns: undefined
+      }
+      mark_payout_paid: {
+        Args: { _payout_id: string; _reference: string }
+        Returns: Database["public"]["Tables"]["payouts"]["Row"]
+      }
+      notify_user: {
+        Args: {
+          _body: string
+          _job_id?: string
+          _kind: string
+          _title: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      pause_series: {
+        Args: { _series_id: string }
+        Returns: Database["public"]["Tables"]["recurring_bookings"]["Row"]
+      }
+      payments_due_for_early_capture: {
+        Args: { _limit?: number }
+        Returns: {
+          amount: number
+          payment_id: string
+          provider: string
+          provider_order_id: string
+          provider_payment_id: string
+        }[]
+      }
+      payments_due_for_settlement: {
+        Args: { _limit?: number }
+        Returns: {
+          amount: number
+          cancellation_fee: number
+          job_status: string
+          payment_id: string
+          provider: string
+          provider_order_id: string
+          provider_payment_id: string
+          refunded_amount: number
+          status: string
+        }[]
+      }
+      propose_reschedule: {
+        Args: { _job_date: string; _job_id: string; _start_time?: string }
+        Returns: Database["public"]["Tables"]["reschedule_proposals"]["Row"]
+      }
+      quote_booking: {
+        Args: { _job_type: string; _maid_id: string; _quantity: number }
+        Returns: number
+      }
+      reconcile_maid_job_counters: {
+        Args: { _maid_id?: string }
+        Returns: number
+      }
+      record_payment_event: {
+        Args: {
+          _amount?: number
+          _event: string
+          _order_id: string
+          _provider: string
+          _provider_payment_id?: string
+          _reason?: string
+          _reference?: string
+        }
+        Returns: Database["public"]["Tables"]["payments"]["Row"]
+      }
+      reject_job: {
+        Args: { _job_id: string; _reason?: string }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"]
+      }
+      reply_to_review: {
+        Args: { _reply: string; _review_id: string }
+        Returns: Database["public"]["Tables"]["reviews"]["Row"]
+      }
+      reschedule_occurrence: {
+        Args: { _job_date: string; _job_id: string; _start_time?: string }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"]
+      }
+      respond_to_reschedule: {
+        Args: { _accept: boolean; _proposal_id: string }
+        Returns: Database["public"]["Tables"]["reschedule_proposals"]["Row"]
+      }
+      resume_series: {
+        Args: { _series_id: string }
+        Returns: Database["public"]["Tables"]["recurring_bookings"]["Row"]
+      }
+      run_job_lifecycle: {
+        Args: never
+        Returns: undefined
+      }
+      split_payment: {
+        Args: { _payment_id: string }
+        Returns: Database["public"]["Tables"]["payments"]["Row"]
+      }
+      submit_review: {
+        Args: { _comment?: string; _job_id: string; _rating: number }
+        Returns: Database["public"]["Tables"]["reviews"]["Row"]
+      }
+      withdraw_reschedule: {
+        Args: { _proposal_id: string }
+        Returns: Database["public"]["Tables"]["reschedule_proposals"]["Row"]
+      }
     }
     Enums: {
-      app_role: "customer" | "maid"
+      app_role: "customer" | "maid" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -304,7 +1388,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["customer", "maid"],
+      app_role: ["customer", "maid", "admin"],
     },
   },
 } as const
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+export const emailSchema = z.string().email('Invalid email address').max(255);
+
+// Supabase rejects passwords over 72 characters
+export const passwordSchema = z.string().min(8, 'Password must be at least 8 characters').max(72);
+
+export const newPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+// Indian mobile number without the country code, as stored on profiles
+export const phoneSchema = z.string().regex(/^\d{10}$/, 'Phone number must be exactly 10 digits');
+
+// Name and contact number every account has, set at sign-up and on the profile page
+export const profileDetailsSchema = z.object({
+  fullName: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  phone: phoneSchema.optional().or(z.literal('')),
+});
+
+export type ProfileDetails = z.infer<typeof profileDetailsSchema>;
+
+// Rates and service area a maid sets at sign-up, or later if that step never completed
+export const maidDetailsSchema = z.object({
+  hourlyRate: z.coerce.number().positive('Hourly rate must be positive').max(10000, 'Hourly rate must be less than ₹10,000'),
+  dailyRate: z.coerce.number().positive('Daily rate must be positive').max(50000, 'Daily rate must be less than ₹50,000'),
+  monthlyRate: z.coerce.number().positive('Monthly rate must be positive').max(500000, 'Monthly rate must be less than ₹5,00,000'),
+  location: z.string().trim().min(3, 'Location must be at least 3 characters').max(200),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+});
+
+export type MaidDetails = z.infer<typeof maidDetailsSchema>;
@@ -0,0 +1,96 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface WorkingDay {
+  weekday: number;
+  enabled: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+export const defaultWeek = (): WorkingDay[] =>
+  WEEKDAYS.map((_, weekday) => ({ weekday, enabled: false, startTime: '09:00', endTime: '18:00' }));
+
+export const fetchAvailability = async (maidId: string) => {
+  const [weekly, timeOff] = await Promise.all([
+    supabase.from('maid_availability').select('*').eq('maid_id', maidId),
+    supabase.from('maid_time_off').select('*').eq('maid_id', maidId).order('off_date'),
+  ]);
+
+  if (weekly.error) throw weekly.error;
+  if (timeOff.error) throw timeOff.error;
+
+  const week = defaultWeek();
+  for (const row of weekly.data) {
+    week[row.weekday] = {
+      weekday: row.weekday,
+      enabled: true,
+      startTime: row.start_time.slice(0, 5),
+      endTime: row.end_time.slice(0, 5),
+    };
+  }
+
+  return { week, timeOff: timeOff.data.map((row) => row.off_date) };
+};
+
+export const saveWeeklyHours = async (maidId: string, week: WorkingDay[]) => {
+  const disabled = week.filter((day) => !day.enabled).map((day) => day.weekday);
+  const enabled = week
+    .filter((day) => day.enabled)
+    .map((day) => ({
+      maid_id: maidId,
+      weekday: day.weekday,
+      start_time: day.startTime,
+      end_time: day.endTime,
+    }));
+
+  if (disabled.length > 0) {
+    const { error } = await supabase
+      .from('maid_availability')
+      .delete()
+      .eq('maid_id', maidId)
+      .in('weekday', disabled);
+    if (error) throw error;
+  }
+
+  if (enabled.length > 0) {
+    const { error } = await supabase
+      .from('maid_availability')
+      .upsert(enabled, { onConflict: 'maid_id,weekday' });
+    if (error) throw error;
+  }
+};
+
+// Replace the maid's time off with exactly the given dates (yyyy-MM-dd)
+export const saveTimeOff = async (maidId: string, previous: string[], next: string[]) => {
+  const removed = previous.filter((date) => !next.includes(date));
+  const added = next.filter((date) => !previous.includes(date));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('maid_time_off')
+      .delete()
+      .eq('maid_id', maidId)
+      .in('off_date', removed);
+    if (error) throw error;
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('maid_time_off')
+      .insert(added.map((off_date) => ({ maid_id: maidId, off_date })));
+    if (error) throw error;
+  }
+};
+
+export const fetchUnavailableDates = async (maidId: string, from: string, to: string) => {
+  const { data, error } = await supabase.rpc('maid_unavailable_dates', {
+    _maid_id: maidId,
+    _from: from,
+    _to: to,
+  });
+
+  if (error) throw error;
+  return new Set(data ?? []);
+};
@@ -0,0 +1,66 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type JobType = 'hourly' | 'daily' | 'monthly';
+
+export interface BookingRequest {
+  maidId: string;
+  jobType: JobType;
+  date: string;
+  quantity: number;
+  location: string;
+  startTime?: string;
+}
+
+export interface JobDuration {
+  job_type: string;
+  duration_quantity: number;
+  start_time: string | null;
+}
+
+export const JOB_TYPE_UNITS: Record<JobType, { singular: string; plural: string; max: number }> = {
+  hourly: { singular: 'hour', plural: 'hours', max: 12 },
+  daily: { singular: 'day', plural: 'days', max: 31 },
+  monthly: { singular: 'month', plural: 'months', max: 12 },
+};
+
+export const formatQuantity = (quantity: number, jobType: JobType) => {
+  const unit = JOB_TYPE_UNITS[jobType];
+  return `${quantity} ${quantity === 1 ? unit.singular : unit.plural}`;
+};
+
+// "3 hours from 09:00", "2 days", "1 month"
+export const formatJobDuration = (job: JobDuration) => {
+  const duration = formatQuantity(job.duration_quantity, job.job_type as JobType);
+  return job.start_time ? `${duration} from ${job.start_time.slice(0, 5)}` : duration;
+};
+
+export const rateFor = (
+  maid: { hourly_rate: number; daily_rate: number; monthly_rate: number },
+  jobType: JobType
+) => (jobType === 'hourly' ? maid.hourly_rate : jobType === 'daily' ? maid.daily_rate : maid.monthly_rate);
+
+// Server-computed price for a prospective booking
+export const quoteBooking = async (maidId: string, jobType: JobType, quantity: number) => {
+  const { data, error } = await supabase.rpc('quote_booking', {
+    _maid_id: maidId,
+    _job_type: jobType,
+    _quantity: quantity,
+  });
+
+  if (error) throw error;
+  return Number(data);
+};
+
+export const createBooking = async (request: BookingRequest) => {
+  const { data, error } = await supabase.rpc('create_booking', {
+    _maid_id: request.maidId,
+    _job_type: request.jobType,
+    _job_date: request.date,
+    _quantity: request.quantity,
+    _location: request.location,
+    _start_time: request.jobType === 'hourly' ? request.startTime : undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
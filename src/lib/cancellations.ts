@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import { JobTransitionError } from '@/lib/jobs';
+
+export type CancelledBy = 'customer' | 'maid' | 'system';
+
+export interface CancellationPolicy {
+  freeHours: number;
+  feePercent: number;
+}
+
+export interface CancellationTerms {
+  fee: number;
+  penaltyPoints: number;
+}
+
+// Mirrors the defaults seeded by the cancellation policy migration
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = { freeHours: 24, feePercent: 50 };
+
+export const describeCancellationPolicy = ({ freeHours, feePercent }: CancellationPolicy) =>
+  `Free cancellation until ${freeHours} hours before the start. After that, ${feePercent}% of the booking amount is charged. Requests the maid hasn't accepted can always be cancelled for free.`;
+
+export const fetchCancellationPolicy = async (): Promise<CancellationPolicy> => {
+  const { data, error } = await supabase.rpc('cancellation_policy');
+
+  if (error) throw error;
+  const [policy] = data;
+  return policy ? { freeHours: policy.free_hours, feePercent: Number(policy.fee_percent) } : DEFAULT_CANCELLATION_POLICY;
+};
+
+// What cancelling now would cost the caller: a fee for customers, reliability points for maids
+export const fetchCancellationTerms = async (jobId: string): Promise<CancellationTerms> => {
+  const { data, error } = await supabase.rpc('cancellation_terms', { _job_id: jobId });
+
+  if (error) throw JobTransitionError.fromPostgrest(error);
+  const [terms] = data;
+  return { fee: Number(terms?.fee ?? 0), penaltyPoints: terms?.penalty_points ?? 0 };
+};
+
+// cancel_job for customers, reject_job for maids, with an optional reason for the other party
+export const cancelWithReason = async (transition: 'cancel_job' | 'reject_job', jobId: string, reason: string) => {
+  const { data, error } = await supabase.rpc(transition, { _job_id: jobId, _reason: reason.trim() || undefined });
+
+  if (error) throw JobTransitionError.fromPostgrest(error);
+  return data;
+};
+
+export const cancellationSummary = (job: {
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+}, viewer: 'customer' | 'maid') => {
+  const actor =
+    job.cancelled_by === viewer
+      ? 'you'
+      : job.cancelled_by === 'customer'
+      ? 'the customer'
+      : job.cancelled_by === 'maid'
+      ? 'the maid'
+      : null;
+  if (!actor) return null;
+  return job.cancellation_reason ? `Cancelled by ${actor}: "${job.cancellation_reason}"` : `Cancelled by ${actor}`;
+};
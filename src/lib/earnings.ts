@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Payout = Tables<'payouts'>;
+
+export type PayoutStatus = 'scheduled' | 'paid';
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  scheduled: 'Scheduled',
+  paid: 'Paid',
+};
+
+// One settled job from the maid_job_earnings view
+export interface JobEarning {
+  job_id: string;
+  job_date: string;
+  job_type: string;
+  job_status: string;
+  gross: number;
+  commission: number;
+  net: number;
+  payout_id: string | null;
+  settled_at: string;
+}
+
+export interface EarningsTotals {
+  gross: number;
+  commission: number;
+  net: number;
+}
+
+export const sumEarnings = (rows: EarningsTotals[]): EarningsTotals =>
+  rows.reduce(
+    (totals, row) => ({
+      gross: totals.gross + Number(row.gross),
+      commission: totals.commission + Number(row.commission),
+      net: totals.net + Number(row.net),
+    }),
+    { gross: 0, commission: 0, net: 0 }
+  );
+
+export const fetchJobEarnings = async (maidId: string): Promise<JobEarning[]> => {
+  const { data, error } = await supabase
+    .from('maid_job_earnings')
+    .select('*')
+    .eq('maid_id', maidId)
+    .order('settled_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map((row) => ({
+    job_id: row.job_id!,
+    job_date: row.job_date!,
+    job_type: row.job_type!,
+    job_status: row.job_status!,
+    gross: Number(row.gross),
+    commission: Number(row.commission),
+    net: Number(row.net),
+    payout_id: row.payout_id,
+    settled_at: row.settled_at!,
+  }));
+};
+
+// Weekly payout batches; RLS limits maids to their own, admins see everyone's
+export const fetchPayoutBatches = async (filter: { maidId?: string; status?: PayoutStatus } = {}) => {
+  let query = supabase.from('payouts').select('*').order('period_start', { ascending: false });
+
+  if (filter.maidId) query = query.eq('maid_id', filter.maidId);
+  if (filter.status) query = query.eq('status', filter.status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+export const markPayoutPaid = async (payoutId: string, reference: string) => {
+  const { data, error } = await supabase.rpc('mark_payout_paid', { _payout_id: payoutId, _reference: reference });
+
+  if (error) throw error;
+  return data;
+};
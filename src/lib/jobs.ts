@@ -0,0 +1,59 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export type JobStatus = 'pending' | 'accepted' | 'completed' | 'cancelled';
+
+export type JobTransition = 'accept_job' | 'reject_job' | 'complete_job' | 'cancel_job';
+
+export type JobTransitionErrorReason = 'forbidden' | 'not_found' | 'illegal_transition' | 'unknown';
+
+// Error codes raised by the job transition functions (see the job status migration)
+const REASON_BY_CODE: Record<string, JobTransitionErrorReason> = {
+  PT403: 'forbidden',
+  PT404: 'not_found',
+  PT409: 'illegal_transition',
+};
+
+export class JobTransitionError extends Error {
+  readonly reason: JobTransitionErrorReason;
+
+  constructor(message: string, reason: JobTransitionErrorReason) {
+    super(message);
+    this.name = 'JobTransitionError';
+    this.reason = reason;
+  }
+
+  static fromPostgrest(error: PostgrestError) {
+    return new JobTransitionError(error.message, REASON_BY_CODE[error.code] ?? 'unknown');
+  }
+}
+
+export const transitionJob = async (transition: JobTransition, jobId: string) => {
+  const { data, error } = await supabase.rpc(transition, { _job_id: jobId });
+
+  if (error) throw JobTransitionError.fromPostgrest(error);
+  return data;
+};
+
+export const transitionErrorTitle = (error: unknown) =>
+  error instanceof JobTransitionError && error.reason === 'illegal_transition'
+    ? 'Action no longer available'
+    : error instanceof JobTransitionError && error.reason === 'forbidden'
+    ? 'Not allowed'
+    : 'Error';
+
+// Short day label for notifications, e.g. "12 Nov"
+export const formatJobDay = (jobDate: string) =>
+  new Date(jobDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+// Replaces a job in the list, or prepends it when it is new
+export const upsertJob = <T extends { id: string }>(jobs: T[], job: T) =>
+  jobs.some((j) => j.id === job.id) ? jobs.map((j) => (j.id === job.id ? job : j)) : [job, ...jobs];
+
+export type ExpiryReason = 'no_response' | 'date_passed';
+
+// Why the scheduler cancelled a pending job (see expire_stale_jobs)
+export const EXPIRY_REASON_LABELS: Record<ExpiryReason, string> = {
+  no_response: "Expired — the maid didn't respond in time",
+  date_passed: 'Expired — the booking date passed before the maid responded',
+};
@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { JobType } from '@/lib/bookings';
+import { fetchMaidProfiles, profileOrUnknown, PublicProfile } from '@/lib/profiles';
+
+export const MAIDS_PAGE_SIZE = 12;
+
+export type MaidSort = 'rating' | 'price_asc' | 'price_desc' | 'jobs';
+
+export interface MaidFilters {
+  location: string;
+  jobType: JobType;
+  minRate: string;
+  maxRate: string;
+  minRating: string;
+  sort: MaidSort;
+  page: number;
+}
+
+export const DEFAULT_MAID_FILTERS: MaidFilters = {
+  location: '',
+  jobType: 'hourly',
+  minRate: '',
+  maxRate: '',
+  minRating: '',
+  sort: 'rating',
+  page: 1,
+};
+
+const JOB_TYPES: JobType[] = ['hourly', 'daily', 'monthly'];
+const SORTS: MaidSort[] = ['rating', 'price_asc', 'price_desc', 'jobs'];
+
+// Filters live in the URL query string so searches can be shared
+export const parseMaidFilters = (params: URLSearchParams): MaidFilters => {
+  const jobType = params.get('type') as JobType;
+  const sort = params.get('sort') as MaidSort;
+  const page = parseInt(params.get('page') ?? '', 10);
+
+  return {
+    location: params.get('q') ?? '',
+    jobType: JOB_TYPES.includes(jobType) ? jobType : DEFAULT_MAID_FILTERS.jobType,
+    minRate: params.get('min') ?? '',
+    maxRate: params.get('max') ?? '',
+    minRating: params.get('rating') ?? '',
+    sort: SORTS.includes(sort) ? sort : DEFAULT_MAID_FILTERS.sort,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+};
+
+export const toSearchParams = (filters: MaidFilters) => {
+  const params = new URLSearchParams();
+  if (filters.location.trim()) params.set('q', filters.location.trim());
+  if (filters.jobType !== DEFAULT_MAID_FILTERS.jobType) params.set('type', filters.jobType);
+  if (filters.minRate) params.set('min', filters.minRate);
+  if (filters.maxRate) params.set('max', filters.maxRate);
+  if (filters.minRating) params.set('rating', filters.minRating);
+  if (filters.sort !== DEFAULT_MAID_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.page > 1) params.set('page', String(filters.page));
+  return params;
+};
+
+// A search result: the maid row with the public profile customers see
+export type MaidListing = Tables<'maids'> & { profile: PublicProfile };
+
+export const searchMaids = async (filters: MaidFilters): Promise<{ maids: MaidListing[]; total: number }> => {
+  const rateColumn = `${filters.jobType}_rate` as const;
+  const from = (filters.page - 1) * MAIDS_PAGE_SIZE;
+
+  let query = supabase.from('maids').select('*', { count: 'exact' });
+
+  if (filters.location.trim()) {
+    // Escape LIKE wildcards so the search matches them literally
+    const term = filters.location.trim().replace(/[\\%_]/g, (c) => `\\${c}`);
+    query = query.ilike('location', `%${term}%`);
+  }
+  if (filters.minRate) query = query.gte(rateColumn, Number(filters.minRate));
+  if (filters.maxRate) query = query.lte(rateColumn, Number(filters.maxRate));
+  if (filters.minRating) query = query.gte('rating', Number(filters.minRating));
+
+  if (filters.sort === 'price_asc' || filters.sort === 'price_desc') {
+    query = query.order(rateColumn, { ascending: filters.sort === 'price_asc' });
+  } else if (filters.sort === 'jobs') {
+    query = query.order('completed_jobs', { ascending: false, nullsFirst: false });
+  } else {
+    query = query.order('rating', { ascending: false, nullsFirst: false });
+  }
+
+  const { data, error, count } = await query
+    .order('id')
+    .range(from, from + MAIDS_PAGE_SIZE - 1);
+
+  if (error) throw error;
+
+  const profiles = await fetchMaidProfiles(data.map((maid) => maid.id));
+  return {
+    maids: data.map((maid) => ({ ...maid, profile: profileOrUnknown(profiles, maid.id) })),
+    total: count ?? 0,
+  };
+};
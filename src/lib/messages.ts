@@ -0,0 +1,54 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Message = Tables<'messages'>;
+
+const CHAT_LOCK_DAYS = 30;
+
+// Mirrors is_job_chat_locked on the server so the UI can hide the composer
+export const isChatLocked = (job: { closed_at: string | null }) =>
+  !!job.closed_at && Date.now() - new Date(job.closed_at).getTime() > CHAT_LOCK_DAYS * 24 * 60 * 60 * 1000;
+
+export const fetchMessages = async (jobId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+export const sendMessage = async (jobId: string, senderId: string, body: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({ job_id: jobId, sender_id: senderId, body: body.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const markMessagesRead = async (jobId: string) => {
+  const { error } = await supabase.rpc('mark_messages_read', { _job_id: jobId });
+  if (error) throw error;
+};
+
+// Unread messages from the other party, keyed by job id
+export const fetchUnreadCounts = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('job_id')
+    .is('read_at', null)
+    .neq('sender_id', userId);
+
+  if (error) throw error;
+
+  const counts: Record<string, number> = {};
+  for (const { job_id } of data) {
+    counts[job_id] = (counts[job_id] ?? 0) + 1;
+  }
+  return counts;
+};
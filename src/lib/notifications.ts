@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type AppNotification = Tables<'notifications'>;
+
+export type NotificationKind = 'booking' | 'review' | 'message';
+
+export type DeliveryChannel = 'email' | 'sms';
+
+export type NotificationPreferences = Record<NotificationKind | DeliveryChannel, boolean>;
+
+export const NOTIFICATION_KINDS: { kind: NotificationKind; label: string; description: string }[] = [
+  { kind: 'booking', label: 'Bookings', description: 'New requests, acceptances, cancellations and completions' },
+  { kind: 'review', label: 'Reviews', description: 'When a customer reviews your work' },
+  { kind: 'message', label: 'Messages', description: 'New chat messages about a job' },
+];
+
+// Booking updates sent outside the app, to the email and phone on the user's profile
+export const DELIVERY_CHANNELS: { kind: DeliveryChannel; label: string; description: string }[] = [
+  { kind: 'email', label: 'Email', description: 'Booking confirmations, updates and day-before reminders' },
+  { kind: 'sms', label: 'SMS', description: 'Booking updates and reminders by text message' },
+];
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  booking: true,
+  review: true,
+  message: true,
+  email: true,
+  sms: true,
+};
+
+const NOTIFICATIONS_LIMIT = 30;
+
+export const fetchNotifications = async () => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATIONS_LIMIT);
+
+  if (error) throw error;
+  return data;
+};
+
+export const markNotificationRead = async (notificationId: string) => {
+  const { error } = await supabase.rpc('mark_notification_read', { _notification_id: notificationId });
+  if (error) throw error;
+};
+
+export const markAllNotificationsRead = async () => {
+  const { error } = await supabase.rpc('mark_all_notifications_read');
+  if (error) throw error;
+};
+
+// Users without a saved row receive every kind of notification
+export const fetchNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('booking, review, message, email, sms')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ?? DEFAULT_PREFERENCES;
+};
+
+export const saveNotificationPreferences = async (userId: string, preferences: NotificationPreferences) => {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...preferences }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+};
@@ -0,0 +1,41 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MaidDetails } from '@/lib/authSchemas';
+
+export type SignUpRole = 'customer' | 'maid';
+
+// Sign-up metadata read by the handle_new_user trigger, which creates the profile, role and
+// maid row in the same transaction as the account
+export const signUpMetadata = (role: SignUpRole, fullName: string, phone: string | null, maid?: MaidDetails) => ({
+  role,
+  full_name: fullName,
+  phone,
+  ...(maid
+    ? {
+        hourly_rate: maid.hourlyRate,
+        daily_rate: maid.dailyRate,
+        monthly_rate: maid.monthlyRate,
+        location: maid.location,
+        description: maid.description || null,
+      }
+    : {}),
+});
+
+// For maid accounts that have a role but no maid row (created before sign-up was transactional)
+export const completeMaidOnboarding = async (details: MaidDetails) => {
+  const { data, error } = await supabase.rpc('complete_maid_onboarding', {
+    _hourly_rate: details.hourlyRate,
+    _daily_rate: details.dailyRate,
+    _monthly_rate: details.monthlyRate,
+    _location: details.location,
+    _description: details.description || undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// For accounts whose sign-up never saved a role; the server refuses if one exists
+export const chooseRole = async (role: SignUpRole) => {
+  const { error } = await supabase.rpc('choose_role', { _role: role });
+  if (error) throw error;
+};
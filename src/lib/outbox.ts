@@ -0,0 +1,25 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type OutboxMessage = Tables<'notification_outbox'>;
+
+export type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'sending', 'sent', 'failed'];
+
+const OUTBOX_LIMIT = 100;
+
+// Latest outbound email/SMS deliveries; RLS restricts this to admins
+export const fetchOutboxMessages = async (status?: DeliveryStatus) => {
+  let query = supabase
+    .from('notification_outbox')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(OUTBOX_LIMIT);
+
+  if (status) query = query.eq('status', status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
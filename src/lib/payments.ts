@@ -0,0 +1,65 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export type PaymentStatus = 'unpaid' | 'authorized' | 'captured' | 'refunded' | 'voided' | 'waived';
+
+// Jobs booked before online payments are 'waived' and show no label
+export const PAYMENT_STATUS_LABELS: Record<Exclude<PaymentStatus, 'waived'>, string> = {
+  unpaid: 'Awaiting payment',
+  authorized: 'Paid · held until the job is done',
+  captured: 'Paid',
+  refunded: 'Refunded',
+  voided: 'Payment released',
+};
+
+// The maid can accept once the money is held
+export const isPaymentSecured = (status: string) =>
+  status === 'authorized' || status === 'captured' || status === 'waived';
+
+export interface CheckoutSession {
+  provider: 'fake' | 'razorpay';
+  orderId: string;
+  amount: number;
+  currency: string;
+  // Options for the gateway's checkout widget
+  checkout: Record<string, unknown>;
+}
+
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+// The payments Edge Function answers errors with { error } and an HTTP status
+const invokePayments = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('payments', { body });
+
+  if (error) {
+    const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new PaymentError(details?.error ?? error.message);
+  }
+  return data as T;
+};
+
+export const startCheckout = (jobId: string) =>
+  invokePayments<CheckoutSession>({ action: 'create_order', jobId });
+
+export const confirmCheckout = (orderId: string, paymentId: string, signature: string) =>
+  invokePayments<{ status: string }>({ action: 'confirm', orderId, paymentId, signature });
+
+export const reportCheckoutFailure = (orderId: string, reason?: string) =>
+  invokePayments<{ status: string }>({ action: 'fail', orderId, reason });
+
+// What the maid has been paid out through the app, after the platform fee
+export const fetchMaidPayouts = async (maidId: string) => {
+  const { data, error } = await supabase
+    .from('ledger_entries')
+    .select('amount')
+    .eq('maid_id', maidId)
+    .eq('entry_type', 'maid_payout');
+
+  if (error) throw error;
+  return data.reduce((sum, entry) => sum + Number(entry.amount), 0);
+};
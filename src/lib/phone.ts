@@ -0,0 +1,8 @@
+// Profiles keep 10-digit Indian mobile numbers; Supabase Auth wants them in E.164
+export const toE164 = (phone: string) => `+91${phone}`;
+
+export const formatPhone = (phone: string) => `+91 ${phone.slice(0, 5)} ${phone.slice(5)}`;
+
+// Supabase Auth's default OTP length and the minimum gap it allows between SMS to a number
+export const OTP_LENGTH = 6;
+export const OTP_RESEND_SECONDS = 60;
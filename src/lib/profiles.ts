@@ -0,0 +1,134 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { MaidDetails, ProfileDetails } from '@/lib/authSchemas';
+
+export type MaidRateChange = Tables<'maid_rate_changes'>;
+
+export interface PublicProfile {
+  full_name: string;
+  avatar_url: string | null;
+}
+
+const UNKNOWN_PROFILE: PublicProfile = { full_name: 'Unknown', avatar_url: null };
+
+export const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+
+// Display names for maids, keyed by maid id
+export const fetchMaidProfiles = async (maidIds: string[]) => {
+  const profiles = new Map<string, PublicProfile>();
+  if (maidIds.length === 0) return profiles;
+
+  const { data, error } = await supabase
+    .from('public_maid_profiles')
+    .select('maid_id, full_name, avatar_url')
+    .in('maid_id', maidIds);
+
+  if (error) throw error;
+  for (const row of data) {
+    profiles.set(row.maid_id, { full_name: row.full_name ?? '', avatar_url: row.avatar_url });
+  }
+  return profiles;
+};
+
+// Display names for the customers on the calling maid's jobs, keyed by job id
+export const fetchJobCustomerProfiles = async (jobIds: string[]) => {
+  const profiles = new Map<string, PublicProfile>();
+  if (jobIds.length === 0) return profiles;
+
+  const { data, error } = await supabase
+    .from('job_customer_profiles')
+    .select('job_id, full_name, avatar_url')
+    .in('job_id', jobIds);
+
+  if (error) throw error;
+  for (const row of data) {
+    profiles.set(row.job_id, { full_name: row.full_name ?? '', avatar_url: row.avatar_url });
+  }
+  return profiles;
+};
+
+// Display names for the customers on the calling maid's recurring bookings, keyed by series id
+export const fetchSeriesCustomerProfiles = async (seriesIds: string[]) => {
+  const profiles = new Map<string, PublicProfile>();
+  if (seriesIds.length === 0) return profiles;
+
+  const { data, error } = await supabase
+    .from('series_customer_profiles')
+    .select('series_id, full_name, avatar_url')
+    .in('series_id', seriesIds);
+
+  if (error) throw error;
+  for (const row of data) {
+    profiles.set(row.series_id, { full_name: row.full_name ?? '', avatar_url: row.avatar_url });
+  }
+  return profiles;
+};
+
+export const profileOrUnknown = (profiles: Map<string, PublicProfile>, id: string) =>
+  profiles.get(id) ?? UNKNOWN_PROFILE;
+
+// The signed-in user's editable details, in the shape of profileDetailsSchema
+export const fetchProfileDetails = async (userId: string): Promise<ProfileDetails> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('full_name, phone')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return { fullName: data.full_name, phone: data.phone ?? '' };
+};
+
+export const updateProfileDetails = async (userId: string, details: ProfileDetails) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ full_name: details.fullName, phone: details.phone || null })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+// The calling maid's row, or null if onboarding never created it
+export const fetchOwnMaid = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('maids')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Rate changes only price new bookings; existing jobs keep the amount they were booked at
+export const updateMaidDetails = async (maidId: string, details: MaidDetails) => {
+  const { error } = await supabase
+    .from('maids')
+    .update({
+      hourly_rate: details.hourlyRate,
+      daily_rate: details.dailyRate,
+      monthly_rate: details.monthlyRate,
+      location: details.location,
+      description: details.description || null,
+    })
+    .eq('id', maidId);
+
+  if (error) throw error;
+};
+
+export const fetchRateChanges = async (maidId: string) => {
+  const { data, error } = await supabase
+    .from('maid_rate_changes')
+    .select('*')
+    .eq('maid_id', maidId)
+    .order('changed_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
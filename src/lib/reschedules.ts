@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatJobDay, JobTransitionError } from '@/lib/jobs';
+
+export type RescheduleProposal = Tables<'reschedule_proposals'>;
+
+export type ProposalStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn' | 'superseded' | 'closed';
+
+export const PROPOSAL_STATUS_LABELS: Record<ProposalStatus, string> = {
+  pending: 'Waiting for a reply',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn',
+  superseded: 'Replaced by a newer proposal',
+  closed: 'Booking closed',
+};
+
+// "12 Nov, 09:00" for hourly slots, "12 Nov" otherwise
+export const formatSlot = (date: string, startTime: string | null) =>
+  startTime ? `${formatJobDay(date)}, ${startTime.slice(0, 5)}` : formatJobDay(date);
+
+// Every proposal on the caller's jobs, newest first; RLS limits it to jobs they are on
+export const fetchProposals = async () => {
+  const { data, error } = await supabase
+    .from('reschedule_proposals')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+// Reschedule errors use the same codes as job transitions, so they share JobTransitionError
+export const proposeReschedule = async (jobId: string, date: string, startTime?: string) => {
+  const { data, error } = await supabase.rpc('propose_reschedule', {
+    _job_id: jobId,
+    _job_date: date,
+    _start_time: startTime || undefined,
+  });
+
+  if (error) throw JobTransitionError.fromPostgrest(error);
+  return data;
+};
+
+export const respondToReschedule = async (proposalId: string, accept: boolean) => {
+  const { data, error } = await supabase.rpc('respond_to_reschedule', { _proposal_id: proposalId, _accept: accept });
+
+  if (error) throw JobTransitionError.fromPostgrest(error);
+  return data;
+};
+
+export const withdrawReschedule = async (proposalId: string) => {
+  const { data, error } = await supabase.rpc('withdraw_reschedule', { _proposal_id: proposalId });
+
+  if (error) throw JobTransitionError.fromPostgrest(error);
+  return data;
+};
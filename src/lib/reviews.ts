@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Review = Tables<'reviews'>;
+
+export const fetchMaidReviews = async (maidId: string, limit = 10) => {
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('maid_id', maidId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+};
+
+export const submitReview = async (jobId: string, rating: number, comment: string) => {
+  const { data, error } = await supabase.rpc('submit_review', {
+    _job_id: jobId,
+    _rating: rating,
+    _comment: comment,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const replyToReview = async (reviewId: string, reply: string) => {
+  const { data, error } = await supabase.rpc('reply_to_review', {
+    _review_id: reviewId,
+    _reply: reply,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,22 @@
+import type { Location } from 'react-router-dom';
+import type { AppRole } from '@/integrations/supabase/auth';
+
+export const DASHBOARD_PATHS: Record<AppRole, string> = {
+  customer: '/customer-dashboard',
+  maid: '/maid-dashboard',
+  admin: '/admin/deliveries',
+};
+
+// Accounts without a role yet (an unfinished sign-up) stay on the home page
+export const dashboardPathFor = (role: AppRole | null) => (role ? DASHBOARD_PATHS[role] : '/');
+
+// Router state RequireRole leaves on the redirect to /auth
+export interface ReturnToState {
+  from?: Location;
+}
+
+// Where to send the user after signing in: the page they were sent away from, if any
+export const returnPathFrom = (state: unknown) => {
+  const from = (state as ReturnToState | null)?.from;
+  return from ? `${from.pathname}${from.search}${from.hash}` : null;
+};
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatJobDuration } from '@/lib/bookings';
+import { JobTransitionError } from '@/lib/jobs';
+
+export type RecurringBooking = Tables<'recurring_bookings'>;
+
+export type SeriesStatus = 'pending' | 'active' | 'paused' | 'ended' | 'declined';
+
+export type SeriesJobType = 'hourly' | 'daily';
+
+export type SeriesTransition = 'accept_series' | 'decline_series' | 'pause_series' | 'resume_series' | 'end_series';
+
+export interface SeriesRequest {
+  maidId: string;
+  jobType: SeriesJobType;
+  weekdays: number[];
+  intervalWeeks: number;
+  startsOn: string;
+  endsOn?: string;
+  quantity: number;
+  location: string;
+  startTime?: string;
+}
+
+// EXTRACT(DOW) numbering, matching maid_availability
+export const SHORT_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const listDays = (weekdays: number[]) => {
+  const names = [...weekdays].sort((a, b) => a - b).map((day) => SHORT_WEEKDAYS[day]);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}` : names[0];
+};
+
+// "Every Mon & Thu, 3 hours from 09:00", "Every 2 weeks on Sat, 1 day"
+export const describeSchedule = (series: Pick<
+  RecurringBooking,
+  'weekdays' | 'interval_weeks' | 'job_type' | 'duration_quantity' | 'start_time'
+>) => {
+  const days = listDays(series.weekdays);
+  const cadence = series.interval_weeks > 1 ? `Every ${series.interval_weeks} weeks on ${days}` : `Every ${days}`;
+  return `${cadence}, ${formatJobDuration(series)}`;
+};
+
+export const fetchSeries = async (column: 'customer_id' | 'maid_id', value: string) => {
+  const { data, error } = await supabase
+    .from('recurring_bookings')
+    .select('*')
+    .eq(column, value)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const createSeries = async (request: SeriesRequest) => {
+  const { data, error } = await supabase.rpc('create_recurring_booking', {
+    _maid_id: request.maidId,
+    _job_type: request.jobType,
+    _weekdays: request.weekdays,
+    _interval_weeks: request.intervalWeeks,
+    _starts_on: request.startsOn,
+    _ends_on: request.endsOn || undefined,
+    _quantity: request.jobType === 'daily' ? 1 : request.quantity,
+    _location: request.location,
+    _start_time: request.jobType === 'hourly' ? request.startTime : undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Series errors use the same codes as job transitions, so they share JobTransitionError
+export const transitionSeries = async (transition: SeriesTransition, seriesId: string) => {
+  const { data, error } = await supabase.rpc(transition, { _series_id: seriesId });
+
+  if (error) throw JobTransitionError.fromPostgrest(error);
+  return data;
+};
+
+export const rescheduleOccurrence = async (jobId: string, date: string, startTime?: string) => {
+  const { data, error } = await supabase.rpc('reschedule_occurrence', {
+    _job_id: jobId,
+    _job_date: date,
+    _start_time: startTime || undefined,
+  });
+
+  if (error) throw JobTransitionError.fromPostgrest(error);
+  return data;
+};
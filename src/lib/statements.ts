@@ -0,0 +1,168 @@
+import { endOfMonth, format, isWithinInterval, parseISO, startOfMonth } from 'date-fns';
+import { EarningsTotals, JobEarning, Payout, PAYOUT_STATUS_LABELS, PayoutStatus, sumEarnings } from '@/lib/earnings';
+
+// A maid's earnings for one calendar month: jobs settled in the month and payout
+// batches whose week ended in it
+export interface EarningsStatement {
+  month: Date;
+  maidName: string;
+  jobs: JobEarning[];
+  payouts: Payout[];
+  totals: EarningsTotals;
+}
+
+export const buildStatement = (
+  month: Date,
+  maidName: string,
+  jobs: JobEarning[],
+  payouts: Payout[]
+): EarningsStatement => {
+  const interval = { start: startOfMonth(month), end: endOfMonth(month) };
+  const monthJobs = jobs.filter((job) => isWithinInterval(parseISO(job.settled_at), interval));
+
+  return {
+    month,
+    maidName,
+    jobs: monthJobs,
+    payouts: payouts.filter((payout) => isWithinInterval(parseISO(payout.period_end), interval)),
+    totals: sumEarnings(monthJobs),
+  };
+};
+
+export const statementFileName = (statement: EarningsStatement, extension: 'csv' | 'pdf') =>
+  `maidly-earnings-${format(statement.month, 'yyyy-MM')}.${extension}`;
+
+const money = (amount: number) => Number(amount).toFixed(2);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: (string | number)[]) => values.map(csvCell).join(',');
+
+export const statementCsv = (statement: EarningsStatement) => {
+  const lines = [
+    csvRow(['Maidly earnings statement', format(statement.month, 'MMMM yyyy')]),
+    csvRow(['Maid', statement.maidName]),
+    '',
+    csvRow(['Settled', 'Job date', 'Job type', 'Job status', 'Gross (INR)', 'Commission (INR)', 'Net payout (INR)']),
+    ...statement.jobs.map((job) =>
+      csvRow([
+        format(parseISO(job.settled_at), 'yyyy-MM-dd'),
+        job.job_date,
+        job.job_type,
+        job.job_status,
+        money(job.gross),
+        money(job.commission),
+        money(job.net),
+      ])
+    ),
+    csvRow(['Total', '', '', '', money(statement.totals.gross), money(statement.totals.commission), money(statement.totals.net)]),
+    '',
+    csvRow(['Payout week', 'Jobs', 'Net (INR)', 'Status', 'Reference']),
+    ...statement.payouts.map((payout) =>
+      csvRow([
+        `${payout.period_start} to ${payout.period_end}`,
+        payout.job_count,
+        money(payout.net),
+        PAYOUT_STATUS_LABELS[payout.status as PayoutStatus],
+        payout.reference ?? '',
+      ])
+    ),
+  ];
+
+  return new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+// jsPDF is only loaded when a statement is downloaded. Its built-in fonts have no rupee
+// sign, so amounts are written as "Rs.".
+export const statementPdf = async (statement: EarningsStatement) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF();
+  const left = 14;
+  const columns = [left, 36, 64, 86, 110, 142, 170];
+  const right = 196;
+  const rupees = (amount: number) => `Rs. ${money(amount)}`;
+  let y = 20;
+
+  const nextLine = () => {
+    if (y > 280) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  const row = (values: string[], bold = false) => {
+    nextLine();
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    values.forEach((value, i) => {
+      // Amounts are right-aligned just short of the next column
+      if (i >= 4) doc.text(value, i + 1 < columns.length ? columns[i + 1] - 4 : right, y, { align: 'right' });
+      else doc.text(value, columns[i], y);
+    });
+    y += 7;
+  };
+
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Maidly earnings statement', left, y);
+  y += 8;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`${statement.maidName} · ${format(statement.month, 'MMMM yyyy')}`, left, y);
+  y += 12;
+
+  row(['Settled', 'Job date', 'Type', 'Status', 'Gross', 'Commission', 'Net'], true);
+  if (statement.jobs.length === 0) {
+    doc.text('No jobs were settled this month.', left, y);
+    y += 7;
+  }
+  statement.jobs.forEach((job) =>
+    row([
+      format(parseISO(job.settled_at), 'dd MMM'),
+      format(parseISO(job.job_date), 'dd MMM yyyy'),
+      job.job_type,
+      job.job_status,
+      rupees(job.gross),
+      rupees(job.commission),
+      rupees(job.net),
+    ])
+  );
+  row(['Total', '', '', '', rupees(statement.totals.gross), rupees(statement.totals.commission), rupees(statement.totals.net)], true);
+
+  y += 6;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Payouts', left, y);
+  y += 8;
+  doc.setFontSize(10);
+
+  if (statement.payouts.length === 0) {
+    doc.setFont('helvetica', 'normal');
+    doc.text('No payout batches this month.', left, y);
+  }
+  statement.payouts.forEach((payout) => {
+    nextLine();
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `${payout.period_start} to ${payout.period_end} · ${payout.job_count} jobs · ${rupees(payout.net)} · ${
+        PAYOUT_STATUS_LABELS[payout.status as PayoutStatus]
+      }${payout.reference ? ` (${payout.reference})` : ''}`,
+      left,
+      y
+    );
+    y += 7;
+  });
+
+  return doc.output('blob');
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, LogOut } from 'lucide-react';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/integrations/supabase/auth';
+import { emailSchema, newPasswordSchema, phoneSchema } from '@/lib/authSchemas';
+import { formatPhone, toE164 } from '@/lib/phone';
+import { dashboardPathFor } from '@/lib/roles';
+import { useToast } from '@/hooks/use-toast';
+import OtpCodeForm from '@/components/OtpCodeForm';
+import SettingsNav from '@/components/SettingsNav';
+import '../styles/auth.css';
+import '../styles/account.css';
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Enter your current password'),
+}).and(newPasswordSchema);
+
+const Account = () => {
+  const { user, userRole, signOut } = useAuth();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [passwords, setPasswords] = useState({ currentPassword: '', password: '', confirmPassword: '' });
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [phone, setPhone] = useState('');
+  const [pendingPhone, setPendingPhone] = useState<string | null>(null);
+  const [sendingCode, setSendingCode] = useState(false);
+  // Supabase Auth stores the number as digits with the country code
+  const linkedPhone = user?.phone ? user.phone.slice(-10) : null;
+
+  const handleEmailChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = emailSchema.safeParse(email.trim());
+    if (!validation.success) {
+      toast({
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (validation.data.toLowerCase() === user?.email?.toLowerCase()) {
+      toast({
+        title: 'Validation Error',
+        description: 'That is already your email address',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingEmail(true);
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email: validation.data },
+        { emailRedirectTo: `${window.location.origin}/account` },
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: 'Confirm your new email',
+        description: user?.email
+          ? 'We sent confirmation links to your current and new addresses. The change applies once it is confirmed.'
+          : 'We sent a confirmation link to the new address. It is added once you open it.',
+      });
+      setEmail('');
+    } catch (error) {
+      toast({
+        title: 'Could not change email',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
+  const handlePasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.email) return;
+
+    const validation = changePasswordSchema.safeParse(passwords);
+    if (!validation.success) {
+      toast({
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      // Signing in again is how Supabase lets us check the current password
+      const { error: verifyError } = await supabase.auth.signInWithPassword({
+        email: user.email,
+        password: validation.data.currentPassword,
+      });
+
+      if (verifyError) throw new Error('Your current password is incorrect');
+
+      const { error } = await supabase.auth.updateUser({ password: validation.data.password });
+
+      if (error) throw error;
+
+      toast({ title: 'Password updated' });
+      setPasswords({ currentPassword: '', password: '', confirmPassword: '' });
+    } catch (error) {
+      toast({
+        title: 'Could not change password',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const sendPhoneCode = async (number: string) => {
+    const { error } = await supabase.auth.updateUser({ phone: toE164(number) });
+    if (error) throw error;
+  };
+
+  const handlePhoneLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = phoneSchema.safeParse(phone.trim());
+    if (!validation.success) {
+      toast({
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSendingCode(true);
+    try {
+      await sendPhoneCode(validation.data);
+      setPendingPhone(validation.data);
+    } catch (error) {
+      toast({
+        title: 'Could not send the code',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSendingCode(false);
+    }
+  };
+
+  const verifyPhoneCode = async (code: string) => {
+    if (!pendingPhone) return;
+
+    const { error } = await supabase.auth.verifyOtp({
+      phone: toE164(pendingPhone),
+      token: code,
+      type: 'phone_change',
+    });
+
+    if (error) throw error;
+
+    toast({
+      title: 'Phone number linked',
+      description: 'You can now sign in with a code sent to this number.',
+    });
+    setPendingPhone(null);
+    setPhone('');
+  };
+
+  return (
+    <div className="account-container">
+      <header className="account-header">
+        <div className="account-header-content">
+          <Link to={dashboardPathFor(userRole)} className="account-back">
+            <ArrowLeft style={{ width: '1rem', height: '1rem' }} />
+            Back to dashboard
+          </Link>
+          <button onClick={signOut} className="logout-btn">
+            <LogOut style={{ width: '1rem', height: '1rem', marginRight: '0.5rem', display: 'inline' }} />
+            Sign Out
+          </button>
+        </div>
+      </header>
+
+      <main className="account-main">
+        <h1 className="account-title">Account Settings</h1>
+        <SettingsNav />
+
+        <section className="account-card">
+          <h2 className="account-card-title">Email</h2>
+          <p className="auth-hint">
+            {user?.email ? (
+              <>Signed in as <strong>{user.email}</strong></>
+            ) : (
+              'Add an email address to get booking emails and sign in with a password.'
+            )}
+          </p>
+          {user?.new_email && (
+            <p className="account-pending">
+              Waiting for confirmation of <strong>{user.new_email}</strong>. Check both inboxes for the links.
+            </p>
+          )}
+          <form onSubmit={handleEmailChange} className="auth-form">
+            <div className="form-group">
+              <label htmlFor="account-email" className="form-label">{user?.email ? 'New Email' : 'Email'}</label>
+              <input
+                id="account-email"
+                type="email"
+                placeholder="you@example.com"
+                className="form-input"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <button type="submit" className="submit-btn" disabled={savingEmail}>
+              {savingEmail ? 'Sending...' : user?.email ? 'Change Email' : 'Add Email'}
+            </button>
+          </form>
+        </section>
+
+        <section className="account-card">
+          <h2 className="account-card-title">Phone</h2>
+          <p className="auth-hint">
+            {linkedPhone ? (
+              <>Sign in with a code sent to <strong>{formatPhone(linkedPhone)}</strong></>
+            ) : (
+              'Link your mobile number to sign in with a code instead of a password.'
+            )}
+          </p>
+          {pendingPhone ? (
+            <OtpCodeForm
+              phone={pendingPhone}
+              submitLabel="Verify & Link"
+              onVerify={verifyPhoneCode}
+              onResend={() => sendPhoneCode(pendingPhone)}
+              onCancel={() => setPendingPhone(null)}
+            />
+          ) : (
+            <form onSubmit={handlePhoneLink} className="auth-form">
+              <div className="form-group">
+                <label htmlFor="account-phone" className="form-label">
+                  {linkedPhone ? 'New Phone' : 'Phone'}
+                </label>
+                <input
+                  id="account-phone"
+                  type="tel"
+                  inputMode="numeric"
+                  placeholder="10-digit mobile number"
+                  className="form-input"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  required
+                />
+              </div>
+              <button type="submit" className="submit-btn" disabled={sendingCode}>
+                {sendingCode ? 'Sending code...' : linkedPhone ? 'Change Phone' : 'Link Phone'}
+              </button>
+            </form>
+          )}
+        </section>
+
+        <section className="account-card">
+          <h2 className="account-card-title">Password</h2>
+          {!user?.email ? (
+            <p className="auth-hint">Add an email address above to set a password.</p>
+          ) : (
+            <form onSubmit={handlePasswordChange} className="auth-form">
+              <div className="form-group">
+                <label htmlFor="current-password" className="form-label">Current Password</label>
+                <input
+                  id="current-password"
+                  type="password"
+                  className="form-input"
+                  autoComplete="current-password"
+                  value={passwords.currentPassword}
+                  onChange={(e) => setPasswords({ ...passwords, currentPassword: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="account-new-password" className="form-label">New Password</label>
+                <input
+                  id="account-new-password"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  className="form-input"
+                  autoComplete="new-password"
+                  value={passwords.password}
+                  onChange={(e) => setPasswords({ ...passwords, password: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="account-confirm-password" className="form-label">Confirm New Password</label>
+                <input
+                  id="account-confirm-password"
+                  type="password"
+                  className="form-input"
+                  autoComplete="new-password"
+                  value={passwords.confirmPassword}
+                  onChange={(e) => setPasswords({ ...passwords, confirmPassword: e.target.value })}
+                  required
+                />
+              </div>
+              <button type="submit" className="submit-btn" disabled={savingPassword}>
+                {savingPassword ? 'Saving...' : 'Change Password'}
+              </button>
+            </form>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default Account;
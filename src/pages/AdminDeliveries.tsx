@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from 'react';
+import { LogOut, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/integrations/supabase/auth';
+import { useToast } from '@/hooks/use-toast';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AdminNav from '@/components/AdminNav';
+import { DELIVERY_STATUSES, DeliveryStatus, fetchOutboxMessages, OutboxMessage } from '@/lib/outbox';
+import '../styles/admin.css';
+
+const AdminDeliveries = () => {
+  const { signOut } = useAuth();
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [status, setStatus] = useState<DeliveryStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchMessages = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMessages(await fetchOutboxMessages(status || undefined));
+    } catch (error) {
+      toast({
+        title: 'Error fetching deliveries',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  return (
+    <div className="admin-container">
+      <header className="admin-header">
+        <div className="admin-header-content">
+          <h1 className="admin-title">Maidly Admin</h1>
+          <AdminNav />
+          <button onClick={signOut} className="logout-btn">
+            <LogOut style={{ width: '1rem', height: '1rem', marginRight: '0.5rem', display: 'inline' }} />
+            Sign Out
+          </button>
+        </div>
+      </header>
+
+      <main className="admin-main">
+        <div className="admin-toolbar">
+          <h2 className="admin-section-title">Email &amp; SMS deliveries</h2>
+          <div className="admin-toolbar-actions">
+            <select
+              className="admin-select"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as DeliveryStatus | '')}
+              aria-label="Filter by status"
+            >
+              <option value="">All statuses</option>
+              {DELIVERY_STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="admin-refresh" onClick={fetchMessages} disabled={loading}>
+              <RefreshCw style={{ width: '1rem', height: '1rem' }} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        <div className="admin-table">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {messages.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="admin-empty">
+                    {loading ? 'Loading...' : 'No deliveries found.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                messages.map((message) => (
+                  <TableRow key={message.id}>
+                    <TableCell>{new Date(message.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{message.event.replace(/_/g, ' ')}</TableCell>
+                    <TableCell>{message.channel}</TableCell>
+                    <TableCell>{message.recipient}</TableCell>
+                    <TableCell>
+                      <span className={`delivery-status delivery-status-${message.status}`}>{message.status}</span>
+                      {message.sent_at && (
+                        <div className="admin-muted">{new Date(message.sent_at).toLocaleString()}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{message.attempts}</TableCell>
+                    <TableCell className="admin-error">{message.last_error ?? '—'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AdminDeliveries;
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { LogOut, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/integrations/supabase/auth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AdminNav from '@/components/AdminNav';
+import { fetchPayoutBatches, markPayoutPaid, Payout, PAYOUT_STATUS_LABELS, PayoutStatus } from '@/lib/earnings';
+import { fetchMaidProfiles, PublicProfile } from '@/lib/profiles';
+import '../styles/admin.css';
+import '../styles/earnings.css';
+
+const AdminPayouts = () => {
+  const { signOut } = useAuth();
+  const { toast } = useToast();
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [maids, setMaids] = useState<Map<string, PublicProfile>>(new Map());
+  const [status, setStatus] = useState<PayoutStatus | ''>('scheduled');
+  const [loading, setLoading] = useState(true);
+  const [payoutToPay, setPayoutToPay] = useState<Payout | null>(null);
+  const [reference, setReference] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchPayouts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchPayoutBatches({ status: status || undefined });
+      setPayouts(data);
+      setMaids(await fetchMaidProfiles([...new Set(data.map((payout) => payout.maid_id))]));
+    } catch (error) {
+      toast({
+        title: 'Error fetching payouts',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchPayouts();
+  }, [fetchPayouts]);
+
+  const handleMarkPaid = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payoutToPay) return;
+    setSaving(true);
+
+    try {
+      await markPayoutPaid(payoutToPay.id, reference);
+      toast({ title: 'Payout marked as paid' });
+      setPayoutToPay(null);
+      setReference('');
+      fetchPayouts();
+    } catch (error) {
+      toast({
+        title: 'Could not update the payout',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="admin-container">
+      <header className="admin-header">
+        <div className="admin-header-content">
+          <h1 className="admin-title">Maidly Admin</h1>
+          <AdminNav />
+          <button onClick={signOut} className="logout-btn">
+            <LogOut style={{ width: '1rem', height: '1rem', marginRight: '0.5rem', display: 'inline' }} />
+            Sign Out
+          </button>
+        </div>
+      </header>
+
+      <main className="admin-main">
+        <div className="admin-toolbar">
+          <h2 className="admin-section-title">Maid payouts</h2>
+          <div className="admin-toolbar-actions">
+            <select
+              className="admin-select"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as PayoutStatus | '')}
+              aria-label="Filter by status"
+            >
+              <option value="">All statuses</option>
+              {Object.entries(PAYOUT_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="admin-refresh" onClick={fetchPayouts} disabled={loading}>
+              <RefreshCw style={{ width: '1rem', height: '1rem' }} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        <div className="admin-table">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Maid</TableHead>
+                <TableHead>Week</TableHead>
+                <TableHead>Jobs</TableHead>
+                <TableHead>Gross</TableHead>
+                <TableHead>Commission</TableHead>
+                <TableHead>Net payout</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payouts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="admin-empty">
+                    {loading ? 'Loading...' : 'No payouts found.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                payouts.map((payout) => (
+                  <TableRow key={payout.id}>
+                    <TableCell>{maids.get(payout.maid_id)?.full_name ?? 'Unknown'}</TableCell>
+                    <TableCell>
+                      {format(parseISO(payout.period_start), 'd MMM')} – {format(parseISO(payout.period_end), 'd MMM yyyy')}
+                    </TableCell>
+                    <TableCell>{payout.job_count}</TableCell>
+                    <TableCell>₹{Number(payout.gross).toFixed(2)}</TableCell>
+                    <TableCell>₹{Number(payout.commission).toFixed(2)}</TableCell>
+                    <TableCell>₹{Number(payout.net).toFixed(2)}</TableCell>
+                    <TableCell>
+                      <span className={`payout-status payout-status-${payout.status}`}>
+                        {PAYOUT_STATUS_LABELS[payout.status as PayoutStatus]}
+                      </span>
+                      {payout.reference && <div className="admin-muted">{payout.reference}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {payout.status === 'scheduled' && (
+                        <button type="button" className="admin-refresh" onClick={() => setPayoutToPay(payout)}>
+                          Mark Paid
+                        </button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </main>
+
+      <Dialog open={!!payoutToPay} onOpenChange={(open) => !open && setPayoutToPay(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record payout</DialogTitle>
+            <DialogDescription>
+              {payoutToPay &&
+                `₹${Number(payoutToPay.net).toFixed(2)} to ${maids.get(payoutToPay.maid_id)?.full_name ?? 'the maid'}. Enter the bank transfer or UPI reference once the money has been sent.`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleMarkPaid} className="auth-form">
+            <div className="form-group">
+              <label htmlFor="payout-reference" className="form-label">Reference</label>
+              <input
+                id="payout-reference"
+                type="text"
+                className="form-input"
+                maxLength={100}
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                required
+              />
+            </div>
+            <button type="submit" className="submit-btn" disabled={saving}>
+              {saving ? 'Saving...' : 'Mark as Paid'}
+            </button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminPayouts;
@@ -1,40 +1,58 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { emailSchema, maidDetailsSchema, passwordSchema, phoneSchema, profileDetailsSchema } from '@/lib/authSchemas';
+import { signUpMetadata } from '@/lib/onboarding';
+import { toE164 } from '@/lib/phone';
+import { dashboardPathFor, returnPathFrom } from '@/lib/roles';
 import { useToast } from '@/hooks/use-toast';
 import { Sparkles } from 'lucide-react';
 import { z } from 'zod';
+import OtpCodeForm from '@/components/OtpCodeForm';
 import '../styles/auth.css';
 
 // Validation schemas
 const signInSchema = z.object({
-  email: z.string().email('Invalid email address').max(255),
+  email: emailSchema,
   password: z.string().min(1, 'Password is required'),
 });
 
-const signUpBaseSchema = z.object({
-  email: z.string().email('Invalid email address').max(255),
-  password: z.string().min(8, 'Password must be at least 8 characters').max(72),
-  fullName: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
-  phone: z.string().regex(/^\d{10}$/, 'Phone number must be exactly 10 digits').optional().or(z.literal('')),
+const signUpBaseSchema = profileDetailsSchema.extend({
+  email: emailSchema,
+  password: passwordSchema,
 });
 
-const maidSignUpSchema = signUpBaseSchema.extend({
-  hourlyRate: z.coerce.number().positive('Hourly rate must be positive').max(10000, 'Hourly rate must be less than ₹10,000'),
-  dailyRate: z.coerce.number().positive('Daily rate must be positive').max(50000, 'Daily rate must be less than ₹50,000'),
-  monthlyRate: z.coerce.number().positive('Monthly rate must be positive').max(500000, 'Monthly rate must be less than ₹5,00,000'),
-  location: z.string().trim().min(3, 'Location must be at least 3 characters').max(200),
-  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
-});
+const maidSignUpSchema = signUpBaseSchema.merge(maidDetailsSchema);
+
+// Phone sign-up skips email and password; the SMS code proves the number instead
+const phoneSignUpSchema = signUpBaseSchema.omit({ email: true, password: true }).extend({ phone: phoneSchema });
+const maidPhoneSignUpSchema = maidSignUpSchema.omit({ email: true, password: true }).extend({ phone: phoneSchema });
+
+type AuthMethod = 'email' | 'phone';
+
+interface OtpStep {
+  phone: string;
+  purpose: 'signin' | 'signup';
+  // Sign-up details for the new account, sent again with a resent code
+  metadata?: ReturnType<typeof signUpMetadata>;
+}
 
 const Auth = () => {
   const [loading, setLoading] = useState(false);
   const [role, setRole] = useState<'customer' | 'maid'>('customer');
   const [activeTab, setActiveTab] = useState<'signin' | 'signup'>('signin');
+  const [forgotPassword, setForgotPassword] = useState(false);
+  const [signInMethod, setSignInMethod] = useState<AuthMethod>('email');
+  const [signUpMethod, setSignUpMethod] = useState<AuthMethod>('email');
+  const [otpStep, setOtpStep] = useState<OtpStep | null>(null);
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  // Set when a guarded page sent the user here to sign in
+  const returnPath = returnPathFrom(location.state);
 
   const [signInData, setSignInData] = useState({ email: '', password: '' });
+  const [signInPhone, setSignInPhone] = useState('');
   const [signUpData, setSignUpData] = useState({
     email: '',
     password: '',
@@ -47,6 +65,135 @@ const Auth = () => {
     description: '',
   });
 
+  const finishSignIn = async (userId: string, newAccount = false) => {
+    toast(newAccount
+      ? { title: 'Account created!', description: 'Your account has been created successfully.' }
+      : { title: 'Welcome back!', description: 'You have successfully signed in.' });
+
+    if (returnPath) {
+      navigate(returnPath, { replace: true });
+      return;
+    }
+
+    const { data: roleData } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    // Accounts without a role land on the home page, which asks them to pick one
+    navigate(dashboardPathFor(roleData?.role ?? null));
+  };
+
+  // Sign-in codes only go to numbers that already belong to an account; sign-up codes
+  // create the account from the metadata once the code is verified. A sign-up with a number
+  // that already has an account gets a sign-in code instead, since verifying would only sign
+  // into that account and ignore the metadata. Returns what the code was sent for.
+  const requestOtp = async ({ phone, purpose, metadata }: OtpStep): Promise<OtpStep['purpose']> => {
+    const { error } = await supabase.auth.signInWithOtp({
+      phone: toE164(phone),
+      options: { shouldCreateUser: false },
+    });
+
+    if (!error) return 'signin';
+    if (error.code !== 'otp_disabled' && error.code !== 'signup_disabled') throw error;
+
+    if (purpose === 'signin') {
+      throw new Error(
+        'No account uses this number. If you signed up with email, sign in with email and add your phone in Account settings.',
+      );
+    }
+
+    const { error: signUpError } = await supabase.auth.signInWithOtp({
+      phone: toE164(phone),
+      options: { shouldCreateUser: true, data: metadata },
+    });
+
+    if (signUpError) throw signUpError;
+    return 'signup';
+  };
+
+  const sendOtp = async (step: OtpStep) => {
+    setLoading(true);
+
+    try {
+      const purpose = await requestOtp(step);
+      if (purpose !== step.purpose) {
+        toast({
+          title: 'This number already has an account',
+          description: 'Enter the code we sent to sign in. Your sign-up details were not used.',
+        });
+      }
+      setOtpStep({ ...step, purpose });
+    } catch (error) {
+      toast({
+        title: 'Could not send the code',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyOtpCode = async (code: string) => {
+    if (!otpStep) return;
+
+    const { data, error } = await supabase.auth.verifyOtp({
+      phone: toE164(otpStep.phone),
+      token: code,
+      type: 'sms',
+    });
+
+    if (error) throw error;
+    if (!data.user) throw new Error('Verification failed');
+
+    await finishSignIn(data.user.id, otpStep.purpose === 'signup');
+  };
+
+  const handlePhoneSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = phoneSchema.safeParse(signInPhone.trim());
+    if (!validation.success) {
+      toast({
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    await sendOtp({ phone: validation.data, purpose: 'signin' });
+  };
+
+  const handlePhoneSignUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const schema = role === 'maid' ? maidPhoneSignUpSchema : phoneSignUpSchema;
+    const validation = schema.safeParse(signUpData);
+    if (!validation.success) {
+      toast({
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const validatedData = validation.data;
+    await sendOtp({
+      phone: validatedData.phone,
+      purpose: 'signup',
+      metadata: signUpMetadata(
+        role,
+        validatedData.fullName,
+        validatedData.phone,
+        role === 'maid' ? maidDetailsSchema.parse(signUpData) : undefined,
+      ),
+    });
+  };
+
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -70,26 +217,48 @@ const Auth = () => {
 
       if (error) throw error;
 
+      await finishSignIn(data.user.id);
+    } catch (error: any) {
       toast({
-        title: 'Welcome back!',
-        description: 'You have successfully signed in.',
+        title: 'Sign in failed',
+        description: error.message,
+        variant: 'destructive',
       });
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const { data: roleData } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', data.user.id)
-        .single();
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
 
-      if (roleData?.role === 'maid') {
-        navigate('/maid-dashboard');
-      } else {
-        navigate('/customer-dashboard');
-      }
-    } catch (error: any) {
+    const validation = emailSchema.safeParse(signInData.email);
+    if (!validation.success) {
       toast({
-        title: 'Sign in failed',
-        description: error.message,
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(validation.data, {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Check your email',
+        description: 'If an account exists for that address, we sent a link to choose a new password.',
+      });
+      setForgotPassword(false);
+    } catch (error) {
+      toast({
+        title: 'Could not send the reset link',
+        description: (error as Error).message,
         variant: 'destructive',
       });
     } finally {
@@ -122,47 +291,29 @@ const Auth = () => {
         password: validatedData.password,
         options: {
           emailRedirectTo: `${window.location.origin}/`,
-          data: {
-            full_name: validatedData.fullName,
-            phone: validatedData.phone || null,
-          },
+          data: signUpMetadata(
+            role,
+            validatedData.fullName,
+            validatedData.phone || null,
+            role === 'maid' ? maidDetailsSchema.parse(signUpData) : undefined,
+          ),
         },
       });
 
       if (authError) throw authError;
       if (!authData.user) throw new Error('Registration failed');
 
-      const { error: roleError } = await supabase
-        .from('user_roles')
-        .insert({ user_id: authData.user.id, role });
-
-      if (roleError) throw roleError;
-
-      if (role === 'maid') {
-        const { error: maidError } = await supabase
-          .from('maids')
-          .insert({
-            user_id: authData.user.id,
-            hourly_rate: parseFloat(signUpData.hourlyRate),
-            daily_rate: parseFloat(signUpData.dailyRate),
-            monthly_rate: parseFloat(signUpData.monthlyRate),
-            location: signUpData.location,
-            description: signUpData.description || null,
-          });
-
-        if (maidError) throw maidError;
+      // Without a session the project requires email confirmation before the first sign-in
+      if (!authData.session) {
+        toast({
+          title: 'Confirm your email',
+          description: 'We sent you a confirmation link. Sign in once you have opened it.',
+        });
+        setActiveTab('signin');
+        return;
       }
 
-      toast({
-        title: 'Account created!',
-        description: 'Your account has been created successfully.',
-      });
-
-      if (role === 'maid') {
-        navigate('/maid-dashboard');
-      } else {
-        navigate('/customer-dashboard');
-      }
+      await finishSignIn(authData.user.id, true);
     } catch (error: any) {
       toast({
         title: 'Registration failed',
@@ -189,20 +340,90 @@ const Auth = () => {
           <div className="tabs-list">
             <button
               className={`tab-trigger ${activeTab === 'signin' ? 'active' : ''}`}
-              onClick={() => setActiveTab('signin')}
+              onClick={() => {
+                setActiveTab('signin');
+                setOtpStep(null);
+              }}
             >
               Sign In
             </button>
             <button
               className={`tab-trigger ${activeTab === 'signup' ? 'active' : ''}`}
-              onClick={() => setActiveTab('signup')}
+              onClick={() => {
+                setActiveTab('signup');
+                setOtpStep(null);
+              }}
             >
               Sign Up
             </button>
           </div>
         </div>
 
-        {activeTab === 'signin' ? (
+        {otpStep ? (
+          <OtpCodeForm
+            phone={otpStep.phone}
+            submitLabel={otpStep.purpose === 'signup' ? 'Verify & Create Account' : 'Verify & Sign In'}
+            onVerify={verifyOtpCode}
+            onResend={async () => {
+              await requestOtp(otpStep);
+            }}
+            onCancel={() => setOtpStep(null)}
+          />
+        ) : activeTab === 'signin' && signInMethod === 'phone' ? (
+          <form onSubmit={handlePhoneSignIn} className="auth-form">
+            <div className="form-group">
+              <label htmlFor="signin-phone" className="form-label">Phone</label>
+              <input
+                id="signin-phone"
+                type="tel"
+                inputMode="numeric"
+                placeholder="10-digit mobile number"
+                className="form-input"
+                value={signInPhone}
+                onChange={(e) => setSignInPhone(e.target.value)}
+                required
+              />
+            </div>
+            <button type="submit" className="submit-btn" disabled={loading}>
+              {loading ? (
+                <span className="btn-loading">
+                  <span className="btn-spinner"></span>
+                  Sending code...
+                </span>
+              ) : 'Send Code'}
+            </button>
+            <button type="button" className="auth-link-btn" onClick={() => setSignInMethod('email')}>
+              Sign in with email instead
+            </button>
+          </form>
+        ) : activeTab === 'signin' && forgotPassword ? (
+          <form onSubmit={handleForgotPassword} className="auth-form">
+            <p className="auth-hint">Enter your account email and we'll send you a link to choose a new password.</p>
+            <div className="form-group">
+              <label htmlFor="reset-email" className="form-label">Email</label>
+              <input
+                id="reset-email"
+                type="email"
+                placeholder="Enter your email"
+                className="form-input"
+                value={signInData.email}
+                onChange={(e) => setSignInData({ ...signInData, email: e.target.value })}
+                required
+              />
+            </div>
+            <button type="submit" className="submit-btn" disabled={loading}>
+              {loading ? (
+                <span className="btn-loading">
+                  <span className="btn-spinner"></span>
+                  Sending...
+                </span>
+              ) : 'Send Reset Link'}
+            </button>
+            <button type="button" className="auth-link-btn" onClick={() => setForgotPassword(false)}>
+              Back to sign in
+            </button>
+          </form>
+        ) : activeTab === 'signin' ? (
           <form onSubmit={handleSignIn} className="auth-form">
             <div className="form-group">
               <label htmlFor="signin-email" className="form-label">Email</label>
@@ -227,6 +448,9 @@ const Auth = () => {
                 onChange={(e) => setSignInData({ ...signInData, password: e.target.value })}
                 required
               />
+              <button type="button" className="auth-link-btn auth-forgot-btn" onClick={() => setForgotPassword(true)}>
+                Forgot password?
+              </button>
             </div>
             <button type="submit" className="submit-btn" disabled={loading}>
               {loading ? (
@@ -236,9 +460,12 @@ const Auth = () => {
                 </span>
               ) : 'Sign In'}
             </button>
+            <button type="button" className="auth-link-btn" onClick={() => setSignInMethod('phone')}>
+              Sign in with phone instead
+            </button>
           </form>
         ) : (
-          <form onSubmit={handleSignUp} className="auth-form">
+          <form onSubmit={signUpMethod === 'phone' ? handlePhoneSignUp : handleSignUp} className="auth-form">
             <div className="form-group">
               <label className="form-label">I am a</label>
               <div className="radio-group">
@@ -280,41 +507,47 @@ const Auth = () => {
               />
             </div>
 
-            <div className="form-group">
-              <label htmlFor="signup-email" className="form-label">Email</label>
-              <input
-                id="signup-email"
-                type="email"
-                placeholder="Enter your email"
-                className="form-input"
-                value={signUpData.email}
-                onChange={(e) => setSignUpData({ ...signUpData, email: e.target.value })}
-                required
-              />
-            </div>
+            {signUpMethod === 'email' && (
+              <>
+                <div className="form-group">
+                  <label htmlFor="signup-email" className="form-label">Email</label>
+                  <input
+                    id="signup-email"
+                    type="email"
+                    placeholder="Enter your email"
+                    className="form-input"
+                    value={signUpData.email}
+                    onChange={(e) => setSignUpData({ ...signUpData, email: e.target.value })}
+                    required
+                  />
+                </div>
 
-            <div className="form-group">
-              <label htmlFor="signup-password" className="form-label">Password</label>
-              <input
-                id="signup-password"
-                type="password"
-                placeholder="Create a password"
-                className="form-input"
-                value={signUpData.password}
-                onChange={(e) => setSignUpData({ ...signUpData, password: e.target.value })}
-                required
-              />
-            </div>
+                <div className="form-group">
+                  <label htmlFor="signup-password" className="form-label">Password</label>
+                  <input
+                    id="signup-password"
+                    type="password"
+                    placeholder="Create a password"
+                    className="form-input"
+                    value={signUpData.password}
+                    onChange={(e) => setSignUpData({ ...signUpData, password: e.target.value })}
+                    required
+                  />
+                </div>
+              </>
+            )}
 
             <div className="form-group">
               <label htmlFor="signup-phone" className="form-label">Phone</label>
               <input
                 id="signup-phone"
                 type="tel"
-                placeholder="Enter your phone number"
+                inputMode="numeric"
+                placeholder={signUpMethod === 'phone' ? '10-digit mobile number' : 'Enter your phone number'}
                 className="form-input"
                 value={signUpData.phone}
                 onChange={(e) => setSignUpData({ ...signUpData, phone: e.target.value })}
+                required={signUpMethod === 'phone'}
               />
             </div>
 
@@ -390,9 +623,16 @@ const Auth = () => {
               {loading ? (
                 <span className="btn-loading">
                   <span className="btn-spinner"></span>
-                  Creating account...
+                  {signUpMethod === 'phone' ? 'Sending code...' : 'Creating account...'}
                 </span>
-              ) : 'Create Account'}
+              ) : signUpMethod === 'phone' ? 'Send Code' : 'Create Account'}
+            </button>
+            <button
+              type="button"
+              className="auth-link-btn"
+              onClick={() => setSignUpMethod(signUpMethod === 'phone' ? 'email' : 'phone')}
+            >
+              {signUpMethod === 'phone' ? 'Sign up with email instead' : 'Sign up with phone instead'}
             </button>
           </form>
         )}
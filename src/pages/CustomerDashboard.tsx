@@ -1,93 +1,91 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/integrations/supabase/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { toast as notify } from 'sonner';
+import { formatJobDay, transitionErrorTitle, upsertJob } from '@/lib/jobs';
+import { cancelWithReason } from '@/lib/cancellations';
 import { LogOut, Star, MapPin, Users } from 'lucide-react';
+import MyBookings, { Booking } from '@/components/MyBookings';
+import MySeries, { CustomerSeries } from '@/components/MySeries';
+import BookingModal from '@/components/BookingModal';
+import ReviewList from '@/components/ReviewList';
+import MaidFilterBar from '@/components/MaidFilterBar';
+import NotificationBell from '@/components/NotificationBell';
+import AccountButton from '@/components/AccountButton';
+import ChatDrawer from '@/components/ChatDrawer';
+import RescheduleDialog from '@/components/RescheduleDialog';
+import RescheduleRequests from '@/components/RescheduleRequests';
+import { useUnreadMessages } from '@/hooks/use-unread-messages';
+import { useRescheduleProposals } from '@/hooks/use-reschedule-proposals';
+import { JobChange, useJobUpdates } from '@/hooks/use-job-updates';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { fetchMaidProfiles, initials, profileOrUnknown, PublicProfile } from '@/lib/profiles';
+import { fetchSeries } from '@/lib/series';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { MAIDS_PAGE_SIZE, MaidFilters, MaidListing, parseMaidFilters, searchMaids, toSearchParams } from '@/lib/maidSearch';
 import '../styles/customer-dashboard.css';
 
-interface Maid {
-  id: string;
-  user_id: string;
-  hourly_rate: number;
-  daily_rate: number;
-  monthly_rate: number;
-  location: string;
-  description: string;
-  rating: number;
-  completed_jobs: number;
-  profiles: {
-    full_name: string;
-  };
-}
-
-interface Job {
-  id: string;
-  job_date: string;
-  duration: string;
-  location: string;
-  job_type: string;
-  amount: number;
-  status: string;
-  maids: {
-    profiles: {
-      full_name: string;
-    };
-  };
-}
+type Job = Booking;
 
 const CustomerDashboard = () => {
-  const { user, signOut, loading: authLoading } = useAuth();
-  const navigate = useNavigate();
+  const { user, signOut } = useAuth();
   const { toast } = useToast();
-  const [maids, setMaids] = useState<Maid[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseMaidFilters(searchParams), [searchParams]);
+  const [maids, setMaids] = useState<MaidListing[]>([]);
+  const [totalMaids, setTotalMaids] = useState(0);
   const [jobs, setJobs] = useState<Job[]>([]);
-  const [selectedMaid, setSelectedMaid] = useState<Maid | null>(null);
+  const [series, setSeries] = useState<CustomerSeries[]>([]);
+  const [selectedMaid, setSelectedMaid] = useState<MaidListing | null>(null);
   const [bookingOpen, setBookingOpen] = useState(false);
+  const [openReviews, setOpenReviews] = useState<string | null>(null);
+  const [chatJob, setChatJob] = useState<Job | null>(null);
+  const { counts: unreadCounts, refresh: refreshUnread } = useUnreadMessages(user?.id);
+  const [rescheduleJob, setRescheduleJob] = useState<Job | null>(null);
+  const { proposals, refresh: refreshProposals } = useRescheduleProposals(user?.id);
   const [loading, setLoading] = useState(true);
-
-  const [bookingData, setBookingData] = useState({
-    date: '',
-    duration: '',
-    location: '',
-    jobType: 'hourly' as 'hourly' | 'daily' | 'monthly',
-  });
-
-  useEffect(() => {
-    if (!authLoading && !user) {
-      navigate('/auth');
-    }
-  }, [user, authLoading, navigate]);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  // Jobs this tab is cancelling, so their realtime echo is not announced as a decline
+  const cancellingRef = useRef(new Set<string>());
 
   useEffect(() => {
     if (user) {
-      fetchMaids();
       fetchJobs();
+      fetchMySeries();
     }
   }, [user]);
 
-  const fetchMaids = async () => {
+  const fetchMaids = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('maids')
-        .select(`
-          *,
-          profiles!inner(full_name)
-        `)
-        .order('rating', { ascending: false });
-
-      if (error) throw error;
-      setMaids(data as any || []);
-    } catch (error: any) {
+      const { maids, total } = await searchMaids(filters);
+      setMaids(maids);
+      setTotalMaids(total);
+    } catch (error) {
       toast({
         title: 'Error fetching maids',
-        description: error.message,
+        description: (error as Error).message,
         variant: 'destructive',
       });
     } finally {
       setLoading(false);
     }
-  };
+  }, [filters, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchMaids();
+    }
+  }, [user, fetchMaids]);
 
   const fetchJobs = async () => {
     if (!user) return;
@@ -97,15 +95,15 @@ const CustomerDashboard = () => {
         .from('jobs')
         .select(`
           *,
-          maids!inner(
-            profiles!inner(full_name)
-          )
+          reviews(rating)
         `)
         .eq('customer_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setJobs(data as any || []);
+
+      const profiles = await fetchMaidProfiles([...new Set(data.map((job) => job.maid_id))]);
+      setJobs(data.map((job) => ({ ...job, maid_profile: profileOrUnknown(profiles, job.maid_id) })));
     } catch (error: any) {
       toast({
         title: 'Error fetching jobs',
@@ -115,56 +113,54 @@ const CustomerDashboard = () => {
     }
   };
 
-  const handleBookMaid = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedMaid || !user) return;
-
-    const amount =
-      bookingData.jobType === 'hourly'
-        ? selectedMaid.hourly_rate
-        : bookingData.jobType === 'daily'
-        ? selectedMaid.daily_rate
-        : selectedMaid.monthly_rate;
+  const fetchMySeries = async () => {
+    if (!user) return;
 
     try {
-      const { error } = await supabase.from('jobs').insert({
-        customer_id: user.id,
-        maid_id: selectedMaid.id,
-        job_date: bookingData.date,
-        duration: bookingData.duration,
-        location: bookingData.location,
-        job_type: bookingData.jobType,
-        amount,
-        status: 'pending',
-      });
-
-      if (error) throw error;
-
+      const data = await fetchSeries('customer_id', user.id);
+      const profiles = await fetchMaidProfiles([...new Set(data.map((item) => item.maid_id))]);
+      setSeries(data.map((item) => ({ ...item, maid_profile: profileOrUnknown(profiles, item.maid_id) })));
+    } catch (error) {
       toast({
-        title: 'Booking successful!',
-        description: 'Your job request has been sent to the maid.',
+        title: 'Error fetching recurring bookings',
+        description: (error as Error).message,
+        variant: 'destructive',
       });
+    }
+  };
 
-      setBookingOpen(false);
-      setBookingData({ date: '', duration: '', location: '', jobType: 'hourly' });
+  const handleJobChange = ({ eventType, job }: JobChange) => {
+    const previous = jobsRef.current.find((j) => j.id === job.id);
+    // Bookings made in another tab need their maid's profile, so reload the list
+    if (eventType === 'INSERT' || !previous) {
       fetchJobs();
-    } catch (error: any) {
-      toast({
-        title: 'Booking failed',
-        description: error.message,
-        variant: 'destructive',
-      });
+      // Visits appear once the maid accepts a series, so its status has changed too
+      if (job.series_id) fetchMySeries();
+      return;
+    }
+
+    setJobs((current) => upsertJob(current, { ...previous, ...job }));
+
+    if (previous.status === job.status) return;
+    const name = previous.maid_profile.full_name;
+    const day = formatJobDay(job.job_date);
+    if (job.status === 'accepted') {
+      notify.success(`${name} accepted your booking for ${day}`);
+    } else if (job.status === 'cancelled' && job.expiry_reason) {
+      notify(`Your booking with ${name} for ${day} expired`);
+    } else if (job.status === 'cancelled' && previous.status === 'pending' && !cancellingRef.current.has(job.id)) {
+      notify(`${name} declined your booking for ${day}`);
+    } else if (job.status === 'completed') {
+      notify.success(`${name} completed your booking for ${day}`);
     }
   };
 
-  const cancelJob = async (jobId: string) => {
-    try {
-      const { error } = await supabase
-        .from('jobs')
-        .update({ status: 'cancelled' })
-        .eq('id', jobId);
+  useJobUpdates('customer_id', user?.id, handleJobChange, fetchJobs);
 
-      if (error) throw error;
+  const cancelJob = async (jobId: string, reason = '') => {
+    cancellingRef.current.add(jobId);
+    try {
+      await cancelWithReason('cancel_job', jobId, reason);
 
       toast({
         title: 'Job cancelled',
@@ -173,15 +169,30 @@ const CustomerDashboard = () => {
 
       fetchJobs();
     } catch (error: any) {
+      cancellingRef.current.delete(jobId);
       toast({
-        title: 'Error',
+        title: transitionErrorTitle(error),
         description: error.message,
         variant: 'destructive',
       });
     }
   };
 
-  if (authLoading || loading) {
+  const applyFilters = (next: MaidFilters) => {
+    setSearchParams(toSearchParams(next));
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalMaids / MAIDS_PAGE_SIZE));
+
+  const pageLink = (page: number) => ({
+    href: `?${toSearchParams({ ...filters, page })}`,
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault();
+      applyFilters({ ...filters, page });
+    },
+  });
+
+  if (loading) {
     return (
       <div className="loading-container">
         <div className="spinner"></div>
@@ -194,10 +205,14 @@ const CustomerDashboard = () => {
       <header className="dashboard-header">
         <div className="header-content">
           <h1 className="header-title">Maidly Customer</h1>
-          <button onClick={signOut} className="logout-btn">
-            <LogOut className="w-4 h-4" style={{ marginRight: '0.5rem', display: 'inline' }} />
-            Sign Out
-          </button>
+          <div className="header-actions">
+            <NotificationBell />
+            <AccountButton />
+            <button onClick={signOut} className="logout-btn">
+              <LogOut className="w-4 h-4" style={{ marginRight: '0.5rem', display: 'inline' }} />
+              Sign Out
+            </button>
+          </div>
         </div>
       </header>
 
@@ -207,21 +222,62 @@ const CustomerDashboard = () => {
           <p className="welcome-text">Browse and book trusted cleaning professionals in your area</p>
         </div>
 
+        <RescheduleRequests
+          proposals={proposals}
+          jobs={jobs}
+          otherPartyName={(jobId) => jobs.find((j) => j.id === jobId)?.maid_profile.full_name ?? 'Your maid'}
+          onCounter={(job) => setRescheduleJob(jobs.find((j) => j.id === job.id) ?? null)}
+          onChanged={() => {
+            refreshProposals();
+            fetchJobs();
+          }}
+        />
+
+        <MyBookings
+          jobs={jobs}
+          onCancel={cancelJob}
+          onReviewed={() => {
+            fetchJobs();
+            fetchMaids();
+          }}
+          unreadCounts={unreadCounts}
+          onOpenChat={setChatJob}
+          onReschedule={setRescheduleJob}
+          onPaid={fetchJobs}
+        />
+
+        {series.length > 0 && (
+          <MySeries
+            series={series}
+            jobs={jobs}
+            onSkip={cancelJob}
+            onChanged={() => {
+              fetchJobs();
+              fetchMySeries();
+            }}
+          />
+        )}
+
         <section>
           <h2 className="section-title">Available Maids</h2>
+          <MaidFilterBar filters={filters} onChange={applyFilters} />
           {maids.length === 0 ? (
             <div className="empty-state">
               <Users className="empty-icon" />
-              <h3 className="empty-title">No maids available</h3>
-              <p className="empty-text">Check back later for available professionals</p>
+              <h3 className="empty-title">No maids found</h3>
+              <p className="empty-text">Try widening your search or check back later</p>
             </div>
           ) : (
             <div className="maids-grid">
               {maids.map((maid) => (
                 <article key={maid.id} className="maid-card">
                   <div className="maid-header">
+                    <Avatar className="maid-avatar">
+                      {maid.profile.avatar_url && <AvatarImage src={maid.profile.avatar_url} alt={maid.profile.full_name} />}
+                      <AvatarFallback>{initials(maid.profile.full_name)}</AvatarFallback>
+                    </Avatar>
                     <div className="maid-info">
-                      <h3 className="maid-name">{maid.profiles.full_name}</h3>
+                      <h3 className="maid-name">{maid.profile.full_name}</h3>
                       <div className="maid-location">
                         <MapPin style={{ width: '1rem', height: '1rem', display: 'inline', verticalAlign: 'middle', marginRight: '0.25rem' }} />
                         {maid.location}
@@ -229,7 +285,7 @@ const CustomerDashboard = () => {
                     </div>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
                       <Star style={{ width: '1rem', height: '1rem', fill: 'hsl(var(--primary))', color: 'hsl(var(--primary))' }} />
-                      <span>{maid.rating.toFixed(1)}</span>
+                      <span>{(maid.rating ?? 0).toFixed(1)}</span>
                     </div>
                   </div>
 
@@ -256,9 +312,17 @@ const CustomerDashboard = () => {
                   </div>
 
                   <div style={{ fontSize: '0.875rem', textAlign: 'center', color: 'hsl(var(--muted-foreground))', marginBottom: '0.75rem' }}>
-                    {maid.completed_jobs} jobs completed
+                    {maid.completed_jobs ?? 0} jobs completed · {Number(maid.reliability_score).toFixed(0)}% reliability
                   </div>
 
+                  <button
+                    className="reviews-toggle"
+                    onClick={() => setOpenReviews(openReviews === maid.id ? null : maid.id)}
+                  >
+                    {openReviews === maid.id ? 'Hide reviews' : 'Show reviews'}
+                  </button>
+                  {openReviews === maid.id && <ReviewList maidId={maid.id} />}
+
                   <button
                     className="contact-btn"
                     onClick={() => {
@@ -272,113 +336,62 @@ const CustomerDashboard = () => {
               ))}
             </div>
           )}
+          {pageCount > 1 && (
+            <Pagination className="maids-pagination">
+              <PaginationContent>
+                {filters.page > 1 && (
+                  <PaginationItem>
+                    <PaginationPrevious {...pageLink(filters.page - 1)} />
+                  </PaginationItem>
+                )}
+                {Array.from({ length: pageCount }, (_, i) => i + 1).map((page) => (
+                  <PaginationItem key={page}>
+                    <PaginationLink isActive={page === filters.page} {...pageLink(page)}>
+                      {page}
+                    </PaginationLink>
+                  </PaginationItem>
+                ))}
+                {filters.page < pageCount && (
+                  <PaginationItem>
+                    <PaginationNext {...pageLink(filters.page + 1)} />
+                  </PaginationItem>
+                )}
+              </PaginationContent>
+            </Pagination>
+          )}
         </section>
       </main>
 
       {bookingOpen && selectedMaid && (
-        <div
-          style={{
-            position: 'fixed',
-            inset: 0,
-            backgroundColor: 'rgba(0, 0, 0, 0.5)',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            zIndex: 50,
-            padding: '1rem',
+        <BookingModal
+          maid={selectedMaid}
+          onClose={() => setBookingOpen(false)}
+          onBooked={() => {
+            setBookingOpen(false);
+            fetchJobs();
+            fetchMySeries();
           }}
-          onClick={() => setBookingOpen(false)}
-        >
-          <div
-            style={{
-              background: 'hsl(var(--card))',
-              borderRadius: '0.75rem',
-              padding: '1.5rem',
-              maxWidth: '28rem',
-              width: '100%',
-              boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.1)',
-            }}
-            onClick={(e) => e.stopPropagation()}
-          >
-            <h3 style={{ fontSize: '1.25rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>
-              Book {selectedMaid.profiles.full_name}
-            </h3>
-            <p style={{ color: 'hsl(var(--muted-foreground))', marginBottom: '1rem' }}>
-              Fill in the details for your booking
-            </p>
-            <form onSubmit={handleBookMaid} className="auth-form">
-              <div className="form-group">
-                <label htmlFor="date" className="form-label">Date</label>
-                <input
-                  id="date"
-                  type="date"
-                  className="form-input"
-                  value={bookingData.date}
-                  onChange={(e) => setBookingData({ ...bookingData, date: e.target.value })}
-                  required
-                />
-              </div>
-              <div className="form-group">
-                <label htmlFor="job-type" className="form-label">Job Type</label>
-                <select
-                  id="job-type"
-                  className="form-input"
-                  value={bookingData.jobType}
-                  onChange={(e) => setBookingData({ ...bookingData, jobType: e.target.value as any })}
-                  required
-                >
-                  <option value="hourly">Hourly (₹{selectedMaid.hourly_rate})</option>
-                  <option value="daily">Daily (₹{selectedMaid.daily_rate})</option>
-                  <option value="monthly">Monthly (₹{selectedMaid.monthly_rate})</option>
-                </select>
-              </div>
-              <div className="form-group">
-                <label htmlFor="duration" className="form-label">Duration</label>
-                <input
-                  id="duration"
-                  type="text"
-                  placeholder="e.g., 2 hours, 1 day, 1 month"
-                  className="form-input"
-                  value={bookingData.duration}
-                  onChange={(e) => setBookingData({ ...bookingData, duration: e.target.value })}
-                  required
-                />
-              </div>
-              <div className="form-group">
-                <label htmlFor="location" className="form-label">Location</label>
-                <input
-                  id="location"
-                  type="text"
-                  placeholder="Enter service location"
-                  className="form-input"
-                  value={bookingData.location}
-                  onChange={(e) => setBookingData({ ...bookingData, location: e.target.value })}
-                  required
-                />
-              </div>
-              <div style={{ display: 'flex', gap: '0.5rem' }}>
-                <button
-                  type="button"
-                  onClick={() => setBookingOpen(false)}
-                  style={{
-                    flex: 1,
-                    padding: '0.75rem',
-                    border: '1px solid hsl(var(--border))',
-                    borderRadius: '0.375rem',
-                    background: 'transparent',
-                    cursor: 'pointer',
-                  }}
-                >
-                  Cancel
-                </button>
-                <button type="submit" className="submit-btn" style={{ flex: 1 }}>
-                  Confirm Booking
-                </button>
-              </div>
-            </form>
-          </div>
-        </div>
+        />
       )}
+
+      <RescheduleDialog
+        job={rescheduleJob}
+        otherPartyName={rescheduleJob?.maid_profile.full_name ?? ''}
+        proposals={proposals}
+        onClose={() => {
+          setRescheduleJob(null);
+          refreshProposals();
+        }}
+      />
+
+      <ChatDrawer
+        job={chatJob}
+        otherPartyName={chatJob?.maid_profile.full_name ?? ''}
+        onClose={() => {
+          setChatJob(null);
+          refreshUnread();
+        }}
+      />
     </div>
   );
 };
@@ -1,6 +1,8 @@
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/integrations/supabase/auth';
+import { dashboardPathFor } from '@/lib/roles';
+import ChooseRole from '@/components/ChooseRole';
 import { Sparkles, Users, Star, Shield } from 'lucide-react';
 import '../styles/landing.css';
 
@@ -10,11 +12,7 @@ const Index = () => {
 
   useEffect(() => {
     if (!loading && user && userRole) {
-      if (userRole === 'maid') {
-        navigate('/maid-dashboard');
-      } else if (userRole === 'customer') {
-        navigate('/customer-dashboard');
-      }
+      navigate(dashboardPathFor(userRole));
     }
   }, [user, userRole, loading, navigate]);
 
@@ -45,22 +43,26 @@ const Index = () => {
         </div>
       </header>
 
-      <section className="hero-section">
-        <h1 className="hero-title">
-          Welcome to Maidly
-        </h1>
-        <p className="hero-subtitle">
-          Your trusted platform for connecting with professional maid services
-        </p>
-        <div className="hero-buttons">
-          <a href="#" onClick={(e) => { e.preventDefault(); navigate('/auth'); }} className="btn btn-primary">
-            Get Started
-          </a>
-          <a href="#" onClick={(e) => { e.preventDefault(); navigate('/auth'); }} className="btn btn-outline">
-            Sign In
-          </a>
-        </div>
-      </section>
+      {user && !userRole ? (
+        <ChooseRole />
+      ) : (
+        <section className="hero-section">
+          <h1 className="hero-title">
+            Welcome to Maidly
+          </h1>
+          <p className="hero-subtitle">
+            Your trusted platform for connecting with professional maid services
+          </p>
+          <div className="hero-buttons">
+            <a href="#" onClick={(e) => { e.preventDefault(); navigate('/auth'); }} className="btn btn-primary">
+              Get Started
+            </a>
+            <a href="#" onClick={(e) => { e.preventDefault(); navigate('/auth'); }} className="btn btn-outline">
+              Sign In
+            </a>
+          </div>
+        </section>
+      )}
 
       <section className="features-section">
         <h2 className="section-title">Why Choose Maidly?</h2>
@@ -1,37 +1,69 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
 import { useAuth } from '@/integrations/supabase/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { LogOut, Briefcase, IndianRupee, Clock } from 'lucide-react';
+import { toast as notify } from 'sonner';
+import { formatJobDay, transitionJob, transitionErrorTitle, upsertJob } from '@/lib/jobs';
+import { formatJobDuration } from '@/lib/bookings';
+import { fetchJobCustomerProfiles, profileOrUnknown, PublicProfile } from '@/lib/profiles';
+import { cancellationSummary, cancelWithReason } from '@/lib/cancellations';
+import { fetchMaidPayouts, isPaymentSecured } from '@/lib/payments';
+import AvailabilityEditor from '@/components/AvailabilityEditor';
+import SeriesRequests from '@/components/SeriesRequests';
+import EarningsPanel from '@/components/EarningsPanel';
+import MaidOnboarding from '@/components/MaidOnboarding';
+import CancelJobDialog from '@/components/CancelJobDialog';
+import ReviewList from '@/components/ReviewList';
+import NotificationBell from '@/components/NotificationBell';
+import AccountButton from '@/components/AccountButton';
+import ChatDrawer, { ChatButton } from '@/components/ChatDrawer';
+import RescheduleDialog, { RescheduleButton } from '@/components/RescheduleDialog';
+import RescheduleRequests from '@/components/RescheduleRequests';
+import { useUnreadMessages } from '@/hooks/use-unread-messages';
+import { useRescheduleProposals } from '@/hooks/use-reschedule-proposals';
+import { JobChange, useJobUpdates } from '@/hooks/use-job-updates';
+import { LogOut, Briefcase, IndianRupee, Clock, CalendarDays, MapPin, CheckCircle2, Star, AlertTriangle, Repeat, ShieldCheck, CreditCard } from 'lucide-react';
 import '../styles/maid-dashboard.css';
 
 interface Job {
   id: string;
   job_date: string;
-  duration: string;
+  duration_quantity: number;
+  start_time: string | null;
+  closed_at: string | null;
   location: string;
   job_type: string;
   amount: number;
   status: string;
-  profiles: {
-    full_name: string;
-  };
+  expiry_reason: string | null;
+  completion_flagged_at: string | null;
+  series_id: string | null;
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+  payment_status: string;
+  customer: PublicProfile;
 }
 
 const MaidDashboard = () => {
-  const { user, signOut, loading: authLoading } = useAuth();
-  const navigate = useNavigate();
+  const { user, signOut } = useAuth();
   const { toast } = useToast();
   const [jobs, setJobs] = useState<Job[]>([]);
   const [maidProfile, setMaidProfile] = useState<any>(null);
+  // The account has the maid role but its maid row was never created
+  const [needsOnboarding, setNeedsOnboarding] = useState(false);
   const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!authLoading && !user) {
-      navigate('/auth');
-    }
-  }, [user, authLoading, navigate]);
+  const [chatJob, setChatJob] = useState<Job | null>(null);
+  const { counts: unreadCounts, refresh: refreshUnread } = useUnreadMessages(user?.id);
+  const [rescheduleJob, setRescheduleJob] = useState<Job | null>(null);
+  const [jobToReject, setJobToReject] = useState<Job | null>(null);
+  const [payouts, setPayouts] = useState(0);
+  const { proposals, refresh: refreshProposals } = useRescheduleProposals(user?.id);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  // Jobs this tab is rejecting, so their realtime echo is not announced as a customer cancellation
+  const rejectingRef = useRef(new Set<string>());
 
   useEffect(() => {
     if (user) {
@@ -48,10 +80,14 @@ const MaidDashboard = () => {
         .from('maids')
         .select('*')
         .eq('user_id', user.id)
-        .single();
+        .maybeSingle();
 
       if (error) throw error;
+      setNeedsOnboarding(!data);
+      if (!data) return;
+
       setMaidProfile(data);
+      fetchPayouts(data.id);
     } catch (error: any) {
       console.error('Error fetching maid profile:', error);
     } finally {
@@ -59,6 +95,14 @@ const MaidDashboard = () => {
     }
   };
 
+  const fetchPayouts = async (maidId: string) => {
+    try {
+      setPayouts(await fetchMaidPayouts(maidId));
+    } catch (error) {
+      console.error('Error fetching payouts:', error);
+    }
+  };
+
   const fetchJobs = async () => {
     if (!user) return;
 
@@ -74,15 +118,14 @@ const MaidDashboard = () => {
 
       const { data, error } = await supabase
         .from('jobs')
-        .select(`
-          *,
-          profiles!customer_id(full_name)
-        `)
+        .select('*')
         .eq('maid_id', maidData.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setJobs(data as any || []);
+
+      const customers = await fetchJobCustomerProfiles(data.map((job) => job.id));
+      setJobs(data.map((job) => ({ ...job, customer: profileOrUnknown(customers, job.id) })));
     } catch (error: any) {
       toast({
         title: 'Error fetching jobs',
@@ -92,14 +135,41 @@ const MaidDashboard = () => {
     }
   };
 
+  const handleJobChange = async ({ eventType, job }: JobChange) => {
+    const previous = jobsRef.current.find((j) => j.id === job.id);
+
+    if (eventType === 'INSERT' || !previous) {
+      try {
+        const customer = profileOrUnknown(await fetchJobCustomerProfiles([job.id]), job.id);
+        setJobs((current) => upsertJob(current, { ...job, customer }));
+        if (job.status === 'pending') {
+          notify(`New booking request from ${customer.full_name} for ${formatJobDay(job.job_date)}`);
+        }
+      } catch (error) {
+        console.error('Error fetching customer profile:', error);
+        fetchJobs();
+      }
+      return;
+    }
+
+    setJobs((current) => upsertJob(current, { ...previous, ...job }));
+
+    // Settlement writes the payout to the ledger when the payment is captured
+    if (previous.payment_status !== job.payment_status) fetchPayouts(job.maid_id);
+
+    if (previous.status === job.status || job.status !== 'cancelled' || rejectingRef.current.has(job.id)) return;
+    if (job.expiry_reason) {
+      notify(`The request from ${previous.customer.full_name} for ${formatJobDay(job.job_date)} expired`);
+    } else {
+      notify(`${previous.customer.full_name} cancelled the booking for ${formatJobDay(job.job_date)}`);
+    }
+  };
+
+  useJobUpdates('maid_id', maidProfile?.id, handleJobChange, fetchJobs);
+
   const acceptJob = async (jobId: string) => {
     try {
-      const { error } = await supabase
-        .from('jobs')
-        .update({ status: 'accepted' })
-        .eq('id', jobId);
-
-      if (error) throw error;
+      await transitionJob('accept_job', jobId);
 
       toast({
         title: 'Job accepted!',
@@ -110,31 +180,29 @@ const MaidDashboard = () => {
       fetchMaidProfile();
     } catch (error: any) {
       toast({
-        title: 'Error',
+        title: transitionErrorTitle(error),
         description: error.message,
         variant: 'destructive',
       });
     }
   };
 
-  const rejectJob = async (jobId: string) => {
+  const rejectJob = async (job: Job, reason: string) => {
+    rejectingRef.current.add(job.id);
     try {
-      const { error } = await supabase
-        .from('jobs')
-        .update({ status: 'cancelled' })
-        .eq('id', jobId);
-
-      if (error) throw error;
+      await cancelWithReason('reject_job', job.id, reason);
 
       toast({
-        title: 'Job rejected',
-        description: 'The job has been declined.',
+        title: job.status === 'pending' ? 'Job rejected' : 'Job cancelled',
+        description: job.status === 'pending' ? 'The job has been declined.' : 'The customer has been told you can\'t make it.',
       });
 
       fetchJobs();
+      fetchMaidProfile();
     } catch (error: any) {
+      rejectingRef.current.delete(job.id);
       toast({
-        title: 'Error',
+        title: transitionErrorTitle(error),
         description: error.message,
         variant: 'destructive',
       });
@@ -143,20 +211,7 @@ const MaidDashboard = () => {
 
   const completeJob = async (jobId: string) => {
     try {
-      const { error } = await supabase
-        .from('jobs')
-        .update({ status: 'completed' })
-        .eq('id', jobId);
-
-      if (error) throw error;
-
-      // Update maid's completed jobs count
-      if (maidProfile) {
-        await supabase
-          .from('maids')
-          .update({ completed_jobs: maidProfile.completed_jobs + 1 })
-          .eq('id', maidProfile.id);
-      }
+      await transitionJob('complete_job', jobId);
 
       toast({
         title: 'Job completed!',
@@ -167,14 +222,14 @@ const MaidDashboard = () => {
       fetchMaidProfile();
     } catch (error: any) {
       toast({
-        title: 'Error',
+        title: transitionErrorTitle(error),
         description: error.message,
         variant: 'destructive',
       });
     }
   };
 
-  if (authLoading || loading) {
+  if (loading) {
     return (
       <div className="loading-container">
         <div className="spinner"></div>
@@ -182,23 +237,40 @@ const MaidDashboard = () => {
     );
   }
 
-  const pendingJobs = jobs.filter((j) => j.status === 'pending');
+  // Past-dated requests are about to be expired by the scheduler; don't offer them
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const pendingJobs = jobs.filter((j) => j.status === 'pending' && j.job_date >= today);
+  const acceptedJobs = jobs
+    .filter((j) => j.status === 'accepted')
+    .sort((a, b) => a.job_date.localeCompare(b.job_date));
   const completedJobs = jobs.filter((j) => j.status === 'completed');
-  const totalEarnings = completedJobs.reduce((sum, job) => sum + Number(job.amount), 0);
+  const historyJobs = jobs
+    .filter((j) => j.status === 'completed' || j.status === 'cancelled')
+    .sort((a, b) => b.job_date.localeCompare(a.job_date));
+  // Ledger payouts, plus jobs the customer paid directly (booked before online payments)
+  const totalEarnings =
+    payouts +
+    completedJobs.filter((job) => job.payment_status === 'waived').reduce((sum, job) => sum + Number(job.amount), 0);
 
   return (
     <div className="dashboard-container">
       <header className="dashboard-header">
         <div className="header-content">
           <h1 className="header-title">Maidly Maid</h1>
-          <button onClick={signOut} className="logout-btn">
-            <LogOut style={{ width: '1rem', height: '1rem', marginRight: '0.5rem', display: 'inline' }} />
-            Sign Out
-          </button>
+          <div className="header-actions">
+            <NotificationBell />
+            <AccountButton />
+            <button onClick={signOut} className="logout-btn">
+              <LogOut style={{ width: '1rem', height: '1rem', marginRight: '0.5rem', display: 'inline' }} />
+              Sign Out
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="dashboard-main">
+        {needsOnboarding && <MaidOnboarding onComplete={fetchMaidProfile} />}
+
         <section className="welcome-section">
           <h2 className="welcome-title">Welcome, {maidProfile?.location ? `Maid from ${maidProfile.location}` : 'Maid'}!</h2>
           <p className="welcome-text">Manage your jobs and track your earnings</p>
@@ -223,6 +295,11 @@ const MaidDashboard = () => {
               </div>
             </div>
           )}
+          {maidProfile && (
+            <Link to="/profile" className="profile-edit-link">
+              Edit rates and profile
+            </Link>
+          )}
         </section>
 
         <section className="stats-section">
@@ -235,9 +312,19 @@ const MaidDashboard = () => {
             </article>
             <article className="stat-card">
               <Briefcase className="stat-icon" />
-              <div className="stat-value">{completedJobs.length}</div>
+              <div className="stat-value">{maidProfile?.completed_jobs ?? completedJobs.length}</div>
               <div className="stat-label">Completed Jobs</div>
             </article>
+            <article className="stat-card">
+              <Star className="stat-icon" />
+              <div className="stat-value">{Number(maidProfile?.rating ?? 0).toFixed(1)}</div>
+              <div className="stat-label">Average Rating</div>
+            </article>
+            <article className="stat-card">
+              <ShieldCheck className="stat-icon" />
+              <div className="stat-value">{Number(maidProfile?.reliability_score ?? 100).toFixed(0)}%</div>
+              <div className="stat-label">Reliability</div>
+            </article>
             <article className="stat-card">
               <Clock className="stat-icon" />
               <div className="stat-value">{pendingJobs.length}</div>
@@ -246,6 +333,8 @@ const MaidDashboard = () => {
           </div>
         </section>
 
+        {maidProfile && <EarningsPanel maidId={maidProfile.id} refreshKey={payouts} />}
+
         <section className="tips-section">
           <h3 className="tips-title">Tips for Success</h3>
           <ul className="tips-list">
@@ -256,6 +345,17 @@ const MaidDashboard = () => {
           </ul>
         </section>
 
+        <RescheduleRequests
+          proposals={proposals}
+          jobs={jobs}
+          otherPartyName={(jobId) => jobs.find((j) => j.id === jobId)?.customer.full_name ?? 'The customer'}
+          onCounter={(job) => setRescheduleJob(jobs.find((j) => j.id === job.id) ?? null)}
+          onChanged={() => {
+            refreshProposals();
+            fetchJobs();
+          }}
+        />
+
         {pendingJobs.length > 0 && (
           <section style={{ marginTop: '2rem' }}>
             <h2 className="section-title">Pending Job Requests ({pendingJobs.length})</h2>
@@ -275,10 +375,10 @@ const MaidDashboard = () => {
                       New Job Request
                     </h3>
                     <p style={{ color: 'hsl(var(--muted-foreground))', fontSize: '0.875rem' }}>
-                      Customer: {job.profiles.full_name}
+                      Customer: {job.customer.full_name}
                     </p>
                     <p style={{ color: 'hsl(var(--muted-foreground))', fontSize: '0.875rem', marginTop: '0.25rem' }}>
-                      Date: {new Date(job.job_date).toLocaleDateString()} | Duration: {job.duration}
+                      Date: {new Date(job.job_date).toLocaleDateString()} | Duration: {formatJobDuration(job)}
                     </p>
                   </div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -286,8 +386,10 @@ const MaidDashboard = () => {
                       ₹{job.amount} <span style={{ fontSize: '0.875rem', fontWeight: 'normal', color: 'hsl(var(--muted-foreground))' }}>({job.job_type})</span>
                     </div>
                     <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <ChatButton unread={unreadCounts[job.id] ?? 0} onClick={() => setChatJob(job)} />
+                      <RescheduleButton onClick={() => setRescheduleJob(job)} />
                       <button
-                        onClick={() => rejectJob(job.id)}
+                        onClick={() => setJobToReject(job)}
                         style={{
                           padding: '0.5rem 1rem',
                           border: '1px solid hsl(var(--border))',
@@ -298,21 +400,176 @@ const MaidDashboard = () => {
                       >
                         Reject
                       </button>
-                      <button
-                        onClick={() => acceptJob(job.id)}
-                        className="submit-btn"
-                        style={{ padding: '0.5rem 1rem' }}
-                      >
-                        Accept
+                      {isPaymentSecured(job.payment_status) ? (
+                        <button
+                          onClick={() => acceptJob(job.id)}
+                          className="submit-btn"
+                          style={{ padding: '0.5rem 1rem' }}
+                        >
+                          Accept
+                        </button>
+                      ) : (
+                        <span className="job-awaiting-payment">Awaiting payment</span>
+                      )}
+                    </div>
+                  </div>
+                </article>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {maidProfile && <SeriesRequests maidId={maidProfile.id} onChanged={fetchJobs} />}
+
+        <section style={{ marginTop: '2rem' }}>
+          <h2 className="section-title">Upcoming / In Progress ({acceptedJobs.length})</h2>
+          {acceptedJobs.length === 0 ? (
+            <div className="empty-jobs">
+              <CalendarDays className="empty-jobs-icon" />
+              <p>No accepted jobs yet. Accept a request to see it here.</p>
+            </div>
+          ) : (
+            <div className="job-list">
+              {acceptedJobs.map((job) => (
+                <article key={job.id} className="job-card">
+                  <div className="job-card-info">
+                    <h3 className="job-card-title">
+                      {job.customer.full_name}
+                      {job.completion_flagged_at && (
+                        <span className="job-overdue" title="This job has ended but is not marked complete">
+                          <AlertTriangle className="job-card-icon" />
+                          Not marked complete
+                        </span>
+                      )}
+                    </h3>
+                    <div className="job-card-meta">
+                      <span>
+                        <CalendarDays className="job-card-icon" />
+                        {new Date(job.job_date).toLocaleDateString()}
+                      </span>
+                      <span>
+                        <Clock className="job-card-icon" />
+                        {formatJobDuration(job)}
+                      </span>
+                      <span>
+                        <MapPin className="job-card-icon" />
+                        {job.location}
+                      </span>
+                      {job.series_id && (
+                        <span>
+                          <Repeat className="job-card-icon" />
+                          Recurring
+                        </span>
+                      )}
+                      {/* Recurring visits are paid for after they are booked, and cancelled if they aren't */}
+                      {job.payment_status === 'unpaid' && (
+                        <span>
+                          <CreditCard className="job-card-icon" />
+                          Awaiting payment
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="job-card-side">
+                    <div className="job-card-amount">
+                      ₹{job.amount} <span className="job-card-type">({job.job_type})</span>
+                    </div>
+                    <div className="job-card-actions">
+                      <ChatButton unread={unreadCounts[job.id] ?? 0} onClick={() => setChatJob(job)} />
+                      <RescheduleButton onClick={() => setRescheduleJob(job)} />
+                      <button className="job-back-out-btn" onClick={() => setJobToReject(job)}>
+                        Can't Make It
+                      </button>
+                      <button onClick={() => completeJob(job.id)} className="submit-btn" style={{ padding: '0.5rem 1rem' }}>
+                        <CheckCircle2 style={{ width: '1rem', height: '1rem', marginRight: '0.5rem', display: 'inline' }} />
+                        Mark Complete
                       </button>
                     </div>
                   </div>
                 </article>
               ))}
             </div>
+          )}
+        </section>
+
+        {historyJobs.length > 0 && (
+          <section style={{ marginTop: '2rem' }}>
+            <h2 className="section-title">Job History</h2>
+            <div className="job-list">
+              {historyJobs.map((job) => (
+                <article key={job.id} className="job-card">
+                  <div className="job-card-info">
+                    <h3 className="job-card-title">{job.customer.full_name}</h3>
+                    {job.status === 'cancelled' && cancellationSummary(job, 'maid') && (
+                      <p className="job-cancellation">{cancellationSummary(job, 'maid')}</p>
+                    )}
+                    <div className="job-card-meta">
+                      <span>
+                        <CalendarDays className="job-card-icon" />
+                        {new Date(job.job_date).toLocaleDateString()}
+                      </span>
+                      <span>
+                        <Clock className="job-card-icon" />
+                        {formatJobDuration(job)}
+                      </span>
+                      <span>
+                        <MapPin className="job-card-icon" />
+                        {job.location}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="job-card-side">
+                    <div className="job-card-amount">₹{job.amount}</div>
+                    <span className={`job-status job-status-${job.status}`}>
+                      {job.expiry_reason ? 'expired' : job.status}
+                    </span>
+                    <ChatButton unread={unreadCounts[job.id] ?? 0} onClick={() => setChatJob(job)} />
+                  </div>
+                </article>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {maidProfile && <AvailabilityEditor maidId={maidProfile.id} />}
+
+        {maidProfile && (
+          <section className="reviews-section">
+            <h2 className="section-title">Customer Reviews</h2>
+            <ReviewList maidId={maidProfile.id} canReply />
           </section>
         )}
       </main>
+
+      <CancelJobDialog
+        job={jobToReject}
+        role="maid"
+        otherPartyName={jobToReject?.customer.full_name ?? 'The customer'}
+        onClose={() => setJobToReject(null)}
+        onConfirm={(job, reason) => {
+          const target = jobs.find((j) => j.id === job.id);
+          if (target) rejectJob(target, reason);
+        }}
+      />
+
+      <RescheduleDialog
+        job={rescheduleJob}
+        otherPartyName={rescheduleJob?.customer.full_name ?? ''}
+        proposals={proposals}
+        onClose={() => {
+          setRescheduleJob(null);
+          refreshProposals();
+        }}
+      />
+
+      <ChatDrawer
+        job={chatJob}
+        otherPartyName={chatJob?.customer.full_name ?? ''}
+        onClose={() => {
+          setChatJob(null);
+          refreshUnread();
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,50 @@
+import { Link } from 'react-router-dom';
+import { ArrowLeft, LogOut } from 'lucide-react';
+import { useAuth } from '@/integrations/supabase/auth';
+import { dashboardPathFor } from '@/lib/roles';
+import ProfileDetailsForm from '@/components/ProfileDetailsForm';
+import MaidDetailsForm from '@/components/MaidDetailsForm';
+import SettingsNav from '@/components/SettingsNav';
+import '../styles/account.css';
+
+const Profile = () => {
+  const { user, userRole, signOut } = useAuth();
+
+  return (
+    <div className="account-container">
+      <header className="account-header">
+        <div className="account-header-content">
+          <Link to={dashboardPathFor(userRole)} className="account-back">
+            <ArrowLeft style={{ width: '1rem', height: '1rem' }} />
+            Back to dashboard
+          </Link>
+          <button onClick={signOut} className="logout-btn">
+            <LogOut style={{ width: '1rem', height: '1rem', marginRight: '0.5rem', display: 'inline' }} />
+            Sign Out
+          </button>
+        </div>
+      </header>
+
+      <main className="account-main">
+        <h1 className="account-title">Profile</h1>
+        <SettingsNav />
+
+        {user && (
+          <section className="account-card">
+            <h2 className="account-card-title">Personal details</h2>
+            <ProfileDetailsForm userId={user.id} />
+          </section>
+        )}
+
+        {user && userRole === 'maid' && (
+          <section className="account-card">
+            <h2 className="account-card-title">Services &amp; rates</h2>
+            <MaidDetailsForm userId={user.id} />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { KeyRound } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/integrations/supabase/auth';
+import { newPasswordSchema } from '@/lib/authSchemas';
+import { dashboardPathFor } from '@/lib/roles';
+import { useToast } from '@/hooks/use-toast';
+import '../styles/auth.css';
+
+const ResetPassword = () => {
+  const { userRole, loading: authLoading, passwordRecovery, endPasswordRecovery } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [passwords, setPasswords] = useState({ password: '', confirmPassword: '' });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = newPasswordSchema.safeParse(passwords);
+    if (!validation.success) {
+      toast({
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password: validation.data.password });
+
+      if (error) throw error;
+
+      endPasswordRecovery();
+      toast({
+        title: 'Password updated',
+        description: 'You are now signed in with your new password.',
+      });
+      navigate(dashboardPathFor(userRole), { replace: true });
+    } catch (error) {
+      toast({
+        title: 'Could not update password',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="loading-container">
+        <div className="spinner"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="auth-container">
+      <div className="auth-card">
+        <div className="auth-header">
+          <div className="auth-logo">
+            <KeyRound className="auth-logo-icon" />
+          </div>
+          <h1 className="auth-title">Reset Password</h1>
+          <p className="auth-subtitle">
+            {passwordRecovery ? 'Choose a new password for your account' : 'This reset link is invalid or has expired'}
+          </p>
+        </div>
+
+        {passwordRecovery ? (
+          <form onSubmit={handleSubmit} className="auth-form">
+            <div className="form-group">
+              <label htmlFor="new-password" className="form-label">New Password</label>
+              <input
+                id="new-password"
+                type="password"
+                placeholder="At least 8 characters"
+                className="form-input"
+                autoComplete="new-password"
+                value={passwords.password}
+                onChange={(e) => setPasswords({ ...passwords, password: e.target.value })}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="confirm-password" className="form-label">Confirm Password</label>
+              <input
+                id="confirm-password"
+                type="password"
+                placeholder="Repeat the new password"
+                className="form-input"
+                autoComplete="new-password"
+                value={passwords.confirmPassword}
+                onChange={(e) => setPasswords({ ...passwords, confirmPassword: e.target.value })}
+                required
+              />
+            </div>
+            <button type="submit" className="submit-btn" disabled={loading}>
+              {loading ? (
+                <span className="btn-loading">
+                  <span className="btn-spinner"></span>
+                  Saving...
+                </span>
+              ) : 'Set New Password'}
+            </button>
+          </form>
+        ) : (
+          <div className="auth-form">
+            <p className="auth-hint">Request a new link from the sign in page and open it from the latest email.</p>
+            <Link to="/auth" className="submit-btn" style={{ textAlign: 'center' }}>
+              Back to Sign In
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,248 @@
+// Payment gateways behind one interface. Amounts are in rupees everywhere else in the
+// app; the adapters convert to the gateway's minor units.
+
+export type PaymentProviderName = 'fake' | 'razorpay';
+
+export type PaymentEventType = 'authorized' | 'captured' | 'refunded' | 'voided' | 'failed';
+
+export interface PaymentOrder {
+  orderId: string;
+  // Handed to the browser to open the gateway's checkout
+  checkout: Record<string, unknown>;
+}
+
+export interface CheckoutResult {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+// Arguments for public.record_payment_event
+export interface PaymentEvent {
+  orderId: string;
+  event: PaymentEventType;
+  paymentId?: string;
+  amount?: number;
+  reference?: string;
+  reason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createOrder(receipt: string, amount: number, currency: string): Promise<PaymentOrder>;
+  // True when the browser's checkout callback really came from the gateway
+  verifyCheckout(result: CheckoutResult): Promise<boolean>;
+  // Throws when the signature does not match; null for events we don't track
+  parseWebhook(body: string, headers: Headers): Promise<PaymentEvent | null>;
+  // Also resolves when an earlier attempt already captured the payment, so a settlement
+  // run that failed after capturing can be retried
+  capture(paymentId: string, amount: number, currency: string): Promise<void>;
+  // Drops an authorisation without charging the customer
+  release(paymentId: string): Promise<void>;
+  // Resolves with the gateway's refund id. Calls with the same idempotency key return the
+  // refund the first call created instead of refunding twice.
+  refund(paymentId: string, amount: number, idempotencyKey: string): Promise<string>;
+}
+
+export class WebhookSignatureError extends Error {}
+
+const env = (name: string, fallback?: string) => {
+  const value = Deno.env.get(name) ?? fallback;
+  if (value === undefined) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+const toMinorUnits = (amount: number) => Math.round(amount * 100);
+const fromMinorUnits = (amount: number) => amount / 100;
+
+const hmacSha256Hex = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Compares without bailing out at the first differing character
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+// Development gateway: every order succeeds and nothing leaves the machine. Webhooks are
+// signed with FAKE_WEBHOOK_SECRET so the webhook path can be exercised with curl.
+// Any checkout callback is accepted, so paymentProvider only hands it out when
+// ALLOW_FAKE_PAYMENTS=true.
+export class FakeProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  createOrder(receipt: string, amount: number, currency: string) {
+    const orderId = `fake_order_${crypto.randomUUID()}`;
+    console.log(`[fake] order ${orderId} receipt=${receipt} amount=${amount} ${currency}`);
+    return Promise.resolve({ orderId, checkout: {} });
+  }
+
+  verifyCheckout() {
+    return Promise.resolve(true);
+  }
+
+  async parseWebhook(body: string, headers: Headers) {
+    const expected = await hmacSha256Hex(env('FAKE_WEBHOOK_SECRET'), body);
+    if (!safeEqual(expected, headers.get('X-Fake-Signature') ?? '')) {
+      throw new WebhookSignatureError('Invalid webhook signature');
+    }
+    return JSON.parse(body) as PaymentEvent;
+  }
+
+  capture(paymentId: string, amount: number) {
+    console.log(`[fake] captured ${paymentId} amount=${amount}`);
+    return Promise.resolve();
+  }
+
+  release(paymentId: string) {
+    console.log(`[fake] released ${paymentId}`);
+    return Promise.resolve();
+  }
+
+  refund(paymentId: string, amount: number, idempotencyKey: string) {
+    console.log(`[fake] refunded ${paymentId} amount=${amount} key=${idempotencyKey}`);
+    return Promise.resolve(`fake_refund_${idempotencyKey}`);
+  }
+}
+
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  amount: number;
+  error_description?: string;
+}
+
+interface RazorpayWebhook {
+  event: string;
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity };
+    refund?: { entity: { id: string; payment_id: string; amount: number } };
+  };
+}
+
+// Razorpay (cards, UPI, netbanking). Orders use manual capture so the money is only
+// held until the job is done.
+export class RazorpayProvider implements PaymentProvider {
+  readonly name = 'razorpay';
+
+  // GET without a body, POST with one
+  private async request<T>(path: string, body?: Record<string, unknown>, headers: Record<string, string> = {}) {
+    const response = await fetch(`https://api.razorpay.com/v1${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        Authorization: `Basic ${btoa(`${env('RAZORPAY_KEY_ID')}:${env('RAZORPAY_KEY_SECRET')}`)}`,
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Razorpay responded ${response.status}: ${await response.text()}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  async createOrder(receipt: string, amount: number, currency: string) {
+    const order = await this.request<{ id: string; amount: number; currency: string }>('/orders', {
+      amount: toMinorUnits(amount),
+      currency,
+      receipt,
+      payment: { capture: 'manual' },
+    });
+
+    return {
+      orderId: order.id,
+      checkout: { key: env('RAZORPAY_KEY_ID'), order_id: order.id, amount: order.amount, currency: order.currency },
+    };
+  }
+
+  async verifyCheckout({ orderId, paymentId, signature }: CheckoutResult) {
+    const expected = await hmacSha256Hex(env('RAZORPAY_KEY_SECRET'), `${orderId}|${paymentId}`);
+    return safeEqual(expected, signature);
+  }
+
+  async parseWebhook(body: string, headers: Headers): Promise<PaymentEvent | null> {
+    const expected = await hmacSha256Hex(env('RAZORPAY_WEBHOOK_SECRET'), body);
+    if (!safeEqual(expected, headers.get('X-Razorpay-Signature') ?? '')) {
+      throw new WebhookSignatureError('Invalid webhook signature');
+    }
+
+    const { event, payload } = JSON.parse(body) as RazorpayWebhook;
+    const payment = payload.payment?.entity;
+    if (!payment) return null;
+
+    switch (event) {
+      case 'payment.authorized':
+        return { orderId: payment.order_id, event: 'authorized', paymentId: payment.id };
+      case 'payment.captured':
+        return { orderId: payment.order_id, event: 'captured', paymentId: payment.id };
+      case 'payment.failed':
+        return { orderId: payment.order_id, event: 'failed', paymentId: payment.id, reason: payment.error_description };
+      case 'refund.processed':
+        return payload.refund
+          ? {
+              orderId: payment.order_id,
+              event: 'refunded',
+              paymentId: payment.id,
+              amount: fromMinorUnits(payload.refund.entity.amount),
+              reference: payload.refund.entity.id,
+            }
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  async capture(paymentId: string, amount: number, currency: string) {
+    try {
+      await this.request(`/payments/${paymentId}/capture`, { amount: toMinorUnits(amount), currency });
+    } catch (error) {
+      // Razorpay refuses to capture twice; a payment that is already captured is what we wanted
+      const payment = await this.request<{ status: string }>(`/payments/${paymentId}`);
+      if (payment.status !== 'captured') throw error;
+    }
+  }
+
+  // Razorpay has no void call: uncaptured authorisations are returned to the customer
+  // automatically after a few days
+  release() {
+    return Promise.resolve();
+  }
+
+  async refund(paymentId: string, amount: number, idempotencyKey: string) {
+    const refund = await this.request<{ id: string }>(
+      `/payments/${paymentId}/refund`,
+      { amount: toMinorUnits(amount) },
+      { 'X-Refund-Idempotency': idempotencyKey },
+    );
+    return refund.id;
+  }
+}
+
+// PAYMENT_PROVIDER picks the gateway used for new checkouts. It has no default, so a
+// deploy that forgets it fails loudly instead of falling back to the fake gateway.
+export const paymentProvider = (name = env('PAYMENT_PROVIDER')): PaymentProvider => {
+  switch (name) {
+    case 'fake':
+      if (Deno.env.get('ALLOW_FAKE_PAYMENTS') !== 'true') {
+        throw new Error('The fake payment provider is disabled; set ALLOW_FAKE_PAYMENTS=true for local development');
+      }
+      return new FakeProvider();
+    case 'razorpay':
+      return new RazorpayProvider();
+    default:
+      throw new Error(`Unknown payment provider ${name}`);
+  }
+};
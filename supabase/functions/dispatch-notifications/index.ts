@@ -0,0 +1,79 @@
+// Drains public.notification_outbox: claims due messages, renders them and sends them
+// through the configured email/SMS provider. Invoked every minute by pg_cron.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { providerFor } from './providers.ts';
+import { DispatchEvent, DispatchPayload, renderMessage } from './templates.ts';
+
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+interface OutboxMessage {
+  id: string;
+  event: DispatchEvent;
+  channel: 'email' | 'sms';
+  recipient: string;
+  payload: DispatchPayload;
+  attempts: number;
+}
+
+// 1 min, 2 min, 4 min, ... capped at 6 hours
+const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  const { data, error } = await supabase.rpc('claim_outbox_messages', { _limit: BATCH_SIZE });
+  if (error) {
+    console.error('Error claiming outbox messages:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const counts = { sent: 0, retrying: 0, failed: 0 };
+
+  // A message whose outcome can't be written stays 'sending' and is claimed again once
+  // it goes stale, so a failed 'sent' write means the message may go out twice
+  const recordOutcome = async (message: OutboxMessage, changes: Record<string, unknown>) => {
+    const { error: updateError } = await supabase
+      .from('notification_outbox')
+      .update(changes)
+      .eq('id', message.id);
+    if (updateError) {
+      console.error(`Error recording outcome ${changes.status} for outbox message ${message.id}:`, updateError);
+    }
+  };
+
+  for (const message of data as OutboxMessage[]) {
+    try {
+      const provider = providerFor(message.channel);
+      const rendered = renderMessage(message.event, message.channel, message.payload);
+      const providerMessageId = await provider.send({ to: message.recipient, ...rendered });
+
+      await recordOutcome(message, {
+        status: 'sent',
+        sent_at: new Date().toISOString(),
+        provider: provider.name,
+        provider_message_id: providerMessageId,
+        last_error: null,
+      });
+      counts.sent += 1;
+    } catch (sendError) {
+      const gaveUp = message.attempts >= MAX_ATTEMPTS;
+      await recordOutcome(message, {
+        status: gaveUp ? 'failed' : 'pending',
+        next_attempt_at: new Date(Date.now() + retryDelay(message.attempts)).toISOString(),
+        last_error: (sendError as Error).message,
+      });
+      counts[gaveUp ? 'failed' : 'retrying'] += 1;
+    }
+  }
+
+  return Response.json(counts);
+});
@@ -0,0 +1,129 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export type DeliveryChannel = 'email' | 'sms';
+
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface DeliveryProvider {
+  readonly name: string;
+  // Resolves with the provider's message id, throws when the message was not accepted
+  send(message: OutgoingMessage): Promise<string | null>;
+}
+
+const env = (name: string, fallback?: string) => {
+  const value = Deno.env.get(name) ?? fallback;
+  if (value === undefined) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+// Development provider: prints the message to the function logs
+export class ConsoleProvider implements DeliveryProvider {
+  constructor(readonly name: string) {}
+
+  send(message: OutgoingMessage) {
+    console.log(`[${this.name}] to=${message.to} subject=${message.subject}\n${message.text}`);
+    return Promise.resolve(null);
+  }
+}
+
+// Plain SMTP. Defaults to the Inbucket server bundled with `supabase start`,
+// so local mail shows up at http://localhost:54324.
+export class SmtpProvider implements DeliveryProvider {
+  readonly name = 'smtp';
+
+  async send(message: OutgoingMessage) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: env('SMTP_HOST', 'host.docker.internal'),
+        port: Number(env('SMTP_PORT', '54325')),
+        tls: env('SMTP_TLS', 'false') === 'true',
+        auth: Deno.env.get('SMTP_USER')
+          ? { username: env('SMTP_USER'), password: env('SMTP_PASSWORD') }
+          : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: env('EMAIL_FROM', 'Maidly <no-reply@maidly.local>'),
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+      return null;
+    } finally {
+      await client.close();
+    }
+  }
+}
+
+export class ResendProvider implements DeliveryProvider {
+  readonly name = 'resend';
+
+  async send(message: OutgoingMessage) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${env('RESEND_API_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: env('EMAIL_FROM', 'Maidly <no-reply@maidly.local>'),
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+    const { id } = await response.json();
+    return id ?? null;
+  }
+}
+
+export class TwilioProvider implements DeliveryProvider {
+  readonly name = 'twilio';
+
+  async send(message: OutgoingMessage) {
+    const accountSid = env('TWILIO_ACCOUNT_SID');
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${env('TWILIO_AUTH_TOKEN')}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: message.to, From: env('TWILIO_FROM'), Body: message.text }),
+    });
+
+    if (!response.ok) throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+    const { sid } = await response.json();
+    return sid ?? null;
+  }
+}
+
+// EMAIL_PROVIDER: console (default) | smtp | resend
+// SMS_PROVIDER: console (default) | twilio
+export const providerFor = (channel: DeliveryChannel): DeliveryProvider => {
+  const choice = Deno.env.get(channel === 'email' ? 'EMAIL_PROVIDER' : 'SMS_PROVIDER') ?? 'console';
+
+  switch (`${channel}:${choice}`) {
+    case 'email:smtp':
+      return new SmtpProvider();
+    case 'email:resend':
+      return new ResendProvider();
+    case 'sms:twilio':
+      return new TwilioProvider();
+    case 'email:console':
+    case 'sms:console':
+      return new ConsoleProvider(`console-${channel}`);
+    default:
+      throw new Error(`Unknown ${channel} provider "${choice}"`);
+  }
+};
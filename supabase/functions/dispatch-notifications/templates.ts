@@ -0,0 +1,119 @@
+import type { DeliveryChannel, OutgoingMessage } from './providers.ts';
+
+export type DispatchEvent =
+  | 'booking_confirmation'
+  | 'booking_requested'
+  | 'booking_accepted'
+  | 'booking_cancelled'
+  | 'booking_expired'
+  | 'booking_reminder'
+  | 'booking_reminder_2h'
+  | 'booking_rescheduled';
+
+// Built by job_dispatch_payload() in the outbox migration
+export interface DispatchPayload {
+  job_id: string;
+  job_date: string;
+  job_type: 'hourly' | 'daily' | 'monthly';
+  duration_quantity: number;
+  start_time: string | null;
+  location: string;
+  amount: number;
+  customer_name: string | null;
+  maid_name: string | null;
+  expiry_reason?: 'no_response' | 'date_passed' | null;
+  cancellation_reason?: string | null;
+  cancellation_fee?: number;
+  cancelled_by?: 'customer' | 'maid' | 'system';
+  was_pending?: boolean;
+  previous_date?: string;
+}
+
+type Rendered = Omit<OutgoingMessage, 'to'>;
+
+const UNITS = { hourly: 'hour', daily: 'day', monthly: 'month' } as const;
+
+const day = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+
+const duration = (p: DispatchPayload) => {
+  const unit = UNITS[p.job_type];
+  const label = `${p.duration_quantity} ${unit}${p.duration_quantity === 1 ? '' : 's'}`;
+  return p.start_time ? `${label} from ${p.start_time.slice(0, 5)}` : label;
+};
+
+const summary = (p: DispatchPayload) =>
+  `${day(p.job_date)}, ${duration(p)} at ${p.location} (₹${Number(p.amount).toFixed(2)})`;
+
+const reason = (p: DispatchPayload) => (p.cancellation_reason ? ` Reason given: "${p.cancellation_reason}".` : '');
+
+const maid = (p: DispatchPayload) => p.maid_name ?? 'Your maid';
+const customer = (p: DispatchPayload) => p.customer_name ?? 'A customer';
+
+const TEMPLATES: Record<DispatchEvent, (p: DispatchPayload) => Rendered> = {
+  booking_confirmation: (p) => ({
+    subject: `Booking request sent to ${maid(p)}`,
+    text: `We've sent your booking request to ${maid(p)}: ${summary(p)}. We'll let you know as soon as they respond.`,
+  }),
+  booking_requested: (p) => ({
+    subject: `New booking request from ${customer(p)}`,
+    text: `${customer(p)} would like to book you: ${summary(p)}. Open Maidly to accept or decline.`,
+  }),
+  booking_accepted: (p) => ({
+    subject: `${maid(p)} accepted your booking`,
+    text: `Good news! ${maid(p)} accepted your booking for ${summary(p)}.`,
+  }),
+  booking_cancelled: (p) =>
+    p.cancelled_by === 'system'
+      ? {
+          subject: `Visit on ${day(p.job_date)} cancelled`,
+          text: `The visit for ${summary(p)} was cancelled.${p.cancellation_reason ? ` ${p.cancellation_reason}.` : ''}`,
+        }
+      : p.cancelled_by === 'customer'
+      ? {
+          subject: `Booking cancelled by ${customer(p)}`,
+          text: `${customer(p)} cancelled the booking for ${summary(p)}.${reason(p)}`,
+        }
+      : {
+          subject: p.was_pending ? `${maid(p)} declined your booking` : `${maid(p)} cancelled your booking`,
+          text: `${maid(p)} ${p.was_pending ? 'declined' : 'cancelled'} your booking for ${summary(p)}.${reason(p)} You can book another maid on Maidly.`,
+        },
+  booking_expired: (p) => ({
+    subject: `Your booking with ${maid(p)} expired`,
+    text:
+      p.expiry_reason === 'date_passed'
+        ? `Your booking request for ${summary(p)} expired because the date passed before ${maid(p)} responded. You can book another maid on Maidly.`
+        : `Your booking request for ${summary(p)} expired because ${maid(p)} did not respond in time. You can book another maid on Maidly.`,
+  }),
+  booking_reminder: (p) => ({
+    subject: `Reminder: booking on ${day(p.job_date)}`,
+    text: `Reminder: your Maidly booking is coming up — ${summary(p)}.`,
+  }),
+  booking_reminder_2h: (p) => ({
+    subject: 'Your booking starts in about 2 hours',
+    text: `Heads up: your Maidly booking starts in about 2 hours — ${summary(p)}.`,
+  }),
+  booking_rescheduled: (p) => ({
+    subject: `Booking moved to ${day(p.job_date)}`,
+    text: p.previous_date
+      ? `Your Maidly booking on ${day(p.previous_date)} has been moved. New time: ${summary(p)}.`
+      : `Your Maidly booking has been moved. New time: ${summary(p)}.`,
+  }),
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+export const renderMessage = (event: DispatchEvent, channel: DeliveryChannel, payload: DispatchPayload): Rendered => {
+  const template = TEMPLATES[event];
+  if (!template) throw new Error(`No template for event "${event}"`);
+
+  const rendered = template(payload);
+  if (channel === 'sms') {
+    return { subject: rendered.subject, text: `Maidly: ${rendered.text}` };
+  }
+  return {
+    ...rendered,
+    html: `<p>${escapeHtml(rendered.text)}</p><p style="color:#666">— The Maidly team</p>`,
+  };
+};
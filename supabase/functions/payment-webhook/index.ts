@@ -0,0 +1,46 @@
+// Receives payment events from the gateway. There is no Supabase JWT on these calls
+// (verify_jwt is off in config.toml); the gateway's signature is checked instead.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { paymentProvider, WebhookSignatureError } from '../_shared/payment-providers.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return new Response('Method not allowed', { status: 405 });
+
+  const provider = paymentProvider();
+  const body = await req.text();
+
+  let event;
+  try {
+    event = await provider.parseWebhook(body, req.headers);
+  } catch (parseError) {
+    if (parseError instanceof WebhookSignatureError) {
+      return new Response('Invalid signature', { status: 401 });
+    }
+    console.error('Unreadable payment webhook:', parseError);
+    return new Response('Bad request', { status: 400 });
+  }
+
+  // Events we don't track are acknowledged so the gateway stops retrying them
+  if (!event) return Response.json({ ignored: true });
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data, error } = await supabase.rpc('record_payment_event', {
+    _provider: provider.name,
+    _order_id: event.orderId,
+    _event: event.event,
+    _provider_payment_id: event.paymentId,
+    _amount: event.amount,
+    _reference: event.reference,
+    _reason: event.reason,
+  });
+
+  if (error) {
+    // Orders created outside this app (or another environment) share the gateway account
+    if (error.code === 'PT404') return Response.json({ ignored: true });
+
+    console.error('Error recording payment event:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  return Response.json({ status: data.status });
+});
@@ -0,0 +1,104 @@
+// Checkout for customers. create_order opens a gateway order for one of their pending
+// jobs or upcoming recurring visits; confirm / fail report what happened in the gateway's
+// checkout. The webhook reports the same events independently, so either path is
+// enough on its own.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { paymentProvider } from '../_shared/payment-providers.ts';
+
+type PaymentAction =
+  | { action: 'create_order'; jobId: string }
+  | { action: 'confirm'; orderId: string; paymentId: string; signature: string }
+  | { action: 'fail'; orderId: string; reason?: string };
+
+const reply = (body: Record<string, unknown>, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+// PT4xx codes raised by the payment functions map straight onto HTTP statuses
+const statusFor = (code?: string) => (code?.startsWith('PT4') ? Number(code.slice(2)) : 500);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return reply({ error: 'Not signed in' }, 401);
+
+  // Acts as the customer, so row level security and auth.uid() apply
+  const asUser = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const asService = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  let body: PaymentAction;
+  try {
+    body = await req.json();
+  } catch {
+    return reply({ error: 'The request body must be JSON' }, 400);
+  }
+
+  try {
+    if (body.action === 'create_order') {
+      const provider = paymentProvider();
+      const { data: payment, error } = await asUser.rpc('begin_payment', {
+        _job_id: body.jobId,
+        _provider: provider.name,
+      });
+      if (error) return reply({ error: error.message }, statusFor(error.code));
+
+      const order = await provider.createOrder(payment.id, Number(payment.amount), payment.currency);
+      const { error: attachError } = await asService.rpc('attach_payment_order', {
+        _payment_id: payment.id,
+        _order_id: order.orderId,
+      });
+      if (attachError) throw attachError;
+
+      return reply({
+        provider: provider.name,
+        orderId: order.orderId,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        checkout: order.checkout,
+      });
+    }
+
+    // The customer must be able to see the payment before they can report on it
+    const { data: payment } = await asUser
+      .from('payments')
+      .select('provider')
+      .eq('provider_order_id', body.orderId)
+      .maybeSingle();
+    if (!payment) return reply({ error: 'Payment not found' }, 404);
+
+    if (body.action === 'confirm') {
+      const provider = paymentProvider(payment.provider);
+      if (!(await provider.verifyCheckout(body))) {
+        return reply({ error: 'The payment could not be verified' }, 400);
+      }
+
+      const { data, error } = await asService.rpc('record_payment_event', {
+        _provider: provider.name,
+        _order_id: body.orderId,
+        _event: 'authorized',
+        _provider_payment_id: body.paymentId,
+      });
+      if (error) throw error;
+      return reply({ status: data.status });
+    }
+
+    if (body.action === 'fail') {
+      const { data, error } = await asService.rpc('record_payment_event', {
+        _provider: payment.provider,
+        _order_id: body.orderId,
+        _event: 'failed',
+        _reason: body.reason?.slice(0, 500) ?? 'Checkout was not completed',
+      });
+      if (error) throw error;
+      return reply({ status: data.status });
+    }
+
+    return reply({ error: 'Unknown action' }, 400);
+  } catch (paymentError) {
+    console.error('Payment error:', paymentError);
+    return reply({ error: (paymentError as Error).message }, 500);
+  }
+});
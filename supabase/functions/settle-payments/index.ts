@@ -0,0 +1,122 @@
+// Settles payments once their job is over: completed jobs are captured in full, jobs
+// cancelled for free release the authorisation, and late cancellations keep the fee and
+// refund the rest. What is kept is then split into the platform fee and the maid's payout.
+// Authorisations close to the gateway's expiry are captured early, while the job is still
+// open, and settled the same way once it is over. Invoked every five minutes by pg_cron.
+//
+// Every step can be retried: capture() succeeds for an already captured payment, refunds
+// carry an idempotency key, and record_payment_event / split_payment ignore repeats. A run
+// that fails half-way leaves the payment due, and the next run finishes it.
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { paymentProvider } from '../_shared/payment-providers.ts';
+
+const BATCH_SIZE = 50;
+
+interface DuePayment {
+  payment_id: string;
+  provider: string;
+  provider_order_id: string;
+  provider_payment_id: string;
+  status: 'authorized' | 'captured' | 'refunded';
+  amount: number;
+  refunded_amount: number;
+  job_status: 'completed' | 'cancelled';
+  cancellation_fee: number;
+}
+
+type PaymentRef = Pick<DuePayment, 'payment_id' | 'provider' | 'provider_order_id' | 'provider_payment_id' | 'amount'>;
+
+const recordEvent = async (
+  supabase: SupabaseClient,
+  payment: PaymentRef,
+  event: string,
+  extra: Record<string, unknown> = {},
+) => {
+  const { error } = await supabase.rpc('record_payment_event', {
+    _provider: payment.provider,
+    _order_id: payment.provider_order_id,
+    _event: event,
+    ...extra,
+  });
+  if (error) throw error;
+};
+
+const capture = async (supabase: SupabaseClient, payment: PaymentRef) => {
+  await paymentProvider(payment.provider).capture(payment.provider_payment_id, Number(payment.amount), 'INR');
+  await recordEvent(supabase, payment, 'captured', { _provider_payment_id: payment.provider_payment_id });
+};
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+  const counts = { captured_early: 0, settled: 0, released: 0, failed: 0 };
+
+  const { data: expiring, error: expiringError } = await supabase.rpc('payments_due_for_early_capture', {
+    _limit: BATCH_SIZE,
+  });
+  if (expiringError) {
+    console.error('Error loading payments to capture early:', expiringError);
+    return Response.json({ error: expiringError.message }, { status: 500 });
+  }
+
+  for (const payment of expiring as PaymentRef[]) {
+    try {
+      await capture(supabase, payment);
+      counts.captured_early += 1;
+    } catch (captureError) {
+      console.error(`Error capturing payment ${payment.payment_id} early:`, captureError);
+      counts.failed += 1;
+    }
+  }
+
+  const { data, error } = await supabase.rpc('payments_due_for_settlement', { _limit: BATCH_SIZE });
+  if (error) {
+    console.error('Error loading payments to settle:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  for (const payment of data as DuePayment[]) {
+    try {
+      const provider = paymentProvider(payment.provider);
+      const amount = Number(payment.amount);
+      const keep = payment.job_status === 'completed' ? amount : Number(payment.cancellation_fee);
+
+      if (payment.status === 'authorized') {
+        if (keep === 0) {
+          await provider.release(payment.provider_payment_id);
+          await recordEvent(supabase, payment, 'voided');
+          counts.released += 1;
+          continue;
+        }
+
+        await capture(supabase, payment);
+      }
+
+      const refunded = Number(payment.refunded_amount);
+      const toRefund = amount - refunded - keep;
+      if (toRefund > 0) {
+        // Same key until the refund is recorded, so a retry gets the same refund back
+        const refundId = await provider.refund(
+          payment.provider_payment_id,
+          toRefund,
+          `${payment.payment_id}-${refunded.toFixed(2)}`,
+        );
+        await recordEvent(supabase, payment, 'refunded', { _amount: toRefund, _reference: refundId });
+      }
+
+      const { error: splitError } = await supabase.rpc('split_payment', { _payment_id: payment.payment_id });
+      if (splitError) throw splitError;
+      counts.settled += 1;
+    } catch (settleError) {
+      // Left unsettled, so the next run tries again
+      console.error(`Error settling payment ${payment.payment_id}:`, settleError);
+      counts.failed += 1;
+    }
+  }
+
+  return Response.json(counts);
+});
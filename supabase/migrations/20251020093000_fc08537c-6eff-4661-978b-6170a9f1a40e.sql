@@ -0,0 +1,157 @@
+-- Enforce the job status state machine on the server.
+-- pending -> accepted -> completed, and pending/accepted -> cancelled.
+-- Errors use PostgREST "PTxxx" codes so the client receives a matching HTTP status:
+--   PT403 caller is not the right party, PT404 job not found, PT409 illegal transition.
+
+-- Lock down direct updates; status changes go through the functions below
+DROP POLICY IF EXISTS "Customers can update own jobs" ON public.jobs;
+DROP POLICY IF EXISTS "Maids can update assigned jobs" ON public.jobs;
+
+-- Helper: load a job for update and check the caller is its assigned maid
+CREATE OR REPLACE FUNCTION public.lock_job_for_maid(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  SELECT * INTO _job FROM public.jobs WHERE id = _job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.maids
+    WHERE maids.id = _job.maid_id AND maids.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the assigned maid can change this job' USING ERRCODE = 'PT403';
+  END IF;
+
+  RETURN _job;
+END;
+$$;
+
+-- Helper: load a job for update and check the caller is its customer
+CREATE OR REPLACE FUNCTION public.lock_job_for_customer(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  SELECT * INTO _job FROM public.jobs WHERE id = _job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF _job.customer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the customer who booked this job can change it' USING ERRCODE = 'PT403';
+  END IF;
+
+  RETURN _job;
+END;
+$$;
+
+-- Maid accepts a pending job
+CREATE OR REPLACE FUNCTION public.accept_job(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_maid(_job_id);
+
+  IF _job.status <> 'pending' THEN
+    RAISE EXCEPTION 'Cannot accept a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.jobs SET status = 'accepted' WHERE id = _job_id RETURNING * INTO _job;
+  RETURN _job;
+END;
+$$;
+
+-- Maid declines a pending job or backs out of an accepted one
+CREATE OR REPLACE FUNCTION public.reject_job(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_maid(_job_id);
+
+  IF _job.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'Cannot reject a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.jobs SET status = 'cancelled' WHERE id = _job_id RETURNING * INTO _job;
+  RETURN _job;
+END;
+$$;
+
+-- Maid marks an accepted job as done
+CREATE OR REPLACE FUNCTION public.complete_job(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_maid(_job_id);
+
+  IF _job.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Cannot complete a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.jobs SET status = 'completed' WHERE id = _job_id RETURNING * INTO _job;
+  RETURN _job;
+END;
+$$;
+
+-- Customer cancels a job that has not been completed yet
+CREATE OR REPLACE FUNCTION public.cancel_job(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_customer(_job_id);
+
+  IF _job.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'Cannot cancel a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.jobs SET status = 'cancelled' WHERE id = _job_id RETURNING * INTO _job;
+  RETURN _job;
+END;
+$$;
+
+-- The lock helpers are internal; only the transition functions are callable
+REVOKE EXECUTE ON FUNCTION public.lock_job_for_maid(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_job_for_customer(UUID) FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.accept_job(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reject_job(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complete_job(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_job(UUID) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.accept_job(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_job(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_job(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_job(UUID) TO authenticated;
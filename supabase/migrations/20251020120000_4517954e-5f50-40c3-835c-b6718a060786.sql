@@ -0,0 +1,111 @@
+-- Price bookings on the server so job.amount cannot be forged by the client.
+-- Customers no longer insert into jobs directly; they call create_booking.
+
+DROP POLICY IF EXISTS "Customers can create jobs" ON public.jobs;
+
+-- Price for _quantity units of the maid's current rate for _job_type
+CREATE OR REPLACE FUNCTION public.compute_job_amount(_maid_id UUID, _job_type TEXT, _quantity INTEGER)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid public.maids;
+  _max_quantity INTEGER;
+BEGIN
+  _max_quantity := CASE _job_type
+    WHEN 'hourly' THEN 12
+    WHEN 'daily' THEN 31
+    WHEN 'monthly' THEN 12
+  END;
+
+  IF _max_quantity IS NULL THEN
+    RAISE EXCEPTION 'Unknown job type %', _job_type USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 OR _quantity > _max_quantity THEN
+    RAISE EXCEPTION 'Quantity for % jobs must be between 1 and %', _job_type, _max_quantity
+      USING ERRCODE = 'PT400';
+  END IF;
+
+  SELECT * INTO _maid FROM public.maids WHERE id = _maid_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maid not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  RETURN _quantity * CASE _job_type
+    WHEN 'hourly' THEN _maid.hourly_rate
+    WHEN 'daily' THEN _maid.daily_rate
+    ELSE _maid.monthly_rate
+  END;
+END;
+$$;
+
+-- Price quote shown to the customer before confirming a booking
+CREATE OR REPLACE FUNCTION public.quote_booking(_maid_id UUID, _job_type TEXT, _quantity INTEGER)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.compute_job_amount(_maid_id, _job_type, _quantity)
+$$;
+
+-- Create a pending job priced from the maid's current rates
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _maid_id UUID,
+  _job_type TEXT,
+  _job_date DATE,
+  _quantity INTEGER,
+  _location TEXT
+)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+  _unit TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'customer') THEN
+    RAISE EXCEPTION 'Only customers can book maids' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _job_date IS NULL OR _job_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Booking date must be today or later' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _location IS NULL OR length(trim(_location)) < 3 THEN
+    RAISE EXCEPTION 'Location must be at least 3 characters' USING ERRCODE = 'PT400';
+  END IF;
+
+  _unit := CASE _job_type WHEN 'hourly' THEN 'hour' WHEN 'daily' THEN 'day' ELSE 'month' END;
+
+  INSERT INTO public.jobs (customer_id, maid_id, job_date, duration, location, job_type, amount, status)
+  VALUES (
+    auth.uid(),
+    _maid_id,
+    _job_date,
+    _quantity || ' ' || _unit || CASE WHEN _quantity = 1 THEN '' ELSE 's' END,
+    trim(_location),
+    _job_type,
+    public.compute_job_amount(_maid_id, _job_type, _quantity),
+    'pending'
+  )
+  RETURNING * INTO _job;
+
+  RETURN _job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_job_amount(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.quote_booking(UUID, TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.create_booking(UUID, TEXT, DATE, INTEGER, TEXT) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.quote_booking(UUID, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_booking(UUID, TEXT, DATE, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,92 @@
+-- Replace the free-text jobs.duration with a quantity and a unit tied to job_type,
+-- plus a start time for hourly jobs.
+
+ALTER TABLE public.jobs
+  ADD COLUMN duration_quantity INTEGER,
+  ADD COLUMN duration_unit TEXT,
+  ADD COLUMN start_time TIME;
+
+-- Best-effort parse of existing rows: take the leading number ("2 hours", "3days", "1 month")
+-- and fall back to a single unit when nothing numeric was entered
+UPDATE public.jobs
+SET
+  duration_quantity = GREATEST(COALESCE(substring(duration FROM '(\d+)')::INTEGER, 1), 1),
+  duration_unit = CASE job_type WHEN 'hourly' THEN 'hour' WHEN 'daily' THEN 'day' ELSE 'month' END;
+
+ALTER TABLE public.jobs
+  ALTER COLUMN duration_quantity SET NOT NULL,
+  ALTER COLUMN duration_unit SET NOT NULL,
+  ADD CONSTRAINT check_duration_quantity_positive CHECK (duration_quantity > 0),
+  ADD CONSTRAINT check_duration_unit_matches_job_type CHECK (
+    (job_type = 'hourly' AND duration_unit = 'hour') OR
+    (job_type = 'daily' AND duration_unit = 'day') OR
+    (job_type = 'monthly' AND duration_unit = 'month')
+  ),
+  ADD CONSTRAINT check_start_time_only_for_hourly CHECK (job_type = 'hourly' OR start_time IS NULL);
+
+ALTER TABLE public.jobs DROP COLUMN duration;
+
+-- create_booking now stores the structured duration and takes a start time for hourly jobs
+DROP FUNCTION IF EXISTS public.create_booking(UUID, TEXT, DATE, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _maid_id UUID,
+  _job_type TEXT,
+  _job_date DATE,
+  _quantity INTEGER,
+  _location TEXT,
+  _start_time TIME DEFAULT NULL
+)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'customer') THEN
+    RAISE EXCEPTION 'Only customers can book maids' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _job_date IS NULL OR _job_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Booking date must be today or later' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _location IS NULL OR length(trim(_location)) < 3 THEN
+    RAISE EXCEPTION 'Location must be at least 3 characters' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _job_type = 'hourly' AND _start_time IS NULL THEN
+    RAISE EXCEPTION 'Hourly bookings need a start time' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- TIME arithmetic wraps at midnight, so an end before the start means it ran over
+  IF _job_type = 'hourly' AND _start_time + make_interval(hours => _quantity) <= _start_time THEN
+    RAISE EXCEPTION 'Hourly bookings must finish on the same day' USING ERRCODE = 'PT400';
+  END IF;
+
+  INSERT INTO public.jobs (
+    customer_id, maid_id, job_date, duration_quantity, duration_unit, start_time,
+    location, job_type, amount, status
+  )
+  VALUES (
+    auth.uid(),
+    _maid_id,
+    _job_date,
+    _quantity,
+    CASE _job_type WHEN 'hourly' THEN 'hour' WHEN 'daily' THEN 'day' ELSE 'month' END,
+    CASE WHEN _job_type = 'hourly' THEN _start_time END,
+    trim(_location),
+    _job_type,
+    public.compute_job_amount(_maid_id, _job_type, _quantity),
+    'pending'
+  )
+  RETURNING * INTO _job;
+
+  RETURN _job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_booking(UUID, TEXT, DATE, INTEGER, TEXT, TIME) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_booking(UUID, TEXT, DATE, INTEGER, TEXT, TIME) TO authenticated;
@@ -0,0 +1,278 @@
+-- Maid availability: weekly working hours plus date-specific time off.
+-- A maid with no weekly hours configured is treated as available every day,
+-- so existing maids keep receiving bookings until they set a schedule.
+
+CREATE TABLE public.maid_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  maid_id UUID REFERENCES public.maids(id) ON DELETE CASCADE NOT NULL,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday, matches EXTRACT(DOW)
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(maid_id, weekday),
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE public.maid_time_off (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  maid_id UUID REFERENCES public.maids(id) ON DELETE CASCADE NOT NULL,
+  off_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(maid_id, off_date)
+);
+
+ALTER TABLE public.maid_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.maid_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view maid availability"
+  ON public.maid_availability FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Maids can manage own availability"
+  ON public.maid_availability FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.maids
+      WHERE maids.id = maid_availability.maid_id AND maids.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.maids
+      WHERE maids.id = maid_availability.maid_id AND maids.user_id = auth.uid()
+    )
+  );
+
+-- Time off reasons are private; customers see blocked dates through maid_unavailable_dates
+CREATE POLICY "Maids can manage own time off"
+  ON public.maid_time_off FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.maids
+      WHERE maids.id = maid_time_off.maid_id AND maids.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.maids
+      WHERE maids.id = maid_time_off.maid_id AND maids.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_maid_availability_updated_at
+  BEFORE UPDATE ON public.maid_availability
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Days covered by a job: one day for hourly, N days for daily, N months for monthly
+CREATE OR REPLACE FUNCTION public.job_date_span(_job_type TEXT, _job_date DATE, _quantity INTEGER)
+RETURNS DATERANGE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT daterange(
+    _job_date,
+    CASE _job_type
+      WHEN 'hourly' THEN _job_date + 1
+      WHEN 'daily' THEN _job_date + _quantity
+      ELSE (_job_date + make_interval(months => _quantity))::DATE
+    END
+  )
+$$;
+
+-- Raise PT409 if the maid cannot take the described job.
+-- _exclude_job_id lets accept_job ignore the job being accepted.
+CREATE OR REPLACE FUNCTION public.assert_maid_available(
+  _maid_id UUID,
+  _job_type TEXT,
+  _job_date DATE,
+  _quantity INTEGER,
+  _start_time TIME,
+  _exclude_job_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _span DATERANGE := public.job_date_span(_job_type, _job_date, _quantity);
+  _hours public.maid_availability;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.maid_time_off
+    WHERE maid_id = _maid_id AND off_date <@ _span
+  ) THEN
+    RAISE EXCEPTION 'The maid is on leave during the requested dates' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.maid_availability WHERE maid_id = _maid_id) THEN
+    SELECT * INTO _hours FROM public.maid_availability
+    WHERE maid_id = _maid_id AND weekday = EXTRACT(DOW FROM _job_date);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The maid does not work on %', to_char(_job_date, 'FMDay') USING ERRCODE = 'PT409';
+    END IF;
+
+    IF _job_type = 'hourly' AND (
+      _start_time < _hours.start_time
+      OR _start_time + make_interval(hours => _quantity) > _hours.end_time
+    ) THEN
+      RAISE EXCEPTION 'The maid works % to % on that day',
+        to_char(_hours.start_time, 'HH24:MI'), to_char(_hours.end_time, 'HH24:MI')
+        USING ERRCODE = 'PT409';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE maid_id = _maid_id
+      AND status = 'accepted'
+      AND id IS DISTINCT FROM _exclude_job_id
+      AND public.job_date_span(job_type, job_date, duration_quantity) && _span
+      AND (
+        -- Two hourly jobs on the same day only clash if their hours overlap
+        job_type <> 'hourly' OR _job_type <> 'hourly'
+        OR (start_time, make_interval(hours => duration_quantity))
+           OVERLAPS (_start_time, make_interval(hours => _quantity))
+      )
+  ) THEN
+    RAISE EXCEPTION 'The maid already has a job at that time' USING ERRCODE = 'PT409';
+  END IF;
+END;
+$$;
+
+-- Dates in [_from, _to] on which the maid cannot take a new booking at all.
+-- Lets customers see unavailable days without reading other customers' jobs.
+CREATE OR REPLACE FUNCTION public.maid_unavailable_dates(_maid_id UUID, _from DATE, _to DATE)
+RETURNS SETOF DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(_from, LEAST(_to, _from + 366), INTERVAL '1 day') AS d
+  ),
+  has_schedule AS (
+    SELECT EXISTS (SELECT 1 FROM public.maid_availability WHERE maid_id = _maid_id) AS value
+  )
+  SELECT day FROM days
+  WHERE EXISTS (
+      SELECT 1 FROM public.maid_time_off
+      WHERE maid_id = _maid_id AND off_date = days.day
+    )
+    OR (
+      (SELECT value FROM has_schedule)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.maid_availability
+        WHERE maid_id = _maid_id AND weekday = EXTRACT(DOW FROM days.day)
+      )
+    )
+    -- Hourly jobs only block part of a day, so they do not grey out the date
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE maid_id = _maid_id
+        AND status = 'accepted'
+        AND job_type <> 'hourly'
+        AND days.day <@ public.job_date_span(job_type, job_date, duration_quantity)
+    )
+$$;
+
+-- Booking creation rejects unavailable slots and overlaps with accepted jobs
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _maid_id UUID,
+  _job_type TEXT,
+  _job_date DATE,
+  _quantity INTEGER,
+  _location TEXT,
+  _start_time TIME DEFAULT NULL
+)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'customer') THEN
+    RAISE EXCEPTION 'Only customers can book maids' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _job_date IS NULL OR _job_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Booking date must be today or later' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _location IS NULL OR length(trim(_location)) < 3 THEN
+    RAISE EXCEPTION 'Location must be at least 3 characters' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _job_type = 'hourly' AND _start_time IS NULL THEN
+    RAISE EXCEPTION 'Hourly bookings need a start time' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- TIME arithmetic wraps at midnight, so an end before the start means it ran over
+  IF _job_type = 'hourly' AND _start_time + make_interval(hours => _quantity) <= _start_time THEN
+    RAISE EXCEPTION 'Hourly bookings must finish on the same day' USING ERRCODE = 'PT400';
+  END IF;
+
+  PERFORM public.assert_maid_available(_maid_id, _job_type, _job_date, _quantity, _start_time);
+
+  INSERT INTO public.jobs (
+    customer_id, maid_id, job_date, duration_quantity, duration_unit, start_time,
+    location, job_type, amount, status
+  )
+  VALUES (
+    auth.uid(),
+    _maid_id,
+    _job_date,
+    _quantity,
+    CASE _job_type WHEN 'hourly' THEN 'hour' WHEN 'daily' THEN 'day' ELSE 'month' END,
+    CASE WHEN _job_type = 'hourly' THEN _start_time END,
+    trim(_location),
+    _job_type,
+    public.compute_job_amount(_maid_id, _job_type, _quantity),
+    'pending'
+  )
+  RETURNING * INTO _job;
+
+  RETURN _job;
+END;
+$$;
+
+-- A maid cannot accept a job that clashes with one already accepted
+CREATE OR REPLACE FUNCTION public.accept_job(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_maid(_job_id);
+
+  IF _job.status <> 'pending' THEN
+    RAISE EXCEPTION 'Cannot accept a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _job.job_date, _job.duration_quantity, _job.start_time, _job.id
+  );
+
+  UPDATE public.jobs SET status = 'accepted' WHERE id = _job_id RETURNING * INTO _job;
+  RETURN _job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assert_maid_available(UUID, TEXT, DATE, INTEGER, TIME, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.maid_unavailable_dates(UUID, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.maid_unavailable_dates(UUID, DATE, DATE) TO authenticated;
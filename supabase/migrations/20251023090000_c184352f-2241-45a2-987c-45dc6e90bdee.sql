@@ -0,0 +1,135 @@
+-- Ratings and reviews for completed jobs.
+-- Customers review through submit_review, maids answer once through reply_to_review,
+-- and maids.rating is kept as the average of a maid's reviews by trigger.
+
+CREATE TABLE public.reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  maid_id UUID REFERENCES public.maids(id) ON DELETE CASCADE NOT NULL,
+  customer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 1000),
+  maid_reply TEXT CHECK (char_length(maid_reply) <= 1000),
+  replied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX reviews_maid_id_created_at_idx ON public.reviews (maid_id, created_at DESC);
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+-- Reviews are public to signed-in users; writes go through the functions below
+CREATE POLICY "Anyone can view reviews"
+  ON public.reviews FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_reviews_updated_at
+  BEFORE UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Customer reviews one of their own completed jobs
+CREATE OR REPLACE FUNCTION public.submit_review(_job_id UUID, _rating INTEGER, _comment TEXT DEFAULT NULL)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+  _review public.reviews;
+BEGIN
+  _job := public.lock_job_for_customer(_job_id);
+
+  IF _job.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed jobs can be reviewed' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _rating IS NULL OR _rating < 1 OR _rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reviews WHERE job_id = _job_id) THEN
+    RAISE EXCEPTION 'This job has already been reviewed' USING ERRCODE = 'PT409';
+  END IF;
+
+  INSERT INTO public.reviews (job_id, maid_id, customer_id, rating, comment)
+  VALUES (_job.id, _job.maid_id, _job.customer_id, _rating, NULLIF(trim(_comment), ''))
+  RETURNING * INTO _review;
+
+  RETURN _review;
+END;
+$$;
+
+-- Maid posts their single public reply to a review of their work
+CREATE OR REPLACE FUNCTION public.reply_to_review(_review_id UUID, _reply TEXT)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _review public.reviews;
+BEGIN
+  SELECT * INTO _review FROM public.reviews WHERE id = _review_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.maids
+    WHERE maids.id = _review.maid_id AND maids.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the reviewed maid can reply' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _review.maid_reply IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already replied to this review' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _reply IS NULL OR length(trim(_reply)) = 0 THEN
+    RAISE EXCEPTION 'Reply cannot be empty' USING ERRCODE = 'PT400';
+  END IF;
+
+  UPDATE public.reviews
+  SET maid_reply = trim(_reply), replied_at = NOW()
+  WHERE id = _review_id
+  RETURNING * INTO _review;
+
+  RETURN _review;
+END;
+$$;
+
+-- Keep maids.rating equal to the average rating of their reviews
+CREATE OR REPLACE FUNCTION public.refresh_maid_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_id UUID := COALESCE(NEW.maid_id, OLD.maid_id);
+BEGIN
+  UPDATE public.maids
+  SET rating = COALESCE(
+    (SELECT ROUND(AVG(rating), 2) FROM public.reviews WHERE maid_id = _maid_id),
+    0
+  )
+  WHERE id = _maid_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_maid_rating_on_review
+  AFTER INSERT OR DELETE OR UPDATE OF rating ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_maid_rating();
+
+REVOKE EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reply_to_review(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reply_to_review(UUID, TEXT) TO authenticated;
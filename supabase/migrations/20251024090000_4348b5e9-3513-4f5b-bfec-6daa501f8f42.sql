@@ -0,0 +1,12 @@
+-- Indexes backing search, filtering and sorting on the Available Maids grid
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Substring (ILIKE '%term%') search on location
+CREATE INDEX maids_location_trgm_idx ON public.maids USING GIN (location extensions.gin_trgm_ops);
+
+CREATE INDEX maids_rating_idx ON public.maids (rating DESC);
+CREATE INDEX maids_completed_jobs_idx ON public.maids (completed_jobs DESC);
+CREATE INDEX maids_hourly_rate_idx ON public.maids (hourly_rate);
+CREATE INDEX maids_daily_rate_idx ON public.maids (daily_rate);
+CREATE INDEX maids_monthly_rate_idx ON public.maids (monthly_rate);
@@ -0,0 +1,31 @@
+-- Profiles are only readable by their owner, so joins from jobs/maids to profiles
+-- return nothing for other users. Expose just the display fields through views that
+-- run with the view owner's rights; phone and email stay private.
+
+ALTER TABLE public.profiles ADD COLUMN avatar_url TEXT;
+
+-- Display name and avatar for every maid, readable by any signed-in user
+CREATE VIEW public.public_maid_profiles AS
+  SELECT
+    maids.id AS maid_id,
+    profiles.full_name,
+    profiles.avatar_url
+  FROM public.maids
+  JOIN public.profiles ON profiles.id = maids.user_id;
+
+-- Display name and avatar of the customer on each job assigned to the calling maid
+CREATE VIEW public.job_customer_profiles AS
+  SELECT
+    jobs.id AS job_id,
+    jobs.customer_id,
+    profiles.full_name,
+    profiles.avatar_url
+  FROM public.jobs
+  JOIN public.maids ON maids.id = jobs.maid_id
+  JOIN public.profiles ON profiles.id = jobs.customer_id
+  WHERE maids.user_id = auth.uid();
+
+REVOKE ALL ON public.public_maid_profiles FROM anon;
+REVOKE ALL ON public.job_customer_profiles FROM anon;
+GRANT SELECT ON public.public_maid_profiles TO authenticated;
+GRANT SELECT ON public.job_customer_profiles TO authenticated;
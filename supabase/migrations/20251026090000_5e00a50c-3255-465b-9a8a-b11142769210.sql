@@ -0,0 +1,102 @@
+-- Maintain maids.total_jobs and maids.completed_jobs from job status changes.
+-- total_jobs counts jobs the maid has accepted (accepted or completed),
+-- completed_jobs counts completed ones; leaving either state decrements.
+
+CREATE OR REPLACE FUNCTION public.update_maid_job_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old_total INTEGER := CASE WHEN TG_OP <> 'INSERT' AND OLD.status IN ('accepted', 'completed') THEN 1 ELSE 0 END;
+  _new_total INTEGER := CASE WHEN TG_OP <> 'DELETE' AND NEW.status IN ('accepted', 'completed') THEN 1 ELSE 0 END;
+  _old_completed INTEGER := CASE WHEN TG_OP <> 'INSERT' AND OLD.status = 'completed' THEN 1 ELSE 0 END;
+  _new_completed INTEGER := CASE WHEN TG_OP <> 'DELETE' AND NEW.status = 'completed' THEN 1 ELSE 0 END;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.maid_id IS DISTINCT FROM NEW.maid_id THEN
+    -- Reassigned job: move its contribution from the old maid to the new one
+    UPDATE public.maids
+    SET total_jobs = COALESCE(total_jobs, 0) - _old_total,
+        completed_jobs = COALESCE(completed_jobs, 0) - _old_completed
+    WHERE id = OLD.maid_id;
+
+    UPDATE public.maids
+    SET total_jobs = COALESCE(total_jobs, 0) + _new_total,
+        completed_jobs = COALESCE(completed_jobs, 0) + _new_completed
+    WHERE id = NEW.maid_id;
+  ELSIF _new_total <> _old_total OR _new_completed <> _old_completed THEN
+    UPDATE public.maids
+    SET total_jobs = COALESCE(total_jobs, 0) + _new_total - _old_total,
+        completed_jobs = COALESCE(completed_jobs, 0) + _new_completed - _old_completed
+    WHERE id = COALESCE(NEW.maid_id, OLD.maid_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_maid_job_counters_on_job_change
+  AFTER INSERT OR DELETE OR UPDATE OF status, maid_id ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_maid_job_counters();
+
+-- Maids may edit their own profile, but counters and rating are owned by triggers
+CREATE OR REPLACE FUNCTION public.protect_maid_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.total_jobs := OLD.total_jobs;
+    NEW.completed_jobs := OLD.completed_jobs;
+    NEW.rating := OLD.rating;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_maid_stats_on_update
+  BEFORE UPDATE ON public.maids
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_maid_stats();
+
+-- Repair tool: recompute counters from jobs for one maid, or all maids when _maid_id is NULL
+CREATE OR REPLACE FUNCTION public.reconcile_maid_job_counters(_maid_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _fixed INTEGER;
+BEGIN
+  WITH counts AS (
+    SELECT
+      maids.id,
+      COUNT(jobs.id) FILTER (WHERE jobs.status IN ('accepted', 'completed'))::INTEGER AS total_jobs,
+      COUNT(jobs.id) FILTER (WHERE jobs.status = 'completed')::INTEGER AS completed_jobs
+    FROM public.maids
+    LEFT JOIN public.jobs ON jobs.maid_id = maids.id
+    WHERE _maid_id IS NULL OR maids.id = _maid_id
+    GROUP BY maids.id
+  )
+  UPDATE public.maids
+  SET total_jobs = counts.total_jobs,
+      completed_jobs = counts.completed_jobs
+  FROM counts
+  WHERE maids.id = counts.id
+    AND (maids.total_jobs IS DISTINCT FROM counts.total_jobs
+      OR maids.completed_jobs IS DISTINCT FROM counts.completed_jobs);
+
+  GET DIAGNOSTICS _fixed = ROW_COUNT;
+  RETURN _fixed;
+END;
+$$;
+
+-- Only operators (service role) may run the repair
+REVOKE EXECUTE ON FUNCTION public.reconcile_maid_job_counters(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Bring existing counters in line; total_jobs was never maintained before
+SELECT public.reconcile_maid_job_counters();
@@ -0,0 +1,116 @@
+-- In-app chat between a job's customer and its assigned maid.
+-- Messages are read-only once the job has been completed or cancelled for over 30 days.
+
+-- When the job left the active states, used to lock the chat
+ALTER TABLE public.jobs ADD COLUMN closed_at TIMESTAMPTZ;
+
+UPDATE public.jobs SET closed_at = updated_at WHERE status IN ('completed', 'cancelled');
+
+CREATE OR REPLACE FUNCTION public.set_job_closed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('completed', 'cancelled') AND OLD.status NOT IN ('completed', 'cancelled') THEN
+    NEW.closed_at := NOW();
+  ELSIF NEW.status NOT IN ('completed', 'cancelled') THEN
+    NEW.closed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_job_closed_at_on_status_change
+  BEFORE UPDATE OF status ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_job_closed_at();
+
+CREATE TABLE public.messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE NOT NULL,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 2000),
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX messages_job_id_created_at_idx ON public.messages (job_id, created_at);
+CREATE INDEX messages_unread_idx ON public.messages (job_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Whether the user is the job's customer or its assigned maid
+CREATE OR REPLACE FUNCTION public.is_job_participant(_job_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.jobs
+    JOIN public.maids ON maids.id = jobs.maid_id
+    WHERE jobs.id = _job_id
+      AND (jobs.customer_id = _user_id OR maids.user_id = _user_id)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_job_chat_locked(_job_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE id = _job_id AND closed_at < NOW() - INTERVAL '30 days'
+  )
+$$;
+
+CREATE POLICY "Job participants can view messages"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (public.is_job_participant(job_id, auth.uid()));
+
+CREATE POLICY "Job participants can send messages"
+  ON public.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND read_at IS NULL
+    AND public.is_job_participant(job_id, auth.uid())
+    AND NOT public.is_job_chat_locked(job_id)
+  );
+
+-- Read receipts: mark the other party's messages on a job as read
+CREATE OR REPLACE FUNCTION public.mark_messages_read(_job_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _marked INTEGER;
+BEGIN
+  IF NOT public.is_job_participant(_job_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the customer and maid on this job can read its messages' USING ERRCODE = 'PT403';
+  END IF;
+
+  UPDATE public.messages
+  SET read_at = NOW()
+  WHERE job_id = _job_id AND sender_id <> auth.uid() AND read_at IS NULL;
+
+  GET DIAGNOSTICS _marked = ROW_COUNT;
+  RETURN _marked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_messages_read(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_messages_read(UUID) TO authenticated;
+
+-- Live delivery and read receipts through Supabase realtime
+ALTER TABLE public.messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
@@ -0,0 +1,3 @@
+-- Stream job inserts and status changes to both dashboards through Supabase realtime.
+-- RLS on jobs already limits each subscriber to their own bookings.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.jobs;
@@ -0,0 +1,289 @@
+-- Persisted in-app notifications, written by triggers on jobs, reviews and messages.
+-- Users can opt out per category through notification_preferences.
+
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('booking', 'review', 'message')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+CREATE INDEX notifications_unread_idx ON public.notifications (user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the triggers below and marked read through RPCs
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TABLE public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking BOOLEAN NOT NULL DEFAULT TRUE,
+  review BOOLEAN NOT NULL DEFAULT TRUE,
+  message BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Inserts a notification unless the recipient has muted that category.
+-- Users without a preferences row get everything.
+CREATE OR REPLACE FUNCTION public.notify_user(
+  _user_id UUID,
+  _kind TEXT,
+  _title TEXT,
+  _body TEXT,
+  _job_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enabled BOOLEAN;
+BEGIN
+  -- Maids whose account was removed have no one to notify
+  IF _user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT CASE _kind
+           WHEN 'booking' THEN booking
+           WHEN 'review' THEN review
+           WHEN 'message' THEN message
+         END
+  INTO _enabled
+  FROM public.notification_preferences
+  WHERE user_id = _user_id;
+
+  IF _enabled IS FALSE THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, kind, title, body, job_id)
+  VALUES (_user_id, _kind, _title, _body, _job_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(UUID, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_job_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_user_id UUID;
+  _maid_name TEXT;
+  _customer_name TEXT;
+  _day TEXT := to_char(NEW.job_date, 'FMDD Mon');
+BEGIN
+  SELECT maids.user_id, COALESCE(profiles.full_name, 'Your maid')
+  INTO _maid_user_id, _maid_name
+  FROM public.maids
+  LEFT JOIN public.profiles ON profiles.id = maids.user_id
+  WHERE maids.id = NEW.maid_id;
+
+  _customer_name := COALESCE(
+    (SELECT full_name FROM public.profiles WHERE id = NEW.customer_id),
+    'A customer'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'New booking request',
+      format('%s requested a booking for %s.', _customer_name, _day), NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Booking accepted',
+      format('%s accepted your booking for %s.', _maid_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'completed' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Job completed',
+      format('%s completed your booking for %s. Leave a review!', _maid_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND auth.uid() = NEW.customer_id THEN
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Booking cancelled',
+      format('%s cancelled the booking for %s.', _customer_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking',
+      CASE WHEN OLD.status = 'pending' THEN 'Booking declined' ELSE 'Booking cancelled' END,
+      format(
+        '%s %s your booking for %s.',
+        _maid_name,
+        CASE WHEN OLD.status = 'pending' THEN 'declined' ELSE 'cancelled' END,
+        _day
+      ),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_job_change_on_insert
+  AFTER INSERT ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_job_change();
+
+CREATE TRIGGER notify_job_change_on_status
+  AFTER UPDATE OF status ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_job_change();
+
+CREATE OR REPLACE FUNCTION public.notify_new_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_user_id UUID;
+  _customer_name TEXT;
+BEGIN
+  SELECT user_id INTO _maid_user_id FROM public.maids WHERE id = NEW.maid_id;
+  _customer_name := COALESCE(
+    (SELECT full_name FROM public.profiles WHERE id = NEW.customer_id),
+    'A customer'
+  );
+
+  PERFORM public.notify_user(
+    _maid_user_id, 'review', 'New review',
+    format('%s rated you %s out of 5.', _customer_name, NEW.rating), NEW.job_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_review_on_insert
+  AFTER INSERT ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_review();
+
+-- One unread notification per conversation: further messages refresh it
+-- instead of stacking up a notification per message.
+CREATE OR REPLACE FUNCTION public.notify_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _recipient_id UUID;
+  _sender_name TEXT;
+  _preview TEXT := left(NEW.body, 120);
+BEGIN
+  SELECT CASE WHEN jobs.customer_id = NEW.sender_id THEN maids.user_id ELSE jobs.customer_id END
+  INTO _recipient_id
+  FROM public.jobs
+  JOIN public.maids ON maids.id = jobs.maid_id
+  WHERE jobs.id = NEW.job_id;
+
+  SELECT full_name INTO _sender_name FROM public.profiles WHERE id = NEW.sender_id;
+
+  UPDATE public.notifications
+  SET body = _preview, created_at = NOW()
+  WHERE user_id = _recipient_id
+    AND job_id = NEW.job_id
+    AND kind = 'message'
+    AND read_at IS NULL;
+
+  IF NOT FOUND THEN
+    PERFORM public.notify_user(
+      _recipient_id, 'message', format('New message from %s', _sender_name), _preview, NEW.job_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_message_on_insert
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_message();
+
+REVOKE EXECUTE ON FUNCTION public.notify_job_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_new_review() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_new_message() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.mark_notification_read(_notification_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.notifications
+  SET read_at = NOW()
+  WHERE id = _notification_id AND user_id = auth.uid() AND read_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_all_notifications_read()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _marked INTEGER;
+BEGIN
+  UPDATE public.notifications
+  SET read_at = NOW()
+  WHERE user_id = auth.uid() AND read_at IS NULL;
+
+  GET DIAGNOSTICS _marked = ROW_COUNT;
+  RETURN _marked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_notification_read(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.mark_all_notifications_read() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_notification_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_all_notifications_read() TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,3 @@
+-- Administrators can inspect out-of-app delivery status.
+-- Added on its own because a new enum value cannot be used in the transaction that adds it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'admin';
@@ -0,0 +1,257 @@
+-- Outbox for email and SMS delivery of booking events.
+-- Triggers enqueue rows; the dispatch-notifications Edge Function drains them through
+-- the configured provider, retrying failures with exponential backoff.
+
+-- The admin role is granted from the SQL editor, never self-assigned at signup
+DROP POLICY "Users can insert own role on signup" ON public.user_roles;
+
+CREATE POLICY "Users can insert own role on signup"
+  ON public.user_roles FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND role <> 'admin');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Per-channel opt-outs alongside the in-app categories
+ALTER TABLE public.notification_preferences
+  ADD COLUMN email BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN sms BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE TABLE public.notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (
+    event IN (
+      'booking_confirmation',
+      'booking_requested',
+      'booking_accepted',
+      'booking_cancelled',
+      'booking_reminder'
+    )
+  ),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX notification_outbox_due_idx
+  ON public.notification_outbox (next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+CREATE INDEX notification_outbox_created_at_idx ON public.notification_outbox (created_at DESC);
+
+-- A job's reminder goes out once per recipient and channel
+CREATE UNIQUE INDEX notification_outbox_reminder_once_idx
+  ON public.notification_outbox (job_id, user_id, channel)
+  WHERE event = 'booking_reminder';
+
+CREATE TRIGGER update_notification_outbox_updated_at
+  BEFORE UPDATE ON public.notification_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Only the dispatcher (service role) writes; admins can see delivery status
+CREATE POLICY "Admins can view the notification outbox"
+  ON public.notification_outbox FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Details shared by every template for a job
+CREATE OR REPLACE FUNCTION public.job_dispatch_payload(_job public.jobs)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'job_id', _job.id,
+    'job_date', _job.job_date,
+    'job_type', _job.job_type,
+    'duration_quantity', _job.duration_quantity,
+    'start_time', _job.start_time,
+    'location', _job.location,
+    'amount', _job.amount,
+    'customer_name', (SELECT full_name FROM public.profiles WHERE id = _job.customer_id),
+    'maid_name', (
+      SELECT profiles.full_name
+      FROM public.maids
+      JOIN public.profiles ON profiles.id = maids.user_id
+      WHERE maids.id = _job.maid_id
+    )
+  )
+$$;
+
+-- Queues an email and, for everything but confirmations, an SMS to the user,
+-- skipping channels they have no address for or have opted out of
+CREATE OR REPLACE FUNCTION public.enqueue_dispatch(
+  _user_id UUID,
+  _event TEXT,
+  _job public.jobs,
+  _extra JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email TEXT;
+  _phone TEXT;
+  _prefs public.notification_preferences;
+  _payload JSONB;
+BEGIN
+  IF _user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT email, phone INTO _email, _phone FROM public.profiles WHERE id = _user_id;
+  SELECT * INTO _prefs FROM public.notification_preferences WHERE user_id = _user_id;
+  _payload := public.job_dispatch_payload(_job) || _extra;
+
+  IF _email IS NOT NULL AND _prefs.email IS NOT FALSE THEN
+    INSERT INTO public.notification_outbox (user_id, job_id, event, channel, recipient, payload)
+    VALUES (_user_id, _job.id, _event, 'email', _email, _payload)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF _event <> 'booking_confirmation' AND _phone IS NOT NULL AND _prefs.sms IS NOT FALSE THEN
+    INSERT INTO public.notification_outbox (user_id, job_id, event, channel, recipient, payload)
+    VALUES (_user_id, _job.id, _event, 'sms', _phone, _payload)
+    ON CONFLICT DO NOTHING;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_job_dispatch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_user_id UUID;
+BEGIN
+  SELECT user_id INTO _maid_user_id FROM public.maids WHERE id = NEW.maid_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_dispatch(NEW.customer_id, 'booking_confirmation', NEW);
+    PERFORM public.enqueue_dispatch(_maid_user_id, 'booking_requested', NEW);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'accepted' THEN
+      PERFORM public.enqueue_dispatch(NEW.customer_id, 'booking_accepted', NEW);
+    ELSIF NEW.status = 'cancelled' THEN
+      -- Tell whoever did not cancel it
+      IF auth.uid() = NEW.customer_id THEN
+        PERFORM public.enqueue_dispatch(
+          _maid_user_id, 'booking_cancelled', NEW, jsonb_build_object('cancelled_by', 'customer')
+        );
+      ELSE
+        PERFORM public.enqueue_dispatch(
+          NEW.customer_id, 'booking_cancelled', NEW,
+          jsonb_build_object('cancelled_by', 'maid', 'was_pending', OLD.status = 'pending')
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_job_dispatch_on_insert
+  AFTER INSERT ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_job_dispatch();
+
+CREATE TRIGGER enqueue_job_dispatch_on_status
+  AFTER UPDATE OF status ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_job_dispatch();
+
+-- Day-before reminders for both sides of every accepted job
+CREATE OR REPLACE FUNCTION public.enqueue_booking_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+  _count INTEGER := 0;
+BEGIN
+  FOR _job IN
+    SELECT * FROM public.jobs
+    WHERE status = 'accepted' AND job_date = CURRENT_DATE + 1
+  LOOP
+    PERFORM public.enqueue_dispatch(_job.customer_id, 'booking_reminder', _job);
+    PERFORM public.enqueue_dispatch(
+      (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking_reminder', _job
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Hands the dispatcher a batch of due messages. Rows stuck in 'sending' for
+-- ten minutes (a crashed run) are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_outbox_messages(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.notification_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_outbox
+  SET status = 'sending', attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM public.notification_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND updated_at < NOW() - INTERVAL '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.job_dispatch_payload(public.jobs) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_dispatch(UUID, TEXT, public.jobs, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_job_dispatch() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_booking_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_outbox_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_booking_reminders() TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_outbox_messages(INTEGER) TO service_role;
+
+-- Reminders go out at 18:00 IST the day before
+SELECT cron.schedule('enqueue-booking-reminders', '30 12 * * *', 'SELECT public.enqueue_booking_reminders()');
+
+-- Drain the outbox every minute. Expects 'project_url' and 'service_role_key' in Vault.
+SELECT cron.schedule(
+  'dispatch-notifications',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/dispatch-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,368 @@
+-- Scheduled job lifecycle: expire unanswered pending jobs, remind both sides
+-- 24h and 2h before accepted jobs start, and flag accepted jobs never marked complete.
+
+-- Tunables read by the scheduled functions; service role only
+CREATE TABLE public.app_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  description TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('pending_response_hours', '48', 'Pending jobs the maid has not answered within this many hours are expired'),
+  ('completion_grace_hours', '24', 'Accepted jobs still open this many hours after they end are flagged'),
+  ('timezone', 'Asia/Kolkata', 'Time zone job dates and start times are expressed in');
+
+CREATE OR REPLACE FUNCTION public.app_setting(_key TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT value FROM public.app_settings WHERE key = _key
+$$;
+
+-- Why the system cancelled a pending job, shown to the customer
+ALTER TABLE public.jobs
+  ADD COLUMN expiry_reason TEXT CHECK (expiry_reason IN ('no_response', 'date_passed')),
+  ADD COLUMN completion_flagged_at TIMESTAMPTZ;
+
+-- When the job starts, in absolute time. Jobs without a start time count from 09:00.
+CREATE OR REPLACE FUNCTION public.job_starts_at(_job public.jobs)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (_job.job_date + COALESCE(_job.start_time, TIME '09:00'))
+    AT TIME ZONE COALESCE(public.app_setting('timezone'), 'Asia/Kolkata')
+$$;
+
+-- Reminders already sent, so each goes out once per job
+CREATE TABLE public.job_reminders (
+  job_id UUID REFERENCES public.jobs(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('24h', '2h')),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (job_id, kind)
+);
+
+ALTER TABLE public.job_reminders ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.notification_outbox DROP CONSTRAINT notification_outbox_event_check;
+ALTER TABLE public.notification_outbox ADD CONSTRAINT notification_outbox_event_check CHECK (
+  event IN (
+    'booking_confirmation',
+    'booking_requested',
+    'booking_accepted',
+    'booking_cancelled',
+    'booking_expired',
+    'booking_reminder',
+    'booking_reminder_2h'
+  )
+);
+
+-- Reminder idempotency now lives in job_reminders
+DROP INDEX public.notification_outbox_reminder_once_idx;
+
+-- Expired jobs get their own wording instead of looking like a decline
+CREATE OR REPLACE FUNCTION public.notify_job_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_user_id UUID;
+  _maid_name TEXT;
+  _customer_name TEXT;
+  _day TEXT := to_char(NEW.job_date, 'FMDD Mon');
+BEGIN
+  SELECT maids.user_id, COALESCE(profiles.full_name, 'Your maid')
+  INTO _maid_user_id, _maid_name
+  FROM public.maids
+  LEFT JOIN public.profiles ON profiles.id = maids.user_id
+  WHERE maids.id = NEW.maid_id;
+
+  _customer_name := COALESCE(
+    (SELECT full_name FROM public.profiles WHERE id = NEW.customer_id),
+    'A customer'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'New booking request',
+      format('%s requested a booking for %s.', _customer_name, _day), NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Booking accepted',
+      format('%s accepted your booking for %s.', _maid_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'completed' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Job completed',
+      format('%s completed your booking for %s. Leave a review!', _maid_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND NEW.expiry_reason IS NOT NULL THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Booking expired',
+      CASE NEW.expiry_reason
+        WHEN 'date_passed' THEN format('Your booking with %s for %s expired because the date passed without a response.', _maid_name, _day)
+        ELSE format('Your booking with %s for %s expired because they did not respond in time.', _maid_name, _day)
+      END,
+      NEW.id
+    );
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Booking request expired',
+      format('The request from %s for %s expired without a response.', _customer_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND auth.uid() = NEW.customer_id THEN
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Booking cancelled',
+      format('%s cancelled the booking for %s.', _customer_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking',
+      CASE WHEN OLD.status = 'pending' THEN 'Booking declined' ELSE 'Booking cancelled' END,
+      format(
+        '%s %s your booking for %s.',
+        _maid_name,
+        CASE WHEN OLD.status = 'pending' THEN 'declined' ELSE 'cancelled' END,
+        _day
+      ),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_job_dispatch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_user_id UUID;
+BEGIN
+  SELECT user_id INTO _maid_user_id FROM public.maids WHERE id = NEW.maid_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_dispatch(NEW.customer_id, 'booking_confirmation', NEW);
+    PERFORM public.enqueue_dispatch(_maid_user_id, 'booking_requested', NEW);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'accepted' THEN
+      PERFORM public.enqueue_dispatch(NEW.customer_id, 'booking_accepted', NEW);
+    ELSIF NEW.status = 'cancelled' AND NEW.expiry_reason IS NOT NULL THEN
+      PERFORM public.enqueue_dispatch(NEW.customer_id, 'booking_expired', NEW);
+    ELSIF NEW.status = 'cancelled' THEN
+      -- Tell whoever did not cancel it
+      IF auth.uid() = NEW.customer_id THEN
+        PERFORM public.enqueue_dispatch(
+          _maid_user_id, 'booking_cancelled', NEW, jsonb_build_object('cancelled_by', 'customer')
+        );
+      ELSE
+        PERFORM public.enqueue_dispatch(
+          NEW.customer_id, 'booking_cancelled', NEW,
+          jsonb_build_object('cancelled_by', 'maid', 'was_pending', OLD.status = 'pending')
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.job_dispatch_payload(_job public.jobs)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'job_id', _job.id,
+    'job_date', _job.job_date,
+    'job_type', _job.job_type,
+    'duration_quantity', _job.duration_quantity,
+    'start_time', _job.start_time,
+    'location', _job.location,
+    'amount', _job.amount,
+    'expiry_reason', _job.expiry_reason,
+    'customer_name', (SELECT full_name FROM public.profiles WHERE id = _job.customer_id),
+    'maid_name', (
+      SELECT profiles.full_name
+      FROM public.maids
+      JOIN public.profiles ON profiles.id = maids.user_id
+      WHERE maids.id = _job.maid_id
+    )
+  )
+$$;
+
+-- Cancels pending jobs whose date has passed or that the maid left unanswered
+-- for longer than pending_response_hours
+CREATE OR REPLACE FUNCTION public.expire_stale_jobs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today DATE := (NOW() AT TIME ZONE COALESCE(public.app_setting('timezone'), 'Asia/Kolkata'))::DATE;
+  _window INTERVAL := make_interval(hours => COALESCE(public.app_setting('pending_response_hours'), '48')::INTEGER);
+  _expired INTEGER;
+BEGIN
+  UPDATE public.jobs
+  SET status = 'cancelled',
+      expiry_reason = CASE WHEN job_date < _today THEN 'date_passed' ELSE 'no_response' END
+  WHERE status = 'pending'
+    AND (job_date < _today OR created_at < NOW() - _window);
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$;
+
+-- Reminds both sides of accepted jobs 24 hours and 2 hours before they start.
+-- Jobs accepted inside the 2 hour window only get the 2 hour reminder.
+CREATE OR REPLACE FUNCTION public.enqueue_booking_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+  _kind TEXT;
+  _maid_user_id UUID;
+  _starts_at TIMESTAMPTZ;
+  _count INTEGER := 0;
+BEGIN
+  FOR _job IN
+    SELECT * FROM public.jobs
+    WHERE status = 'accepted'
+      AND public.job_starts_at(jobs) > NOW()
+      AND public.job_starts_at(jobs) <= NOW() + INTERVAL '24 hours'
+  LOOP
+    _starts_at := public.job_starts_at(_job);
+    _kind := CASE WHEN _starts_at <= NOW() + INTERVAL '2 hours' THEN '2h' ELSE '24h' END;
+
+    INSERT INTO public.job_reminders (job_id, kind)
+    VALUES (_job.id, _kind)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    SELECT user_id INTO _maid_user_id FROM public.maids WHERE id = _job.maid_id;
+
+    PERFORM public.enqueue_dispatch(
+      _job.customer_id, CASE _kind WHEN '2h' THEN 'booking_reminder_2h' ELSE 'booking_reminder' END, _job
+    );
+    PERFORM public.enqueue_dispatch(
+      _maid_user_id, CASE _kind WHEN '2h' THEN 'booking_reminder_2h' ELSE 'booking_reminder' END, _job
+    );
+    PERFORM public.notify_user(
+      _job.customer_id, 'booking',
+      CASE _kind WHEN '2h' THEN 'Booking starts soon' ELSE 'Upcoming booking' END,
+      format('Your booking on %s starts at %s.', to_char(_job.job_date, 'FMDD Mon'),
+             to_char(COALESCE(_job.start_time, TIME '09:00'), 'HH24:MI')),
+      _job.id
+    );
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking',
+      CASE _kind WHEN '2h' THEN 'Job starts soon' ELSE 'Upcoming job' END,
+      format('Your job at %s on %s starts at %s.', _job.location, to_char(_job.job_date, 'FMDD Mon'),
+             to_char(COALESCE(_job.start_time, TIME '09:00'), 'HH24:MI')),
+      _job.id
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Flags accepted jobs still open completion_grace_hours after their last day
+-- and nudges the maid once to mark them complete
+CREATE OR REPLACE FUNCTION public.flag_incomplete_jobs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tz TEXT := COALESCE(public.app_setting('timezone'), 'Asia/Kolkata');
+  _grace INTERVAL := make_interval(hours => COALESCE(public.app_setting('completion_grace_hours'), '24')::INTEGER);
+  _job public.jobs;
+  _count INTEGER := 0;
+BEGIN
+  FOR _job IN
+    UPDATE public.jobs
+    SET completion_flagged_at = NOW()
+    WHERE status = 'accepted'
+      AND completion_flagged_at IS NULL
+      AND (upper(public.job_date_span(job_type, job_date, duration_quantity))::TIMESTAMP AT TIME ZONE _tz) + _grace < NOW()
+    RETURNING *
+  LOOP
+    PERFORM public.notify_user(
+      (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking', 'Job not marked complete',
+      format('Your job at %s on %s is still open. Mark it complete once it is done.',
+             _job.location, to_char(_job.job_date, 'FMDD Mon')),
+      _job.id
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_job_lifecycle()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.expire_stale_jobs();
+  PERFORM public.enqueue_booking_reminders();
+  PERFORM public.flag_incomplete_jobs();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.app_setting(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.job_starts_at(public.jobs) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_stale_jobs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.flag_incomplete_jobs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_job_lifecycle() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_job_lifecycle() TO service_role;
+
+-- Replaces the once-a-day reminder run from the outbox migration
+SELECT cron.unschedule('enqueue-booking-reminders');
+SELECT cron.schedule('job-lifecycle', '*/5 * * * *', 'SELECT public.run_job_lifecycle()');
+
+-- Clear out anything already stale
+SELECT public.expire_stale_jobs();
@@ -0,0 +1,582 @@
+-- Recurring bookings: a weekly schedule (days of the week, every N weeks, optional end)
+-- that the maid accepts once. Concrete jobs are generated a rolling few weeks ahead;
+-- single occurrences can be skipped (cancelled) or moved without touching the series.
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('series_horizon_weeks', '4', 'How many weeks ahead recurring bookings generate their jobs');
+
+CREATE TABLE public.recurring_bookings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  maid_id UUID REFERENCES public.maids(id) ON DELETE CASCADE NOT NULL,
+  job_type TEXT NOT NULL CHECK (job_type IN ('hourly', 'daily')),
+  duration_quantity INTEGER NOT NULL CHECK (duration_quantity > 0),
+  start_time TIME,
+  location TEXT NOT NULL,
+  -- Days of the week using EXTRACT(DOW) numbering, 0 = Sunday
+  weekdays SMALLINT[] NOT NULL CHECK (
+    cardinality(weekdays) BETWEEN 1 AND 7 AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]
+  ),
+  interval_weeks SMALLINT NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 4),
+  starts_on DATE NOT NULL,
+  ends_on DATE,
+  amount_per_visit NUMERIC(10, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'paused', 'ended', 'declined')),
+  generated_until DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on),
+  CHECK ((job_type = 'hourly') = (start_time IS NOT NULL))
+);
+
+CREATE INDEX recurring_bookings_customer_id_idx ON public.recurring_bookings (customer_id);
+CREATE INDEX recurring_bookings_maid_id_idx ON public.recurring_bookings (maid_id);
+
+CREATE TRIGGER update_recurring_bookings_updated_at
+  BEFORE UPDATE ON public.recurring_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.recurring_bookings ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the series functions below
+CREATE POLICY "Customers can view their recurring bookings"
+  ON public.recurring_bookings FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Maids can view their recurring bookings"
+  ON public.recurring_bookings FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.maids WHERE maids.id = maid_id AND maids.user_id = auth.uid()));
+
+-- Display name and avatar of the customer on each series offered to the calling maid
+CREATE VIEW public.series_customer_profiles AS
+  SELECT
+    recurring_bookings.id AS series_id,
+    recurring_bookings.customer_id,
+    profiles.full_name,
+    profiles.avatar_url
+  FROM public.recurring_bookings
+  JOIN public.maids ON maids.id = recurring_bookings.maid_id
+  JOIN public.profiles ON profiles.id = recurring_bookings.customer_id
+  WHERE maids.user_id = auth.uid();
+
+REVOKE ALL ON public.series_customer_profiles FROM anon;
+GRANT SELECT ON public.series_customer_profiles TO authenticated;
+
+-- occurrence_date is the date the schedule produced; job_date may differ once moved
+ALTER TABLE public.jobs
+  ADD COLUMN series_id UUID REFERENCES public.recurring_bookings(id) ON DELETE SET NULL,
+  ADD COLUMN occurrence_date DATE;
+
+CREATE UNIQUE INDEX jobs_series_occurrence_idx ON public.jobs (series_id, occurrence_date)
+  WHERE series_id IS NOT NULL;
+
+-- Generated occurrences are announced once for the whole series, not per job
+DROP TRIGGER notify_job_change_on_insert ON public.jobs;
+CREATE TRIGGER notify_job_change_on_insert
+  AFTER INSERT ON public.jobs
+  FOR EACH ROW
+  WHEN (NEW.series_id IS NULL)
+  EXECUTE FUNCTION public.notify_job_change();
+
+DROP TRIGGER enqueue_job_dispatch_on_insert ON public.jobs;
+CREATE TRIGGER enqueue_job_dispatch_on_insert
+  AFTER INSERT ON public.jobs
+  FOR EACH ROW
+  WHEN (NEW.series_id IS NULL)
+  EXECUTE FUNCTION public.enqueue_job_dispatch();
+
+CREATE OR REPLACE FUNCTION public.lock_series_for_customer(_series_id UUID)
+RETURNS public.recurring_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+BEGIN
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring booking not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF _series.customer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the customer who booked this series can change it' USING ERRCODE = 'PT403';
+  END IF;
+
+  RETURN _series;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.lock_series_for_maid(_series_id UUID)
+RETURNS public.recurring_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+BEGIN
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring booking not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.maids WHERE id = _series.maid_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the assigned maid can respond to this series' USING ERRCODE = 'PT403';
+  END IF;
+
+  RETURN _series;
+END;
+$$;
+
+-- Dates in [_from, _to] the schedule lands on. Weeks are counted from the
+-- Sunday on or before starts_on so "every 2 weeks" stays aligned.
+CREATE OR REPLACE FUNCTION public.series_occurrence_dates(_series public.recurring_bookings, _from DATE, _to DATE)
+RETURNS SETOF DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT d::DATE
+  FROM generate_series(
+    GREATEST(_from, _series.starts_on),
+    LEAST(_to, COALESCE(_series.ends_on, _to)),
+    INTERVAL '1 day'
+  ) AS d
+  WHERE EXTRACT(DOW FROM d)::SMALLINT = ANY (_series.weekdays)
+    AND ((d::DATE - (_series.starts_on - EXTRACT(DOW FROM _series.starts_on)::INTEGER)) / 7)
+        % _series.interval_weeks = 0
+$$;
+
+-- Creates accepted jobs for an active series up to the rolling horizon. Dates the
+-- maid is unavailable for are left out rather than failing the whole run.
+CREATE OR REPLACE FUNCTION public.generate_series_jobs(_series_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+  _until DATE;
+  _date DATE;
+  _created INTEGER := 0;
+BEGIN
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id;
+  IF NOT FOUND OR _series.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  _until := CURRENT_DATE + 7 * COALESCE(public.app_setting('series_horizon_weeks'), '4')::INTEGER;
+
+  FOR _date IN SELECT * FROM public.series_occurrence_dates(_series, CURRENT_DATE + 1, _until) LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.jobs WHERE series_id = _series.id AND occurrence_date = _date
+    );
+
+    BEGIN
+      PERFORM public.assert_maid_available(
+        _series.maid_id, _series.job_type, _date, _series.duration_quantity, _series.start_time
+      );
+    EXCEPTION WHEN SQLSTATE 'PT409' THEN
+      CONTINUE;
+    END;
+
+    INSERT INTO public.jobs (
+      customer_id, maid_id, job_date, duration_quantity, duration_unit, start_time,
+      location, job_type, amount, status, series_id, occurrence_date
+    )
+    VALUES (
+      _series.customer_id,
+      _series.maid_id,
+      _date,
+      _series.duration_quantity,
+      CASE _series.job_type WHEN 'hourly' THEN 'hour' ELSE 'day' END,
+      _series.start_time,
+      _series.location,
+      _series.job_type,
+      _series.amount_per_visit,
+      'accepted',
+      _series.id,
+      _date
+    );
+    _created := _created + 1;
+  END LOOP;
+
+  UPDATE public.recurring_bookings SET generated_until = _until WHERE id = _series.id;
+  RETURN _created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_all_series_jobs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series_id UUID;
+  _created INTEGER := 0;
+BEGIN
+  FOR _series_id IN SELECT id FROM public.recurring_bookings WHERE status = 'active' LOOP
+    _created := _created + public.generate_series_jobs(_series_id);
+  END LOOP;
+  RETURN _created;
+END;
+$$;
+
+-- Removes generated occurrences after _after that have not happened yet
+CREATE OR REPLACE FUNCTION public.clear_future_occurrences(_series_id UUID, _after DATE)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.jobs
+  WHERE series_id = _series_id
+    AND status = 'accepted'
+    AND job_date > GREATEST(_after, CURRENT_DATE)
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_recurring_booking(
+  _maid_id UUID,
+  _job_type TEXT,
+  _weekdays SMALLINT[],
+  _interval_weeks SMALLINT,
+  _starts_on DATE,
+  _quantity INTEGER,
+  _location TEXT,
+  _start_time TIME DEFAULT NULL,
+  _ends_on DATE DEFAULT NULL
+)
+RETURNS public.recurring_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+  _maid_user_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'customer') THEN
+    RAISE EXCEPTION 'Only customers can book maids' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _job_type NOT IN ('hourly', 'daily') THEN
+    RAISE EXCEPTION 'Recurring bookings are hourly or daily' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _job_type = 'daily' AND _quantity <> 1 THEN
+    RAISE EXCEPTION 'Daily recurring bookings cover one day per visit' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _job_type = 'hourly' AND (_quantity NOT BETWEEN 1 AND 12 OR _start_time IS NULL) THEN
+    RAISE EXCEPTION 'Hourly visits need a start time and 1 to 12 hours' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _job_type = 'hourly' AND _start_time + make_interval(hours => _quantity) <= _start_time THEN
+    RAISE EXCEPTION 'Hourly bookings must finish on the same day' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _weekdays IS NULL OR cardinality(_weekdays) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one day of the week' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _starts_on IS NULL OR _starts_on <= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Recurring bookings must start after today' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _ends_on IS NOT NULL AND _ends_on < _starts_on THEN
+    RAISE EXCEPTION 'The end date must be after the start date' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _location IS NULL OR length(trim(_location)) < 3 THEN
+    RAISE EXCEPTION 'Location must be at least 3 characters' USING ERRCODE = 'PT400';
+  END IF;
+
+  INSERT INTO public.recurring_bookings (
+    customer_id, maid_id, job_type, duration_quantity, start_time, location,
+    weekdays, interval_weeks, starts_on, ends_on, amount_per_visit
+  )
+  VALUES (
+    auth.uid(),
+    _maid_id,
+    _job_type,
+    _quantity,
+    CASE WHEN _job_type = 'hourly' THEN _start_time END,
+    trim(_location),
+    (SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(_weekdays) AS d),
+    COALESCE(_interval_weeks, 1),
+    _starts_on,
+    _ends_on,
+    public.compute_job_amount(_maid_id, _job_type, _quantity)
+  )
+  RETURNING * INTO _series;
+
+  SELECT user_id INTO _maid_user_id FROM public.maids WHERE id = _maid_id;
+  PERFORM public.notify_user(
+    _maid_user_id, 'booking', 'New recurring booking request',
+    format('%s would like a recurring booking starting %s.',
+           COALESCE((SELECT full_name FROM public.profiles WHERE id = auth.uid()), 'A customer'),
+           to_char(_starts_on, 'FMDD Mon'))
+  );
+
+  RETURN _series;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_series(_series_id UUID)
+RETURNS public.recurring_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+BEGIN
+  _series := public.lock_series_for_maid(_series_id);
+
+  IF _series.status <> 'pending' THEN
+    RAISE EXCEPTION 'Cannot accept a series that is %', _series.status USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.recurring_bookings SET status = 'active' WHERE id = _series_id RETURNING * INTO _series;
+  PERFORM public.generate_series_jobs(_series_id);
+
+  PERFORM public.notify_user(
+    _series.customer_id, 'booking', 'Recurring booking accepted',
+    format('%s accepted your recurring booking starting %s.',
+           COALESCE((SELECT full_name FROM public.profiles WHERE id = auth.uid()), 'Your maid'),
+           to_char(_series.starts_on, 'FMDD Mon'))
+  );
+
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id;
+  RETURN _series;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_series(_series_id UUID)
+RETURNS public.recurring_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+BEGIN
+  _series := public.lock_series_for_maid(_series_id);
+
+  IF _series.status <> 'pending' THEN
+    RAISE EXCEPTION 'Cannot decline a series that is %', _series.status USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.recurring_bookings SET status = 'declined' WHERE id = _series_id RETURNING * INTO _series;
+
+  PERFORM public.notify_user(
+    _series.customer_id, 'booking', 'Recurring booking declined',
+    format('%s declined your recurring booking starting %s.',
+           COALESCE((SELECT full_name FROM public.profiles WHERE id = auth.uid()), 'Your maid'),
+           to_char(_series.starts_on, 'FMDD Mon'))
+  );
+
+  RETURN _series;
+END;
+$$;
+
+-- Pausing drops the upcoming occurrences; resuming regenerates them
+CREATE OR REPLACE FUNCTION public.pause_series(_series_id UUID)
+RETURNS public.recurring_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+BEGIN
+  _series := public.lock_series_for_customer(_series_id);
+
+  IF _series.status <> 'active' THEN
+    RAISE EXCEPTION 'Cannot pause a series that is %', _series.status USING ERRCODE = 'PT409';
+  END IF;
+
+  PERFORM public.clear_future_occurrences(_series_id, CURRENT_DATE);
+  UPDATE public.recurring_bookings SET status = 'paused' WHERE id = _series_id RETURNING * INTO _series;
+
+  PERFORM public.notify_user(
+    (SELECT user_id FROM public.maids WHERE id = _series.maid_id), 'booking', 'Recurring booking paused',
+    format('%s paused their recurring booking.',
+           COALESCE((SELECT full_name FROM public.profiles WHERE id = _series.customer_id), 'A customer'))
+  );
+
+  RETURN _series;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resume_series(_series_id UUID)
+RETURNS public.recurring_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+BEGIN
+  _series := public.lock_series_for_customer(_series_id);
+
+  IF _series.status <> 'paused' THEN
+    RAISE EXCEPTION 'Cannot resume a series that is %', _series.status USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.recurring_bookings SET status = 'active' WHERE id = _series_id;
+  PERFORM public.generate_series_jobs(_series_id);
+
+  PERFORM public.notify_user(
+    (SELECT user_id FROM public.maids WHERE id = _series.maid_id), 'booking', 'Recurring booking resumed',
+    format('%s resumed their recurring booking.',
+           COALESCE((SELECT full_name FROM public.profiles WHERE id = _series.customer_id), 'A customer'))
+  );
+
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id;
+  RETURN _series;
+END;
+$$;
+
+-- Either side can end a series; occurrences after the end date are removed
+CREATE OR REPLACE FUNCTION public.end_series(_series_id UUID, _ends_on DATE DEFAULT NULL)
+RETURNS public.recurring_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+  _maid_user_id UUID;
+  _last_day DATE := COALESCE(_ends_on, CURRENT_DATE);
+  _was_pending BOOLEAN;
+BEGIN
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring booking not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  SELECT user_id INTO _maid_user_id FROM public.maids WHERE id = _series.maid_id;
+
+  IF auth.uid() IS DISTINCT FROM _series.customer_id AND auth.uid() IS DISTINCT FROM _maid_user_id THEN
+    RAISE EXCEPTION 'Only the customer or maid on this series can end it' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _series.status NOT IN ('pending', 'active', 'paused') THEN
+    RAISE EXCEPTION 'Cannot end a series that is %', _series.status USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _last_day < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The end date cannot be in the past' USING ERRCODE = 'PT400';
+  END IF;
+
+  _was_pending := _series.status = 'pending';
+
+  PERFORM public.clear_future_occurrences(_series_id, _last_day);
+  UPDATE public.recurring_bookings
+  SET status = 'ended', ends_on = GREATEST(LEAST(COALESCE(ends_on, _last_day), _last_day), starts_on)
+  WHERE id = _series_id
+  RETURNING * INTO _series;
+
+  PERFORM public.notify_user(
+    CASE WHEN auth.uid() = _series.customer_id THEN _maid_user_id ELSE _series.customer_id END,
+    'booking', 'Recurring booking ended',
+    CASE
+      WHEN _last_day < _series.starts_on OR _was_pending
+        THEN format('The recurring booking starting %s was called off.', to_char(_series.starts_on, 'FMDD Mon'))
+      ELSE format('The recurring booking ends after %s.', to_char(_series.ends_on, 'FMDD Mon'))
+    END
+  );
+
+  RETURN _series;
+END;
+$$;
+
+-- Moves one upcoming occurrence of an accepted series to another day or time.
+-- The series already has the maid's agreement, so the move only has to fit her schedule.
+CREATE OR REPLACE FUNCTION public.reschedule_occurrence(_job_id UUID, _job_date DATE, _start_time TIME DEFAULT NULL)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_customer(_job_id);
+
+  IF _job.series_id IS NULL THEN
+    RAISE EXCEPTION 'Only recurring occurrences can be moved this way' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job.status <> 'accepted' OR _job.job_date <= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Only upcoming occurrences can be moved' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job_date IS NULL OR _job_date <= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Pick a date after today' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _job.job_type = 'hourly' AND _start_time IS NULL THEN
+    _start_time := _job.start_time;
+  END IF;
+
+  IF _job.job_type = 'hourly' AND _start_time + make_interval(hours => _job.duration_quantity) <= _start_time THEN
+    RAISE EXCEPTION 'Hourly bookings must finish on the same day' USING ERRCODE = 'PT400';
+  END IF;
+
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _job_date, _job.duration_quantity, _start_time, _job.id
+  );
+
+  UPDATE public.jobs
+  SET job_date = _job_date,
+      start_time = CASE WHEN job_type = 'hourly' THEN _start_time END
+  WHERE id = _job_id
+  RETURNING * INTO _job;
+
+  -- Reminders for the old slot no longer apply
+  DELETE FROM public.job_reminders WHERE job_id = _job_id;
+
+  PERFORM public.notify_user(
+    (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking', 'Visit moved',
+    format('The %s visit was moved to %s.', to_char(_job.occurrence_date, 'FMDD Mon'), to_char(_job_date, 'FMDD Mon')),
+    _job.id
+  );
+
+  RETURN _job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_series_for_customer(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_series_for_maid(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.series_occurrence_dates(public.recurring_bookings, DATE, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_series_jobs(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_all_series_jobs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.clear_future_occurrences(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.create_recurring_booking(UUID, TEXT, SMALLINT[], SMALLINT, DATE, INTEGER, TEXT, TIME, DATE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_series(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.decline_series(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.pause_series(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resume_series(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.end_series(UUID, DATE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reschedule_occurrence(UUID, DATE, TIME) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_recurring_booking(UUID, TEXT, SMALLINT[], SMALLINT, DATE, INTEGER, TEXT, TIME, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_series(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_series(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.pause_series(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resume_series(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_series(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reschedule_occurrence(UUID, DATE, TIME) TO authenticated;
+
+-- Keep the rolling window filled
+SELECT cron.schedule('generate-series-jobs', '30 0 * * *', 'SELECT public.generate_all_series_jobs()');
@@ -0,0 +1,294 @@
+-- Reschedule proposals: either party suggests a new date/time, the other accepts or
+-- declines. Proposing again while one is open supersedes it, which is how a
+-- counter-proposal works. Every proposal is kept as history.
+
+CREATE TABLE public.reschedule_proposals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  proposed_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  previous_date DATE NOT NULL,
+  previous_start_time TIME,
+  proposed_date DATE NOT NULL,
+  proposed_start_time TIME,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'accepted', 'declined', 'withdrawn', 'superseded', 'closed')
+  ),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- At most one open proposal per job
+CREATE UNIQUE INDEX reschedule_proposals_one_pending_idx
+  ON public.reschedule_proposals (job_id)
+  WHERE status = 'pending';
+
+CREATE INDEX reschedule_proposals_job_idx ON public.reschedule_proposals (job_id, created_at DESC);
+
+ALTER TABLE public.reschedule_proposals ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the functions below
+CREATE POLICY "Job participants can view reschedule proposals"
+  ON public.reschedule_proposals FOR SELECT
+  TO authenticated
+  USING (public.is_job_participant(job_id, auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reschedule_proposals;
+
+ALTER TABLE public.notification_outbox DROP CONSTRAINT notification_outbox_event_check;
+ALTER TABLE public.notification_outbox ADD CONSTRAINT notification_outbox_event_check CHECK (
+  event IN (
+    'booking_confirmation',
+    'booking_requested',
+    'booking_accepted',
+    'booking_cancelled',
+    'booking_expired',
+    'booking_reminder',
+    'booking_reminder_2h',
+    'booking_rescheduled'
+  )
+);
+
+-- The other participant of a job: the maid's user when the customer asks, and vice versa
+CREATE OR REPLACE FUNCTION public.job_counterparty(_job public.jobs, _user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _job.customer_id = _user_id THEN (SELECT user_id FROM public.maids WHERE id = _job.maid_id)
+    ELSE _job.customer_id
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.format_job_slot(_date DATE, _start_time TIME)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(_date, 'FMDD Mon') || COALESCE(' at ' || to_char(_start_time, 'HH24:MI'), '')
+$$;
+
+CREATE OR REPLACE FUNCTION public.propose_reschedule(_job_id UUID, _job_date DATE, _start_time TIME DEFAULT NULL)
+RETURNS public.reschedule_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+  _proposal public.reschedule_proposals;
+  _name TEXT;
+BEGIN
+  SELECT * INTO _job FROM public.jobs WHERE id = _job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF NOT public.is_job_participant(_job_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the customer or maid on this job can reschedule it' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _job.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'Only open bookings can be rescheduled' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job_date IS NULL OR _job_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Pick a date from today onwards' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _job.job_type = 'hourly' THEN
+    _start_time := COALESCE(_start_time, _job.start_time);
+    IF _start_time + make_interval(hours => _job.duration_quantity) <= _start_time THEN
+      RAISE EXCEPTION 'Hourly bookings must finish on the same day' USING ERRCODE = 'PT400';
+    END IF;
+  ELSE
+    _start_time := NULL;
+  END IF;
+
+  IF _job_date = _job.job_date AND _start_time IS NOT DISTINCT FROM _job.start_time THEN
+    RAISE EXCEPTION 'The booking is already at that time' USING ERRCODE = 'PT400';
+  END IF;
+
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _job_date, _job.duration_quantity, _start_time, _job.id
+  );
+
+  -- A new proposal replaces the open one, whoever made it
+  UPDATE public.reschedule_proposals
+  SET status = 'superseded', responded_at = NOW()
+  WHERE job_id = _job_id AND status = 'pending';
+
+  INSERT INTO public.reschedule_proposals (
+    job_id, proposed_by, previous_date, previous_start_time, proposed_date, proposed_start_time
+  )
+  VALUES (_job_id, auth.uid(), _job.job_date, _job.start_time, _job_date, _start_time)
+  RETURNING * INTO _proposal;
+
+  _name := COALESCE((SELECT full_name FROM public.profiles WHERE id = auth.uid()), 'The other party');
+  PERFORM public.notify_user(
+    public.job_counterparty(_job, auth.uid()), 'booking', 'New time proposed',
+    format('%s asked to move the %s booking to %s.', _name,
+           public.format_job_slot(_job.job_date, _job.start_time), public.format_job_slot(_job_date, _start_time)),
+    _job_id
+  );
+
+  RETURN _proposal;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_reschedule(_proposal_id UUID, _accept BOOLEAN)
+RETURNS public.reschedule_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _proposal public.reschedule_proposals;
+  _job public.jobs;
+  _name TEXT;
+BEGIN
+  SELECT * INTO _proposal FROM public.reschedule_proposals WHERE id = _proposal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  SELECT * INTO _job FROM public.jobs WHERE id = _proposal.job_id FOR UPDATE;
+
+  IF NOT public.is_job_participant(_job.id, auth.uid()) OR _proposal.proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'Only the other party can respond to this proposal' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _proposal.status <> 'pending' OR _job.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'This proposal is no longer open' USING ERRCODE = 'PT409';
+  END IF;
+
+  _name := COALESCE((SELECT full_name FROM public.profiles WHERE id = auth.uid()), 'The other party');
+
+  IF NOT _accept THEN
+    UPDATE public.reschedule_proposals
+    SET status = 'declined', responded_at = NOW()
+    WHERE id = _proposal_id
+    RETURNING * INTO _proposal;
+
+    PERFORM public.notify_user(
+      _proposal.proposed_by, 'booking', 'New time declined',
+      format('%s declined moving the booking to %s. It stays on %s.', _name,
+             public.format_job_slot(_proposal.proposed_date, _proposal.proposed_start_time),
+             public.format_job_slot(_job.job_date, _job.start_time)),
+      _job.id
+    );
+    RETURN _proposal;
+  END IF;
+
+  IF _proposal.proposed_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The proposed date has already passed' USING ERRCODE = 'PT409';
+  END IF;
+
+  -- Availability may have changed since the proposal was made
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _proposal.proposed_date, _job.duration_quantity,
+    _proposal.proposed_start_time, _job.id
+  );
+
+  UPDATE public.jobs
+  SET job_date = _proposal.proposed_date,
+      start_time = _proposal.proposed_start_time,
+      completion_flagged_at = NULL
+  WHERE id = _job.id
+  RETURNING * INTO _job;
+
+  -- Reminders for the old slot no longer apply
+  DELETE FROM public.job_reminders WHERE job_id = _job.id;
+
+  UPDATE public.reschedule_proposals
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = _proposal_id
+  RETURNING * INTO _proposal;
+
+  PERFORM public.notify_user(
+    _proposal.proposed_by, 'booking', 'New time accepted',
+    format('%s agreed to move the booking to %s.', _name,
+           public.format_job_slot(_job.job_date, _job.start_time)),
+    _job.id
+  );
+
+  PERFORM public.enqueue_dispatch(
+    _job.customer_id, 'booking_rescheduled', _job,
+    jsonb_build_object('previous_date', _proposal.previous_date)
+  );
+  PERFORM public.enqueue_dispatch(
+    (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking_rescheduled', _job,
+    jsonb_build_object('previous_date', _proposal.previous_date)
+  );
+
+  RETURN _proposal;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.withdraw_reschedule(_proposal_id UUID)
+RETURNS public.reschedule_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _proposal public.reschedule_proposals;
+BEGIN
+  SELECT * INTO _proposal FROM public.reschedule_proposals WHERE id = _proposal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF _proposal.proposed_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the person who proposed this time can withdraw it' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'This proposal is no longer open' USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.reschedule_proposals
+  SET status = 'withdrawn', responded_at = NOW()
+  WHERE id = _proposal_id
+  RETURNING * INTO _proposal;
+
+  RETURN _proposal;
+END;
+$$;
+
+-- Open proposals die with the booking
+CREATE OR REPLACE FUNCTION public.close_reschedule_proposals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.reschedule_proposals
+  SET status = 'closed', responded_at = NOW()
+  WHERE job_id = NEW.id AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER close_reschedule_proposals_on_close
+  AFTER UPDATE OF status ON public.jobs
+  FOR EACH ROW
+  WHEN (NEW.status IN ('completed', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.close_reschedule_proposals();
+
+REVOKE EXECUTE ON FUNCTION public.job_counterparty(public.jobs, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_reschedule_proposals() FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.propose_reschedule(UUID, DATE, TIME) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.respond_to_reschedule(UUID, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.withdraw_reschedule(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.propose_reschedule(UUID, DATE, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_reschedule(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_reschedule(UUID) TO authenticated;
@@ -0,0 +1,333 @@
+-- Cancellation policy: record who cancelled and why, charge customers a fee for late
+-- cancellations of accepted jobs, and penalise maids who back out of accepted jobs
+-- at short notice. Penalties feed a reliability score shown on the maid's profile.
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('cancellation_free_hours', '24', 'Customers can cancel an accepted job free of charge until this many hours before it starts'),
+  ('cancellation_fee_percent', '50', 'Share of the job amount charged for cancelling inside the free window'),
+  ('maid_late_cancellation_hours', '24', 'Maids backing out of an accepted job within this many hours of the start are penalised'),
+  ('maid_late_cancellation_points', '10', 'Reliability points lost for each late back-out'),
+  ('reliability_window_days', '90', 'Penalties older than this no longer count against the reliability score');
+
+ALTER TABLE public.jobs
+  ADD COLUMN cancelled_by TEXT CHECK (cancelled_by IN ('customer', 'maid', 'system')),
+  ADD COLUMN cancellation_reason TEXT CHECK (char_length(cancellation_reason) <= 500),
+  ADD COLUMN cancelled_at TIMESTAMPTZ,
+  ADD COLUMN cancellation_fee NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+-- Best effort for jobs cancelled before this migration: only expiries are attributable
+UPDATE public.jobs
+SET cancelled_at = updated_at,
+    cancelled_by = CASE WHEN expiry_reason IS NOT NULL THEN 'system' END
+WHERE status = 'cancelled';
+
+ALTER TABLE public.maids ADD COLUMN reliability_score NUMERIC(5, 2) NOT NULL DEFAULT 100;
+
+CREATE TABLE public.maid_penalties (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  maid_id UUID NOT NULL REFERENCES public.maids(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL UNIQUE REFERENCES public.jobs(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('late_cancellation')),
+  points INTEGER NOT NULL CHECK (points >= 0),
+  hours_notice NUMERIC(6, 1) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX maid_penalties_maid_idx ON public.maid_penalties (maid_id, created_at DESC);
+
+ALTER TABLE public.maid_penalties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Maids can view their penalties"
+  ON public.maid_penalties FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.maids WHERE maids.id = maid_id AND maids.user_id = auth.uid()));
+
+-- Reliability is owned by the penalty functions, like the other stats
+CREATE OR REPLACE FUNCTION public.protect_maid_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.total_jobs := OLD.total_jobs;
+    NEW.completed_jobs := OLD.completed_jobs;
+    NEW.rating := OLD.rating;
+    NEW.reliability_score := OLD.reliability_score;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 100 minus the penalty points from the last reliability_window_days, floored at 0
+CREATE OR REPLACE FUNCTION public.refresh_maid_reliability(_maid_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  UPDATE public.maids
+  SET reliability_score = scores.score
+  FROM (
+    SELECT maids.id,
+           GREATEST(0, 100 - COALESCE(SUM(maid_penalties.points), 0)) AS score
+    FROM public.maids
+    LEFT JOIN public.maid_penalties
+      ON maid_penalties.maid_id = maids.id
+     AND maid_penalties.created_at > NOW() - make_interval(
+           days => COALESCE(public.app_setting('reliability_window_days'), '90')::INTEGER
+         )
+    WHERE _maid_id IS NULL OR maids.id = _maid_id
+    GROUP BY maids.id
+  ) AS scores
+  WHERE maids.id = scores.id
+    AND maids.reliability_score IS DISTINCT FROM scores.score;
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+-- Fee the customer owes for cancelling now. Pending jobs are always free because the
+-- maid has not committed to them yet.
+CREATE OR REPLACE FUNCTION public.cancellation_fee_for(_job public.jobs)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _job.status <> 'accepted' THEN 0
+    WHEN public.job_starts_at(_job) - NOW() >= make_interval(
+      hours => COALESCE(public.app_setting('cancellation_free_hours'), '24')::INTEGER
+    ) THEN 0
+    ELSE round(_job.amount * COALESCE(public.app_setting('cancellation_fee_percent'), '50')::NUMERIC / 100, 2)
+  END
+$$;
+
+-- Reliability points the maid loses for backing out now
+CREATE OR REPLACE FUNCTION public.maid_penalty_for(_job public.jobs)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _job.status <> 'accepted' THEN 0
+    WHEN public.job_starts_at(_job) - NOW() >= make_interval(
+      hours => COALESCE(public.app_setting('maid_late_cancellation_hours'), '24')::INTEGER
+    ) THEN 0
+    ELSE COALESCE(public.app_setting('maid_late_cancellation_points'), '10')::INTEGER
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_cancellation_reason(_reason TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  _reason := NULLIF(btrim(_reason), '');
+  IF char_length(_reason) > 500 THEN
+    RAISE EXCEPTION 'Keep the reason under 500 characters' USING ERRCODE = 'PT400';
+  END IF;
+  RETURN _reason;
+END;
+$$;
+
+-- Whatever cancels a job (the functions below, expiry, series changes) gets a timestamp
+-- and an actor; the functions below set the actor themselves.
+CREATE OR REPLACE FUNCTION public.stamp_job_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.cancelled_at := COALESCE(NEW.cancelled_at, NOW());
+  NEW.cancelled_by := COALESCE(NEW.cancelled_by, 'system');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_job_cancellation_on_cancel
+  BEFORE UPDATE OF status ON public.jobs
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.stamp_job_cancellation();
+
+-- The reason argument changes the signature, so the old versions have to go
+DROP FUNCTION public.cancel_job(UUID);
+DROP FUNCTION public.reject_job(UUID);
+
+-- Customer cancels a job that has not been completed yet
+CREATE OR REPLACE FUNCTION public.cancel_job(_job_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_customer(_job_id);
+
+  IF _job.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'Cannot cancel a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.jobs
+  SET status = 'cancelled',
+      cancelled_by = 'customer',
+      cancellation_reason = public.normalize_cancellation_reason(_reason),
+      cancellation_fee = public.cancellation_fee_for(_job)
+  WHERE id = _job_id
+  RETURNING * INTO _job;
+
+  RETURN _job;
+END;
+$$;
+
+-- Maid declines a pending job or backs out of an accepted one
+CREATE OR REPLACE FUNCTION public.reject_job(_job_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+  _points INTEGER;
+BEGIN
+  _job := public.lock_job_for_maid(_job_id);
+
+  IF _job.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'Cannot reject a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  _points := public.maid_penalty_for(_job);
+
+  IF _points > 0 THEN
+    INSERT INTO public.maid_penalties (maid_id, job_id, reason, points, hours_notice)
+    VALUES (
+      _job.maid_id, _job.id, 'late_cancellation', _points,
+      GREATEST(0, round((EXTRACT(EPOCH FROM public.job_starts_at(_job) - NOW()) / 3600)::NUMERIC, 1))
+    );
+  END IF;
+
+  UPDATE public.jobs
+  SET status = 'cancelled',
+      cancelled_by = 'maid',
+      cancellation_reason = public.normalize_cancellation_reason(_reason)
+  WHERE id = _job_id
+  RETURNING * INTO _job;
+
+  IF _points > 0 THEN
+    PERFORM public.refresh_maid_reliability(_job.maid_id);
+  END IF;
+
+  RETURN _job;
+END;
+$$;
+
+-- What cancelling now would cost the caller: a fee for customers, reliability points for maids
+CREATE OR REPLACE FUNCTION public.cancellation_terms(_job_id UUID)
+RETURNS TABLE (fee NUMERIC, penalty_points INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  SELECT * INTO _job FROM public.jobs WHERE id = _job_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF _job.customer_id = auth.uid() THEN
+    RETURN QUERY SELECT public.cancellation_fee_for(_job), 0;
+  ELSIF public.is_job_participant(_job_id, auth.uid()) THEN
+    RETURN QUERY SELECT 0::NUMERIC, public.maid_penalty_for(_job);
+  ELSE
+    RAISE EXCEPTION 'Only the customer or maid on this job can cancel it' USING ERRCODE = 'PT403';
+  END IF;
+END;
+$$;
+
+-- The policy as shown to customers before they book
+CREATE OR REPLACE FUNCTION public.cancellation_policy()
+RETURNS TABLE (free_hours INTEGER, fee_percent NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(public.app_setting('cancellation_free_hours'), '24')::INTEGER,
+    COALESCE(public.app_setting('cancellation_fee_percent'), '50')::NUMERIC
+$$;
+
+-- Cancellation details for emails and texts
+CREATE OR REPLACE FUNCTION public.job_dispatch_payload(_job public.jobs)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'job_id', _job.id,
+    'job_date', _job.job_date,
+    'job_type', _job.job_type,
+    'duration_quantity', _job.duration_quantity,
+    'start_time', _job.start_time,
+    'location', _job.location,
+    'amount', _job.amount,
+    'expiry_reason', _job.expiry_reason,
+    'cancellation_reason', _job.cancellation_reason,
+    'cancellation_fee', _job.cancellation_fee,
+    'customer_name', (SELECT full_name FROM public.profiles WHERE id = _job.customer_id),
+    'maid_name', (
+      SELECT profiles.full_name
+      FROM public.maids
+      JOIN public.profiles ON profiles.id = maids.user_id
+      WHERE maids.id = _job.maid_id
+    )
+  )
+$$;
+
+-- Penalties age out of the reliability window, so scores are refreshed on the schedule too
+CREATE OR REPLACE FUNCTION public.run_job_lifecycle()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.expire_stale_jobs();
+  PERFORM public.enqueue_booking_reminders();
+  PERFORM public.flag_incomplete_jobs();
+  PERFORM public.refresh_maid_reliability();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_maid_reliability(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancellation_fee_for(public.jobs) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.maid_penalty_for(public.jobs) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.stamp_job_cancellation() FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_job(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reject_job(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancellation_terms(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancellation_policy() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_job(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_job(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancellation_terms(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancellation_policy() TO authenticated;
@@ -0,0 +1,413 @@
+-- Payments: the customer authorises the job amount at checkout, the maid can only accept
+-- once it is authorised, and the money is captured when the job is completed (or the
+-- cancellation fee is kept and the rest refunded). Every money movement is written to
+-- ledger_entries. Gateway calls happen in the payments / payment-webhook / settle-payments
+-- Edge Functions; the functions here only record what the gateway reported.
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('platform_fee_percent', '15', 'Share of every captured payment kept by the platform; the rest is paid out to the maid');
+
+-- Mirrors the job's current payment so both dashboards get it through the jobs realtime feed.
+-- Jobs booked before payments existed, and recurring visits, are not charged online.
+ALTER TABLE public.jobs
+  ADD COLUMN payment_status TEXT NOT NULL DEFAULT 'waived' CHECK (
+    payment_status IN ('unpaid', 'authorized', 'captured', 'refunded', 'voided', 'waived')
+  );
+ALTER TABLE public.jobs ALTER COLUMN payment_status SET DEFAULT 'unpaid';
+
+CREATE OR REPLACE FUNCTION public.waive_series_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.payment_status := 'waived';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER waive_series_payment_on_insert
+  BEFORE INSERT ON public.jobs
+  FOR EACH ROW
+  WHEN (NEW.series_id IS NOT NULL)
+  EXECUTE FUNCTION public.waive_series_payment();
+
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE RESTRICT,
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE RESTRICT,
+  provider TEXT NOT NULL CHECK (provider IN ('fake', 'razorpay')),
+  provider_order_id TEXT,
+  provider_payment_id TEXT,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  status TEXT NOT NULL DEFAULT 'created' CHECK (
+    status IN ('created', 'authorized', 'captured', 'refunded', 'voided', 'failed')
+  ),
+  refunded_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  failure_reason TEXT,
+  authorized_at TIMESTAMPTZ,
+  captured_at TIMESTAMPTZ,
+  settled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX payments_provider_order_idx ON public.payments (provider, provider_order_id);
+
+-- One live payment per job; abandoned checkouts are marked failed before a new one starts
+CREATE UNIQUE INDEX payments_one_active_idx
+  ON public.payments (job_id)
+  WHERE status IN ('created', 'authorized', 'captured');
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the functions below
+CREATE POLICY "Job participants can view payments"
+  ON public.payments FOR SELECT
+  TO authenticated
+  USING (public.is_job_participant(job_id, auth.uid()));
+
+CREATE POLICY "Admins can view all payments"
+  ON public.payments FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Amounts are always positive; entry_type says which way the money went
+CREATE TABLE public.ledger_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE RESTRICT,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE RESTRICT,
+  maid_id UUID NOT NULL REFERENCES public.maids(id) ON DELETE RESTRICT,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('charge', 'platform_fee', 'maid_payout', 'refund')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  -- Gateway id of the capture or refund, so replayed webhooks are not counted twice
+  reference TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX ledger_entries_reference_idx
+  ON public.ledger_entries (entry_type, reference)
+  WHERE reference IS NOT NULL;
+
+CREATE INDEX ledger_entries_maid_idx ON public.ledger_entries (maid_id, created_at DESC);
+
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Maids can view their ledger entries"
+  ON public.ledger_entries FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.maids WHERE maids.id = maid_id AND maids.user_id = auth.uid()));
+
+CREATE POLICY "Customers can view charges and refunds on their jobs"
+  ON public.ledger_entries FOR SELECT
+  TO authenticated
+  USING (
+    entry_type IN ('charge', 'refund')
+    AND EXISTS (SELECT 1 FROM public.jobs WHERE jobs.id = job_id AND jobs.customer_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view the whole ledger"
+  ON public.ledger_entries FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Customer starts checkout for a pending job. Called by the payments Edge Function with
+-- the customer's token, before it creates the gateway order.
+CREATE OR REPLACE FUNCTION public.begin_payment(_job_id UUID, _provider TEXT)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+  _payment public.payments;
+BEGIN
+  _job := public.lock_job_for_customer(_job_id);
+
+  IF _job.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only bookings waiting for the maid can be paid for' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job.payment_status IN ('authorized', 'captured') THEN
+    RAISE EXCEPTION 'This booking is already paid for' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job.payment_status = 'waived' THEN
+    RAISE EXCEPTION 'This booking does not need an online payment' USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'failed', failure_reason = 'Checkout restarted'
+  WHERE job_id = _job_id AND status = 'created';
+
+  INSERT INTO public.payments (job_id, customer_id, provider, amount)
+  VALUES (_job_id, _job.customer_id, _provider, _job.amount)
+  RETURNING * INTO _payment;
+
+  RETURN _payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.attach_payment_order(_payment_id UUID, _order_id TEXT)
+RETURNS public.payments
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.payments
+  SET provider_order_id = _order_id
+  WHERE id = _payment_id AND status = 'created'
+  RETURNING *
+$$;
+
+-- Applies a gateway event to the payment behind _order_id. Events can arrive twice (the
+-- checkout callback and the webhook both report an authorisation), so every branch is a
+-- no-op when the payment has already moved on.
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  _provider TEXT,
+  _order_id TEXT,
+  _event TEXT,
+  _provider_payment_id TEXT DEFAULT NULL,
+  _amount NUMERIC DEFAULT NULL,
+  _reference TEXT DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _job public.jobs;
+  _job_payment_status TEXT;
+  _inserted INTEGER;
+BEGIN
+  SELECT * INTO _payment FROM public.payments
+  WHERE provider = _provider AND provider_order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  SELECT * INTO _job FROM public.jobs WHERE id = _payment.job_id;
+
+  IF _event = 'authorized' AND _payment.status = 'created' THEN
+    UPDATE public.payments
+    SET status = 'authorized', provider_payment_id = _provider_payment_id, authorized_at = NOW()
+    WHERE id = _payment.id
+    RETURNING * INTO _payment;
+
+    PERFORM public.notify_user(
+      (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking', 'Booking paid',
+      format('The customer paid for the %s booking. You can accept it now.', to_char(_job.job_date, 'FMDD Mon')),
+      _job.id
+    );
+
+  ELSIF _event = 'captured' AND _payment.status IN ('created', 'authorized') THEN
+    UPDATE public.payments
+    SET status = 'captured',
+        provider_payment_id = COALESCE(_provider_payment_id, provider_payment_id),
+        authorized_at = COALESCE(authorized_at, NOW()),
+        captured_at = NOW()
+    WHERE id = _payment.id
+    RETURNING * INTO _payment;
+
+    INSERT INTO public.ledger_entries (payment_id, job_id, maid_id, entry_type, amount, reference)
+    VALUES (_payment.id, _job.id, _job.maid_id, 'charge', _payment.amount, _payment.provider_payment_id)
+    ON CONFLICT DO NOTHING;
+
+  ELSIF _event = 'refunded' AND _payment.status IN ('captured', 'refunded') THEN
+    INSERT INTO public.ledger_entries (payment_id, job_id, maid_id, entry_type, amount, reference)
+    VALUES (_payment.id, _job.id, _job.maid_id, 'refund', _amount, _reference)
+    ON CONFLICT DO NOTHING;
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+    IF _inserted > 0 THEN
+      UPDATE public.payments
+      SET refunded_amount = refunded_amount + _amount,
+          status = CASE WHEN refunded_amount + _amount >= amount THEN 'refunded' ELSE status END
+      WHERE id = _payment.id
+      RETURNING * INTO _payment;
+    END IF;
+
+  ELSIF _event = 'voided' AND _payment.status = 'authorized' THEN
+    UPDATE public.payments
+    SET status = 'voided', settled_at = NOW()
+    WHERE id = _payment.id
+    RETURNING * INTO _payment;
+
+  ELSIF _event = 'failed' AND _payment.status = 'created' THEN
+    UPDATE public.payments
+    SET status = 'failed', failure_reason = _reason
+    WHERE id = _payment.id
+    RETURNING * INTO _payment;
+  END IF;
+
+  _job_payment_status := CASE
+    WHEN _payment.status = 'captured' AND _payment.refunded_amount > 0 THEN 'refunded'
+    WHEN _payment.status IN ('authorized', 'captured', 'refunded', 'voided') THEN _payment.status
+    ELSE 'unpaid'
+  END;
+
+  -- A failed retry must not hide an earlier payment that went through
+  IF _job.payment_status <> _job_payment_status
+    AND NOT (_payment.status = 'failed' AND _job.payment_status <> 'unpaid') THEN
+    UPDATE public.jobs SET payment_status = _job_payment_status WHERE id = _job.id;
+  END IF;
+
+  RETURN _payment;
+END;
+$$;
+
+-- Splits what the customer finally paid between the platform and the maid. Runs once,
+-- after the capture and any refund have been recorded.
+CREATE OR REPLACE FUNCTION public.split_payment(_payment_id UUID)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _job public.jobs;
+  _retained NUMERIC;
+  _platform_fee NUMERIC;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF _payment.settled_at IS NOT NULL THEN
+    RETURN _payment;
+  END IF;
+
+  IF _payment.status NOT IN ('captured', 'refunded') THEN
+    RAISE EXCEPTION 'Cannot settle a payment that is %', _payment.status USING ERRCODE = 'PT409';
+  END IF;
+
+  SELECT * INTO _job FROM public.jobs WHERE id = _payment.job_id;
+  _retained := _payment.amount - _payment.refunded_amount;
+
+  IF _retained > 0 THEN
+    _platform_fee := round(_retained * COALESCE(public.app_setting('platform_fee_percent'), '15')::NUMERIC / 100, 2);
+
+    INSERT INTO public.ledger_entries (payment_id, job_id, maid_id, entry_type, amount)
+    VALUES
+      (_payment.id, _job.id, _job.maid_id, 'platform_fee', _platform_fee),
+      (_payment.id, _job.id, _job.maid_id, 'maid_payout', _retained - _platform_fee);
+  END IF;
+
+  UPDATE public.payments SET settled_at = NOW() WHERE id = _payment_id RETURNING * INTO _payment;
+  RETURN _payment;
+END;
+$$;
+
+-- Payments whose job has finished one way or the other and still need capturing,
+-- refunding or splitting
+CREATE OR REPLACE FUNCTION public.payments_due_for_settlement(_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  payment_id UUID,
+  provider TEXT,
+  provider_order_id TEXT,
+  provider_payment_id TEXT,
+  status TEXT,
+  amount NUMERIC,
+  refunded_amount NUMERIC,
+  job_status TEXT,
+  cancellation_fee NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    payments.id,
+    payments.provider,
+    payments.provider_order_id,
+    payments.provider_payment_id,
+    payments.status,
+    payments.amount,
+    payments.refunded_amount,
+    jobs.status,
+    jobs.cancellation_fee
+  FROM public.payments
+  JOIN public.jobs ON jobs.id = payments.job_id
+  WHERE payments.status IN ('authorized', 'captured', 'refunded')
+    AND payments.settled_at IS NULL
+    AND jobs.status IN ('completed', 'cancelled')
+  ORDER BY payments.created_at
+  LIMIT _limit
+$$;
+
+-- Maids can only accept once the customer's payment is authorised
+CREATE OR REPLACE FUNCTION public.accept_job(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_maid(_job_id);
+
+  IF _job.status <> 'pending' THEN
+    RAISE EXCEPTION 'Cannot accept a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job.payment_status NOT IN ('authorized', 'captured', 'waived') THEN
+    RAISE EXCEPTION 'The customer has not paid for this booking yet' USING ERRCODE = 'PT409';
+  END IF;
+
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _job.job_date, _job.duration_quantity, _job.start_time, _job.id
+  );
+
+  UPDATE public.jobs SET status = 'accepted' WHERE id = _job_id RETURNING * INTO _job;
+  RETURN _job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.waive_series_payment() FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.begin_payment(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.begin_payment(UUID, TEXT) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.attach_payment_order(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_payment_event(TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.split_payment(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.payments_due_for_settlement(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.attach_payment_order(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_payment_event(TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.split_payment(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.payments_due_for_settlement(INTEGER) TO service_role;
+
+-- Capture, refund and split finished jobs every five minutes.
+-- Expects 'project_url' and 'service_role_key' in Vault, like dispatch-notifications.
+SELECT cron.schedule(
+  'settle-payments',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/settle-payments',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,154 @@
+-- Weekly payouts: every Monday the settled ledger entries of the previous week are grouped
+-- per maid into a payout batch, which an admin marks as paid once the bank transfer is done.
+
+CREATE TABLE public.payouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  maid_id UUID NOT NULL REFERENCES public.maids(id) ON DELETE RESTRICT,
+  -- Monday to Sunday, in the app's time zone
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  gross NUMERIC(10, 2) NOT NULL,
+  commission NUMERIC(10, 2) NOT NULL,
+  net NUMERIC(10, 2) NOT NULL,
+  job_count INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'paid')),
+  -- Bank transfer / UPI reference, filled in when paid
+  reference TEXT CHECK (char_length(reference) <= 100),
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (maid_id, period_start)
+);
+
+CREATE INDEX payouts_status_idx ON public.payouts (status, period_start);
+
+ALTER TABLE public.payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Maids can view their payouts"
+  ON public.payouts FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.maids WHERE maids.id = maid_id AND maids.user_id = auth.uid()));
+
+CREATE POLICY "Admins can view all payouts"
+  ON public.payouts FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.ledger_entries
+  ADD COLUMN payout_id UUID REFERENCES public.payouts(id) ON DELETE RESTRICT;
+
+CREATE INDEX ledger_entries_unbatched_idx ON public.ledger_entries (maid_id) WHERE payout_id IS NULL;
+
+-- What each settled job earned: gross is what the customer finally paid (a late
+-- cancellation fee for cancelled jobs), commission the platform fee, net the maid's payout
+CREATE VIEW public.maid_job_earnings
+WITH (security_invoker = on) AS
+  SELECT
+    ledger_entries.job_id,
+    ledger_entries.maid_id,
+    jobs.job_date,
+    jobs.job_type,
+    jobs.status AS job_status,
+    COALESCE(SUM(ledger_entries.amount) FILTER (WHERE ledger_entries.entry_type = 'charge'), 0)
+      - COALESCE(SUM(ledger_entries.amount) FILTER (WHERE ledger_entries.entry_type = 'refund'), 0) AS gross,
+    COALESCE(SUM(ledger_entries.amount) FILTER (WHERE ledger_entries.entry_type = 'platform_fee'), 0) AS commission,
+    COALESCE(SUM(ledger_entries.amount) FILTER (WHERE ledger_entries.entry_type = 'maid_payout'), 0) AS net,
+    (array_agg(ledger_entries.payout_id) FILTER (WHERE ledger_entries.entry_type = 'maid_payout'))[1] AS payout_id,
+    MAX(ledger_entries.created_at) FILTER (WHERE ledger_entries.entry_type = 'maid_payout') AS settled_at
+  FROM public.ledger_entries
+  JOIN public.jobs ON jobs.id = ledger_entries.job_id
+  GROUP BY ledger_entries.job_id, ledger_entries.maid_id, jobs.job_date, jobs.job_type, jobs.status
+  HAVING COUNT(*) FILTER (WHERE ledger_entries.entry_type = 'maid_payout') > 0;
+
+GRANT SELECT ON public.maid_job_earnings TO authenticated;
+
+-- Batches every settled, not yet batched payment from before this week. Stragglers from
+-- earlier weeks (e.g. settled late) go into the latest batch rather than being lost.
+CREATE OR REPLACE FUNCTION public.create_weekly_payouts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tz TEXT := COALESCE(public.app_setting('timezone'), 'Asia/Kolkata');
+  _week_start DATE := date_trunc('week', NOW() AT TIME ZONE _tz)::DATE;
+  _cutoff TIMESTAMPTZ := _week_start::TIMESTAMP AT TIME ZONE _tz;
+  _maid RECORD;
+  _payout_id UUID;
+  _created INTEGER := 0;
+BEGIN
+  FOR _maid IN
+    SELECT
+      ledger_entries.maid_id,
+      COALESCE(SUM(amount) FILTER (WHERE entry_type = 'charge'), 0)
+        - COALESCE(SUM(amount) FILTER (WHERE entry_type = 'refund'), 0) AS gross,
+      COALESCE(SUM(amount) FILTER (WHERE entry_type = 'platform_fee'), 0) AS commission,
+      COALESCE(SUM(amount) FILTER (WHERE entry_type = 'maid_payout'), 0) AS net,
+      COUNT(DISTINCT ledger_entries.job_id) FILTER (WHERE entry_type = 'maid_payout') AS job_count
+    FROM public.ledger_entries
+    JOIN public.payments ON payments.id = ledger_entries.payment_id
+    WHERE ledger_entries.payout_id IS NULL
+      AND payments.settled_at < _cutoff
+    GROUP BY ledger_entries.maid_id
+  LOOP
+    INSERT INTO public.payouts (maid_id, period_start, period_end, gross, commission, net, job_count)
+    VALUES (_maid.maid_id, _week_start - 7, _week_start - 1, _maid.gross, _maid.commission, _maid.net, _maid.job_count)
+    ON CONFLICT (maid_id, period_start) DO NOTHING
+    RETURNING id INTO _payout_id;
+
+    -- Already batched this week
+    CONTINUE WHEN _payout_id IS NULL;
+
+    UPDATE public.ledger_entries
+    SET payout_id = _payout_id
+    FROM public.payments
+    WHERE payments.id = ledger_entries.payment_id
+      AND ledger_entries.maid_id = _maid.maid_id
+      AND ledger_entries.payout_id IS NULL
+      AND payments.settled_at < _cutoff;
+
+    _created := _created + 1;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_payout_paid(_payout_id UUID, _reference TEXT)
+RETURNS public.payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payout public.payouts;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can record payouts' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF COALESCE(trim(_reference), '') = '' THEN
+    RAISE EXCEPTION 'Enter the transfer reference' USING ERRCODE = 'PT400';
+  END IF;
+
+  UPDATE public.payouts
+  SET status = 'paid', reference = trim(_reference), paid_at = NOW()
+  WHERE id = _payout_id AND status = 'scheduled'
+  RETURNING * INTO _payout;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout not found or already paid' USING ERRCODE = 'PT404';
+  END IF;
+
+  RETURN _payout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_weekly_payouts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_weekly_payouts() TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.mark_payout_paid(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_payout_paid(UUID, TEXT) TO authenticated;
+
+-- Monday 00:30 in India
+SELECT cron.schedule('create-weekly-payouts', '0 19 * * 0', 'SELECT public.create_weekly_payouts()');
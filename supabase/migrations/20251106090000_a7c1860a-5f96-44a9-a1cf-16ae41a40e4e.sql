@@ -0,0 +1,22 @@
+-- Booking emails go to profiles.email, so follow the sign-in address once a change of
+-- email has been confirmed (auth.users.email only changes after confirmation).
+
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles SET email = NEW.email WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.handle_user_email_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email AND NEW.email IS NOT NULL)
+  EXECUTE FUNCTION public.handle_user_email_change();
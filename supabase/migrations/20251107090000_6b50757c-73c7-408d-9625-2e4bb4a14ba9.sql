@@ -0,0 +1,44 @@
+-- Phone sign-in: accounts created with a phone number have no email, and a phone number
+-- confirmed through Supabase Auth (sign-up or linking from account settings) becomes the
+-- profile phone used for SMS updates.
+
+ALTER TABLE public.profiles ALTER COLUMN email DROP NOT NULL;
+
+-- auth.users.phone is stored as digits with the country code; profiles keep the 10-digit number
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, phone)
+  VALUES (
+    new.id,
+    new.email,
+    COALESCE(new.raw_user_meta_data->>'full_name', ''),
+    COALESCE(new.raw_user_meta_data->>'phone', right(NULLIF(new.phone, ''), 10))
+  );
+  RETURN new;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_user_phone_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles SET phone = right(NEW.phone, 10) WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.handle_user_phone_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER on_auth_user_phone_changed
+  AFTER UPDATE OF phone ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.phone IS DISTINCT FROM NEW.phone AND NULLIF(NEW.phone, '') IS NOT NULL)
+  EXECUTE FUNCTION public.handle_user_phone_change();
@@ -0,0 +1,117 @@
+-- Sign-up creates the profile, role and (for maids) the maid row from the sign-up metadata
+-- in the same transaction as the auth user, so a bad rate or location rejects the whole
+-- sign-up instead of leaving an account without its maid row. Clients no longer insert
+-- roles or maid rows themselves; maids orphaned by the old flow finish onboarding through
+-- complete_maid_onboarding.
+
+CREATE OR REPLACE FUNCTION public.create_maid_profile(
+  _user_id UUID,
+  _hourly_rate NUMERIC,
+  _daily_rate NUMERIC,
+  _monthly_rate NUMERIC,
+  _location TEXT,
+  _description TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_id UUID;
+BEGIN
+  IF _hourly_rate IS NULL OR _daily_rate IS NULL OR _monthly_rate IS NULL THEN
+    RAISE EXCEPTION 'Enter your hourly, daily and monthly rates' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF length(trim(COALESCE(_location, ''))) < 3 THEN
+    RAISE EXCEPTION 'Location must be at least 3 characters' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- Idempotent, so a retried onboarding request returns the row the first one created
+  INSERT INTO public.maids (user_id, hourly_rate, daily_rate, monthly_rate, location, description)
+  VALUES (_user_id, _hourly_rate, _daily_rate, _monthly_rate, trim(_location), NULLIF(trim(_description), ''))
+  ON CONFLICT (user_id) DO NOTHING
+  RETURNING id INTO _maid_id;
+
+  IF _maid_id IS NULL THEN
+    SELECT id INTO _maid_id FROM public.maids WHERE user_id = _user_id;
+  END IF;
+
+  RETURN _maid_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_maid_profile(UUID, NUMERIC, NUMERIC, NUMERIC, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _meta JSONB := COALESCE(new.raw_user_meta_data, '{}'::jsonb);
+  _role TEXT := _meta->>'role';
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, phone)
+  VALUES (
+    new.id,
+    new.email,
+    COALESCE(_meta->>'full_name', ''),
+    COALESCE(_meta->>'phone', right(NULLIF(new.phone, ''), 10))
+  );
+
+  IF _role IS NULL THEN
+    RETURN new;
+  END IF;
+
+  -- The admin role is granted from the SQL editor, never self-assigned at signup
+  IF _role NOT IN ('customer', 'maid') THEN
+    RAISE EXCEPTION 'Invalid sign-up role %', _role USING ERRCODE = 'PT400';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role) VALUES (new.id, _role::app_role);
+
+  IF _role = 'maid' THEN
+    PERFORM public.create_maid_profile(
+      new.id,
+      (_meta->>'hourly_rate')::NUMERIC,
+      (_meta->>'daily_rate')::NUMERIC,
+      (_meta->>'monthly_rate')::NUMERIC,
+      _meta->>'location',
+      _meta->>'description'
+    );
+  END IF;
+
+  RETURN new;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_maid_onboarding(
+  _hourly_rate NUMERIC,
+  _daily_rate NUMERIC,
+  _monthly_rate NUMERIC,
+  _location TEXT,
+  _description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'maid') THEN
+    RAISE EXCEPTION 'Only maid accounts can set up a maid profile' USING ERRCODE = 'PT403';
+  END IF;
+
+  RETURN public.create_maid_profile(auth.uid(), _hourly_rate, _daily_rate, _monthly_rate, _location, _description);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_maid_onboarding(NUMERIC, NUMERIC, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_maid_onboarding(NUMERIC, NUMERIC, NUMERIC, TEXT, TEXT) TO authenticated;
+
+DROP POLICY "Users can insert own role on signup" ON public.user_roles;
+DROP POLICY "Maids can insert own profile" ON public.maids;
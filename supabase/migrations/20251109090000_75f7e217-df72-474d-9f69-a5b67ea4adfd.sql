@@ -0,0 +1,63 @@
+-- Rate history: every change to a maid's rates is recorded with the rates it replaced.
+-- Jobs and recurring bookings keep the amount priced when they were booked
+-- (compute_job_amount runs once, at booking), so a new rate only applies to new bookings.
+
+CREATE TABLE public.maid_rate_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  maid_id UUID NOT NULL REFERENCES public.maids(id) ON DELETE CASCADE,
+  previous_hourly_rate NUMERIC(10, 2) NOT NULL,
+  previous_daily_rate NUMERIC(10, 2) NOT NULL,
+  previous_monthly_rate NUMERIC(10, 2) NOT NULL,
+  hourly_rate NUMERIC(10, 2) NOT NULL,
+  daily_rate NUMERIC(10, 2) NOT NULL,
+  monthly_rate NUMERIC(10, 2) NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX maid_rate_changes_maid_idx ON public.maid_rate_changes (maid_id, changed_at DESC);
+
+ALTER TABLE public.maid_rate_changes ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below
+CREATE POLICY "Maids can view their rate changes"
+  ON public.maid_rate_changes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.maids WHERE maids.id = maid_id AND maids.user_id = auth.uid()));
+
+CREATE POLICY "Admins can view all rate changes"
+  ON public.maid_rate_changes FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.record_maid_rate_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.maid_rate_changes (
+    maid_id,
+    previous_hourly_rate, previous_daily_rate, previous_monthly_rate,
+    hourly_rate, daily_rate, monthly_rate
+  )
+  VALUES (
+    NEW.id,
+    OLD.hourly_rate, OLD.daily_rate, OLD.monthly_rate,
+    NEW.hourly_rate, NEW.daily_rate, NEW.monthly_rate
+  );
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_maid_rate_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER record_maid_rate_change_on_update
+  AFTER UPDATE OF hourly_rate, daily_rate, monthly_rate ON public.maids
+  FOR EACH ROW
+  WHEN (
+    OLD.hourly_rate IS DISTINCT FROM NEW.hourly_rate
+    OR OLD.daily_rate IS DISTINCT FROM NEW.daily_rate
+    OR OLD.monthly_rate IS DISTINCT FROM NEW.monthly_rate
+  )
+  EXECUTE FUNCTION public.record_maid_rate_change();
@@ -0,0 +1,41 @@
+-- Gateways let an uncaptured authorisation lapse (Razorpay returns it to the customer
+-- after about five days), so a booking made further ahead could no longer be captured
+-- when the job is completed. settle-payments now captures such payments early, while the
+-- job is still open; if the job is later cancelled for free the money is refunded instead
+-- of the authorisation being released.
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('payment_capture_after_days', '4', 'Authorised payments older than this many days are captured before the job finishes, ahead of the gateway''s authorisation expiry');
+
+-- Authorised payments on open jobs that are close to the authorisation expiry
+CREATE OR REPLACE FUNCTION public.payments_due_for_early_capture(_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  payment_id UUID,
+  provider TEXT,
+  provider_order_id TEXT,
+  provider_payment_id TEXT,
+  amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    payments.id,
+    payments.provider,
+    payments.provider_order_id,
+    payments.provider_payment_id,
+    payments.amount
+  FROM public.payments
+  JOIN public.jobs ON jobs.id = payments.job_id
+  WHERE payments.status = 'authorized'
+    AND payments.authorized_at < NOW()
+      - make_interval(days => COALESCE(public.app_setting('payment_capture_after_days'), '4')::INTEGER)
+    AND jobs.status IN ('pending', 'accepted')
+  ORDER BY payments.authorized_at
+  LIMIT _limit
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.payments_due_for_early_capture(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.payments_due_for_early_capture(INTEGER) TO service_role;
@@ -0,0 +1,224 @@
+-- Pausing or ending a series used to delete its upcoming occurrences, which dropped
+-- them from both sides' history without telling the maid or the customer. They are
+-- now cancelled by the system instead, and both sides are told about each visit.
+
+-- System-cancelled occurrences no longer hold their date, so resuming the series
+-- can book it again
+DROP INDEX public.jobs_series_occurrence_idx;
+CREATE UNIQUE INDEX jobs_series_occurrence_idx ON public.jobs (series_id, occurrence_date)
+  WHERE series_id IS NOT NULL AND cancelled_by IS DISTINCT FROM 'system';
+
+-- Cancels generated occurrences after _after that have not happened yet
+CREATE OR REPLACE FUNCTION public.clear_future_occurrences(_series_id UUID, _after DATE)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.jobs
+  SET status = 'cancelled',
+      cancelled_by = 'system',
+      cancellation_reason = 'The recurring booking was paused or ended'
+  WHERE series_id = _series_id
+    AND status = 'accepted'
+    AND job_date > GREATEST(_after, CURRENT_DATE)
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_series_jobs(_series_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+  _until DATE;
+  _date DATE;
+  _created INTEGER := 0;
+BEGIN
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id;
+  IF NOT FOUND OR _series.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  _until := CURRENT_DATE + 7 * COALESCE(public.app_setting('series_horizon_weeks'), '4')::INTEGER;
+
+  FOR _date IN SELECT * FROM public.series_occurrence_dates(_series, CURRENT_DATE + 1, _until) LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE series_id = _series.id
+        AND occurrence_date = _date
+        AND cancelled_by IS DISTINCT FROM 'system'
+    );
+
+    BEGIN
+      PERFORM public.assert_maid_available(
+        _series.maid_id, _series.job_type, _date, _series.duration_quantity, _series.start_time
+      );
+    EXCEPTION WHEN SQLSTATE 'PT409' THEN
+      CONTINUE;
+    END;
+
+    INSERT INTO public.jobs (
+      customer_id, maid_id, job_date, duration_quantity, duration_unit, start_time,
+      location, job_type, amount, status, series_id, occurrence_date
+    )
+    VALUES (
+      _series.customer_id,
+      _series.maid_id,
+      _date,
+      _series.duration_quantity,
+      CASE _series.job_type WHEN 'hourly' THEN 'hour' ELSE 'day' END,
+      _series.start_time,
+      _series.location,
+      _series.job_type,
+      _series.amount_per_visit,
+      'accepted',
+      _series.id,
+      _date
+    );
+    _created := _created + 1;
+  END LOOP;
+
+  UPDATE public.recurring_bookings SET generated_until = _until WHERE id = _series.id;
+  RETURN _created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_job_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_user_id UUID;
+  _maid_name TEXT;
+  _customer_name TEXT;
+  _day TEXT := to_char(NEW.job_date, 'FMDD Mon');
+BEGIN
+  SELECT maids.user_id, COALESCE(profiles.full_name, 'Your maid')
+  INTO _maid_user_id, _maid_name
+  FROM public.maids
+  LEFT JOIN public.profiles ON profiles.id = maids.user_id
+  WHERE maids.id = NEW.maid_id;
+
+  _customer_name := COALESCE(
+    (SELECT full_name FROM public.profiles WHERE id = NEW.customer_id),
+    'A customer'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'New booking request',
+      format('%s requested a booking for %s.', _customer_name, _day), NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Booking accepted',
+      format('%s accepted your booking for %s.', _maid_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'completed' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Job completed',
+      format('%s completed your booking for %s. Leave a review!', _maid_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND NEW.expiry_reason IS NOT NULL THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Booking expired',
+      CASE NEW.expiry_reason
+        WHEN 'date_passed' THEN format('Your booking with %s for %s expired because the date passed without a response.', _maid_name, _day)
+        ELSE format('Your booking with %s for %s expired because they did not respond in time.', _maid_name, _day)
+      END,
+      NEW.id
+    );
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Booking request expired',
+      format('The request from %s for %s expired without a response.', _customer_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND NEW.series_id IS NOT NULL AND NEW.cancelled_by = 'system' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Visit cancelled',
+      format('Your visit with %s on %s was cancelled because the recurring booking was paused or ended.', _maid_name, _day),
+      NEW.id
+    );
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Visit cancelled',
+      format('Your visit to %s on %s was cancelled because the recurring booking was paused or ended.', _customer_name, _day),
+      NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND auth.uid() = NEW.customer_id THEN
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Booking cancelled',
+      format('%s cancelled the booking for %s.', _customer_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking',
+      CASE WHEN OLD.status = 'pending' THEN 'Booking declined' ELSE 'Booking cancelled' END,
+      format(
+        '%s %s your booking for %s.',
+        _maid_name,
+        CASE WHEN OLD.status = 'pending' THEN 'declined' ELSE 'cancelled' END,
+        _day
+      ),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_job_dispatch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_user_id UUID;
+BEGIN
+  SELECT user_id INTO _maid_user_id FROM public.maids WHERE id = NEW.maid_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_dispatch(NEW.customer_id, 'booking_confirmation', NEW);
+    PERFORM public.enqueue_dispatch(_maid_user_id, 'booking_requested', NEW);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'accepted' THEN
+      PERFORM public.enqueue_dispatch(NEW.customer_id, 'booking_accepted', NEW);
+    ELSIF NEW.status = 'cancelled' AND NEW.expiry_reason IS NOT NULL THEN
+      PERFORM public.enqueue_dispatch(NEW.customer_id, 'booking_expired', NEW);
+    ELSIF NEW.status = 'cancelled' AND NEW.series_id IS NOT NULL AND NEW.cancelled_by = 'system' THEN
+      -- Neither side cancelled this visit themselves, so both are told
+      PERFORM public.enqueue_dispatch(
+        NEW.customer_id, 'booking_cancelled', NEW, jsonb_build_object('cancelled_by', 'system')
+      );
+      PERFORM public.enqueue_dispatch(
+        _maid_user_id, 'booking_cancelled', NEW, jsonb_build_object('cancelled_by', 'system')
+      );
+    ELSIF NEW.status = 'cancelled' THEN
+      -- Tell whoever did not cancel it
+      IF auth.uid() = NEW.customer_id THEN
+        PERFORM public.enqueue_dispatch(
+          _maid_user_id, 'booking_cancelled', NEW, jsonb_build_object('cancelled_by', 'customer')
+        );
+      ELSE
+        PERFORM public.enqueue_dispatch(
+          NEW.customer_id, 'booking_cancelled', NEW,
+          jsonb_build_object('cancelled_by', 'maid', 'was_pending', OLD.status = 'pending')
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
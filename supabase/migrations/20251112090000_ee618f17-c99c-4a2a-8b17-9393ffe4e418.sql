@@ -0,0 +1,92 @@
+-- Series occurrences the maid is unavailable for were skipped without a trace. They
+-- are now recorded, and the customer is told about each one once.
+
+CREATE TABLE public.series_skipped_occurrences (
+  series_id UUID REFERENCES public.recurring_bookings(id) ON DELETE CASCADE NOT NULL,
+  occurrence_date DATE NOT NULL,
+  skipped_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (series_id, occurrence_date)
+);
+
+ALTER TABLE public.series_skipped_occurrences ENABLE ROW LEVEL SECURITY;
+
+-- Creates accepted jobs for an active series up to the rolling horizon. Dates the
+-- maid is unavailable for are left out rather than failing the whole run; they are
+-- tried again on the next run, but the customer only hears about them the first time.
+CREATE OR REPLACE FUNCTION public.generate_series_jobs(_series_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+  _until DATE;
+  _date DATE;
+  _created INTEGER := 0;
+BEGIN
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id;
+  IF NOT FOUND OR _series.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  _until := CURRENT_DATE + 7 * COALESCE(public.app_setting('series_horizon_weeks'), '4')::INTEGER;
+
+  FOR _date IN SELECT * FROM public.series_occurrence_dates(_series, CURRENT_DATE + 1, _until) LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE series_id = _series.id
+        AND occurrence_date = _date
+        AND cancelled_by IS DISTINCT FROM 'system'
+    );
+
+    BEGIN
+      PERFORM public.assert_maid_available(
+        _series.maid_id, _series.job_type, _date, _series.duration_quantity, _series.start_time
+      );
+    EXCEPTION WHEN SQLSTATE 'PT409' THEN
+      INSERT INTO public.series_skipped_occurrences (series_id, occurrence_date)
+      VALUES (_series.id, _date)
+      ON CONFLICT DO NOTHING;
+
+      IF FOUND THEN
+        PERFORM public.notify_user(
+          _series.customer_id, 'booking', 'Visit not booked',
+          format('%s is not available on %s, so that visit of your recurring booking was not booked.',
+                 COALESCE(
+                   (SELECT profiles.full_name FROM public.maids
+                    JOIN public.profiles ON profiles.id = maids.user_id
+                    WHERE maids.id = _series.maid_id),
+                   'Your maid'
+                 ),
+                 to_char(_date, 'FMDD Mon'))
+        );
+      END IF;
+      CONTINUE;
+    END;
+
+    INSERT INTO public.jobs (
+      customer_id, maid_id, job_date, duration_quantity, duration_unit, start_time,
+      location, job_type, amount, status, series_id, occurrence_date
+    )
+    VALUES (
+      _series.customer_id,
+      _series.maid_id,
+      _date,
+      _series.duration_quantity,
+      CASE _series.job_type WHEN 'hourly' THEN 'hour' ELSE 'day' END,
+      _series.start_time,
+      _series.location,
+      _series.job_type,
+      _series.amount_per_visit,
+      'accepted',
+      _series.id,
+      _date
+    );
+    _created := _created + 1;
+  END LOOP;
+
+  UPDATE public.recurring_bookings SET generated_until = _until WHERE id = _series.id;
+  RETURN _created;
+END;
+$$;
@@ -0,0 +1,50 @@
+-- Profiles keep 10-digit Indian mobile numbers, but SMS gateways need E.164, so
+-- SMS rows are queued with the +91 country code
+
+-- Queues an email and, for everything but confirmations, an SMS to the user,
+-- skipping channels they have no address for or have opted out of
+CREATE OR REPLACE FUNCTION public.enqueue_dispatch(
+  _user_id UUID,
+  _event TEXT,
+  _job public.jobs,
+  _extra JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email TEXT;
+  _phone TEXT;
+  _prefs public.notification_preferences;
+  _payload JSONB;
+BEGIN
+  IF _user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT email, phone INTO _email, _phone FROM public.profiles WHERE id = _user_id;
+  SELECT * INTO _prefs FROM public.notification_preferences WHERE user_id = _user_id;
+  _payload := public.job_dispatch_payload(_job) || _extra;
+
+  IF _email IS NOT NULL AND _prefs.email IS NOT FALSE THEN
+    INSERT INTO public.notification_outbox (user_id, job_id, event, channel, recipient, payload)
+    VALUES (_user_id, _job.id, _event, 'email', _email, _payload)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF _event <> 'booking_confirmation' AND _phone IS NOT NULL AND _prefs.sms IS NOT FALSE THEN
+    INSERT INTO public.notification_outbox (user_id, job_id, event, channel, recipient, payload)
+    VALUES (_user_id, _job.id, _event, 'sms', '+91' || _phone, _payload)
+    ON CONFLICT DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- SMS rows still waiting to go out
+UPDATE public.notification_outbox
+SET recipient = '+91' || recipient
+WHERE channel = 'sms'
+  AND status IN ('pending', 'sending')
+  AND recipient ~ '^[0-9]{10}$';
@@ -0,0 +1,107 @@
+-- Daily and monthly bookings were only checked against the maid's working days on
+-- their first day, and two customers' jobs could both pass the overlap check when the
+-- maid accepted them at the same moment.
+
+-- Raise PT409 if the maid cannot take the described job.
+-- _exclude_job_id lets accept_job ignore the job being accepted.
+CREATE OR REPLACE FUNCTION public.assert_maid_available(
+  _maid_id UUID,
+  _job_type TEXT,
+  _job_date DATE,
+  _quantity INTEGER,
+  _start_time TIME,
+  _exclude_job_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _span DATERANGE := public.job_date_span(_job_type, _job_date, _quantity);
+  _hours public.maid_availability;
+  _day_off DATE;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.maid_time_off
+    WHERE maid_id = _maid_id AND off_date <@ _span
+  ) THEN
+    RAISE EXCEPTION 'The maid is on leave during the requested dates' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.maid_availability WHERE maid_id = _maid_id) THEN
+    -- Every day the job covers has to be a working day, not just the first
+    SELECT d::DATE INTO _day_off
+    FROM generate_series(lower(_span), upper(_span) - 1, INTERVAL '1 day') AS d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.maid_availability
+      WHERE maid_id = _maid_id AND weekday = EXTRACT(DOW FROM d)
+    )
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'The maid does not work on %', to_char(_day_off, 'FMDay') USING ERRCODE = 'PT409';
+    END IF;
+
+    SELECT * INTO _hours FROM public.maid_availability
+    WHERE maid_id = _maid_id AND weekday = EXTRACT(DOW FROM _job_date);
+
+    IF _job_type = 'hourly' AND (
+      _start_time < _hours.start_time
+      OR _start_time + make_interval(hours => _quantity) > _hours.end_time
+    ) THEN
+      RAISE EXCEPTION 'The maid works % to % on that day',
+        to_char(_hours.start_time, 'HH24:MI'), to_char(_hours.end_time, 'HH24:MI')
+        USING ERRCODE = 'PT409';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE maid_id = _maid_id
+      AND status = 'accepted'
+      AND id IS DISTINCT FROM _exclude_job_id
+      AND public.job_date_span(job_type, job_date, duration_quantity) && _span
+      AND (
+        -- Two hourly jobs on the same day only clash if their hours overlap
+        job_type <> 'hourly' OR _job_type <> 'hourly'
+        OR (start_time, make_interval(hours => duration_quantity))
+           OVERLAPS (_start_time, make_interval(hours => _quantity))
+      )
+  ) THEN
+    RAISE EXCEPTION 'The maid already has a job at that time' USING ERRCODE = 'PT409';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_job(_job_id UUID)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_maid(_job_id);
+
+  IF _job.status <> 'pending' THEN
+    RAISE EXCEPTION 'Cannot accept a job that is %', _job.status USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job.payment_status NOT IN ('authorized', 'captured', 'waived') THEN
+    RAISE EXCEPTION 'The customer has not paid for this booking yet' USING ERRCODE = 'PT409';
+  END IF;
+
+  -- Accepts for the same maid queue up here, so each overlap check sees the ones before it
+  PERFORM 1 FROM public.maids WHERE id = _job.maid_id FOR UPDATE;
+
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _job.job_date, _job.duration_quantity, _job.start_time, _job.id
+  );
+
+  UPDATE public.jobs SET status = 'accepted' WHERE id = _job_id RETURNING * INTO _job;
+  RETURN _job;
+END;
+$$;
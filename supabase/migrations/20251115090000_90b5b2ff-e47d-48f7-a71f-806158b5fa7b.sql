@@ -0,0 +1,96 @@
+-- respond_to_reschedule locked the proposal before its job, while propose_reschedule and
+-- the close_reschedule_proposals trigger go from the job to its proposals, so the two
+-- could deadlock. It now locks the job first as well.
+
+CREATE OR REPLACE FUNCTION public.respond_to_reschedule(_proposal_id UUID, _accept BOOLEAN)
+RETURNS public.reschedule_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _proposal public.reschedule_proposals;
+  _job public.jobs;
+  _job_id UUID;
+  _name TEXT;
+BEGIN
+  SELECT job_id INTO _job_id FROM public.reschedule_proposals WHERE id = _proposal_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  -- Same order as propose_reschedule: the job, then its proposal
+  SELECT * INTO _job FROM public.jobs WHERE id = _job_id FOR UPDATE;
+  SELECT * INTO _proposal FROM public.reschedule_proposals WHERE id = _proposal_id FOR UPDATE;
+
+  IF NOT public.is_job_participant(_job.id, auth.uid()) OR _proposal.proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'Only the other party can respond to this proposal' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _proposal.status <> 'pending' OR _job.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'This proposal is no longer open' USING ERRCODE = 'PT409';
+  END IF;
+
+  _name := COALESCE((SELECT full_name FROM public.profiles WHERE id = auth.uid()), 'The other party');
+
+  IF NOT _accept THEN
+    UPDATE public.reschedule_proposals
+    SET status = 'declined', responded_at = NOW()
+    WHERE id = _proposal_id
+    RETURNING * INTO _proposal;
+
+    PERFORM public.notify_user(
+      _proposal.proposed_by, 'booking', 'New time declined',
+      format('%s declined moving the booking to %s. It stays on %s.', _name,
+             public.format_job_slot(_proposal.proposed_date, _proposal.proposed_start_time),
+             public.format_job_slot(_job.job_date, _job.start_time)),
+      _job.id
+    );
+    RETURN _proposal;
+  END IF;
+
+  IF _proposal.proposed_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The proposed date has already passed' USING ERRCODE = 'PT409';
+  END IF;
+
+  -- Availability may have changed since the proposal was made
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _proposal.proposed_date, _job.duration_quantity,
+    _proposal.proposed_start_time, _job.id
+  );
+
+  UPDATE public.jobs
+  SET job_date = _proposal.proposed_date,
+      start_time = _proposal.proposed_start_time,
+      completion_flagged_at = NULL
+  WHERE id = _job.id
+  RETURNING * INTO _job;
+
+  -- Reminders for the old slot no longer apply
+  DELETE FROM public.job_reminders WHERE job_id = _job.id;
+
+  UPDATE public.reschedule_proposals
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = _proposal_id
+  RETURNING * INTO _proposal;
+
+  PERFORM public.notify_user(
+    _proposal.proposed_by, 'booking', 'New time accepted',
+    format('%s agreed to move the booking to %s.', _name,
+           public.format_job_slot(_job.job_date, _job.start_time)),
+    _job.id
+  );
+
+  PERFORM public.enqueue_dispatch(
+    _job.customer_id, 'booking_rescheduled', _job,
+    jsonb_build_object('previous_date', _proposal.previous_date)
+  );
+  PERFORM public.enqueue_dispatch(
+    (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking_rescheduled', _job,
+    jsonb_build_object('previous_date', _proposal.previous_date)
+  );
+
+  RETURN _proposal;
+END;
+$$;
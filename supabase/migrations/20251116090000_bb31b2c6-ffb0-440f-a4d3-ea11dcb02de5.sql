@@ -0,0 +1,39 @@
+-- Before sign-up was transactional the client inserted the role after creating the
+-- account, and accounts where that insert failed have no role. Without the insert policy
+-- they stayed on the home page for good. Maids are recognised by their maid row; everyone
+-- else picks a role once through choose_role.
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT maids.user_id, 'maid'
+FROM public.maids
+WHERE NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_roles.user_id = maids.user_id);
+
+CREATE OR REPLACE FUNCTION public.choose_role(_role public.app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The admin role is granted from the SQL editor, never self-assigned
+  IF _role NOT IN ('customer', 'maid') THEN
+    RAISE EXCEPTION 'Choose customer or maid' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- Serialises concurrent calls, so an account can't end up with both roles
+  PERFORM 1 FROM public.profiles WHERE id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'This account already has a role' USING ERRCODE = 'PT409';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role) VALUES (auth.uid(), _role);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.choose_role(public.app_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.choose_role(public.app_role) TO authenticated;
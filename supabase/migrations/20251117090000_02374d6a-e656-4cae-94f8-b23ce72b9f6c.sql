@@ -0,0 +1,46 @@
+-- Senders without a name on their profile produced the title "New message from ";
+-- they are now named by their side of the job instead.
+
+-- One unread notification per conversation: further messages refresh it
+-- instead of stacking up a notification per message.
+CREATE OR REPLACE FUNCTION public.notify_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _recipient_id UUID;
+  _sender_is_customer BOOLEAN;
+  _sender_name TEXT;
+  _preview TEXT := left(NEW.body, 120);
+BEGIN
+  SELECT
+    CASE WHEN jobs.customer_id = NEW.sender_id THEN maids.user_id ELSE jobs.customer_id END,
+    jobs.customer_id = NEW.sender_id
+  INTO _recipient_id, _sender_is_customer
+  FROM public.jobs
+  JOIN public.maids ON maids.id = jobs.maid_id
+  WHERE jobs.id = NEW.job_id;
+
+  _sender_name := COALESCE(
+    (SELECT NULLIF(btrim(full_name), '') FROM public.profiles WHERE id = NEW.sender_id),
+    CASE WHEN _sender_is_customer THEN 'your customer' ELSE 'your maid' END
+  );
+
+  UPDATE public.notifications
+  SET body = _preview, created_at = NOW()
+  WHERE user_id = _recipient_id
+    AND job_id = NEW.job_id
+    AND kind = 'message'
+    AND read_at IS NULL;
+
+  IF NOT FOUND THEN
+    PERFORM public.notify_user(
+      _recipient_id, 'message', format('New message from %s', _sender_name), _preview, NEW.job_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,242 @@
+-- accept_job takes the maid's row lock before its overlap check; everything else that
+-- books or moves an accepted job now does the same, so two of them running at once
+-- can't both pass the check and double-book the maid.
+
+-- Creates accepted jobs for an active series up to the rolling horizon. Dates the
+-- maid is unavailable for are left out rather than failing the whole run; they are
+-- tried again on the next run, but the customer only hears about them the first time.
+CREATE OR REPLACE FUNCTION public.generate_series_jobs(_series_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+  _until DATE;
+  _date DATE;
+  _created INTEGER := 0;
+BEGIN
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id;
+  IF NOT FOUND OR _series.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  -- Same lock as accept_job, held for the whole run so each date's check sees the ones before it
+  PERFORM 1 FROM public.maids WHERE id = _series.maid_id FOR UPDATE;
+
+  _until := CURRENT_DATE + 7 * COALESCE(public.app_setting('series_horizon_weeks'), '4')::INTEGER;
+
+  FOR _date IN SELECT * FROM public.series_occurrence_dates(_series, CURRENT_DATE + 1, _until) LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE series_id = _series.id
+        AND occurrence_date = _date
+        AND cancelled_by IS DISTINCT FROM 'system'
+    );
+
+    BEGIN
+      PERFORM public.assert_maid_available(
+        _series.maid_id, _series.job_type, _date, _series.duration_quantity, _series.start_time
+      );
+    EXCEPTION WHEN SQLSTATE 'PT409' THEN
+      INSERT INTO public.series_skipped_occurrences (series_id, occurrence_date)
+      VALUES (_series.id, _date)
+      ON CONFLICT DO NOTHING;
+
+      IF FOUND THEN
+        PERFORM public.notify_user(
+          _series.customer_id, 'booking', 'Visit not booked',
+          format('%s is not available on %s, so that visit of your recurring booking was not booked.',
+                 COALESCE(
+                   (SELECT profiles.full_name FROM public.maids
+                    JOIN public.profiles ON profiles.id = maids.user_id
+                    WHERE maids.id = _series.maid_id),
+                   'Your maid'
+                 ),
+                 to_char(_date, 'FMDD Mon'))
+        );
+      END IF;
+      CONTINUE;
+    END;
+
+    INSERT INTO public.jobs (
+      customer_id, maid_id, job_date, duration_quantity, duration_unit, start_time,
+      location, job_type, amount, status, series_id, occurrence_date
+    )
+    VALUES (
+      _series.customer_id,
+      _series.maid_id,
+      _date,
+      _series.duration_quantity,
+      CASE _series.job_type WHEN 'hourly' THEN 'hour' ELSE 'day' END,
+      _series.start_time,
+      _series.location,
+      _series.job_type,
+      _series.amount_per_visit,
+      'accepted',
+      _series.id,
+      _date
+    );
+    _created := _created + 1;
+  END LOOP;
+
+  UPDATE public.recurring_bookings SET generated_until = _until WHERE id = _series.id;
+  RETURN _created;
+END;
+$$;
+
+-- Moves one upcoming occurrence of an accepted series to another day or time.
+-- The maid already agreed to the series, so the move only has to fit the maid's schedule.
+CREATE OR REPLACE FUNCTION public.reschedule_occurrence(_job_id UUID, _job_date DATE, _start_time TIME DEFAULT NULL)
+RETURNS public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+BEGIN
+  _job := public.lock_job_for_customer(_job_id);
+
+  IF _job.series_id IS NULL THEN
+    RAISE EXCEPTION 'Only recurring occurrences can be moved this way' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job.status <> 'accepted' OR _job.job_date <= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Only upcoming occurrences can be moved' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job_date IS NULL OR _job_date <= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Pick a date after today' USING ERRCODE = 'PT400';
+  END IF;
+
+  IF _job.job_type = 'hourly' AND _start_time IS NULL THEN
+    _start_time := _job.start_time;
+  END IF;
+
+  IF _job.job_type = 'hourly' AND _start_time + make_interval(hours => _job.duration_quantity) <= _start_time THEN
+    RAISE EXCEPTION 'Hourly bookings must finish on the same day' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- Same lock as accept_job, so a concurrent booking can't take the new slot too
+  PERFORM 1 FROM public.maids WHERE id = _job.maid_id FOR UPDATE;
+
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _job_date, _job.duration_quantity, _start_time, _job.id
+  );
+
+  UPDATE public.jobs
+  SET job_date = _job_date,
+      start_time = CASE WHEN job_type = 'hourly' THEN _start_time END
+  WHERE id = _job_id
+  RETURNING * INTO _job;
+
+  -- Reminders for the old slot no longer apply
+  DELETE FROM public.job_reminders WHERE job_id = _job_id;
+
+  PERFORM public.notify_user(
+    (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking', 'Visit moved',
+    format('The %s visit was moved to %s.', to_char(_job.occurrence_date, 'FMDD Mon'), to_char(_job_date, 'FMDD Mon')),
+    _job.id
+  );
+
+  RETURN _job;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_reschedule(_proposal_id UUID, _accept BOOLEAN)
+RETURNS public.reschedule_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _proposal public.reschedule_proposals;
+  _job public.jobs;
+  _job_id UUID;
+  _name TEXT;
+BEGIN
+  SELECT job_id INTO _job_id FROM public.reschedule_proposals WHERE id = _proposal_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  -- Same order as propose_reschedule: the job, then its proposal
+  SELECT * INTO _job FROM public.jobs WHERE id = _job_id FOR UPDATE;
+  SELECT * INTO _proposal FROM public.reschedule_proposals WHERE id = _proposal_id FOR UPDATE;
+
+  IF NOT public.is_job_participant(_job.id, auth.uid()) OR _proposal.proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'Only the other party can respond to this proposal' USING ERRCODE = 'PT403';
+  END IF;
+
+  IF _proposal.status <> 'pending' OR _job.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'This proposal is no longer open' USING ERRCODE = 'PT409';
+  END IF;
+
+  _name := COALESCE((SELECT full_name FROM public.profiles WHERE id = auth.uid()), 'The other party');
+
+  IF NOT _accept THEN
+    UPDATE public.reschedule_proposals
+    SET status = 'declined', responded_at = NOW()
+    WHERE id = _proposal_id
+    RETURNING * INTO _proposal;
+
+    PERFORM public.notify_user(
+      _proposal.proposed_by, 'booking', 'New time declined',
+      format('%s declined moving the booking to %s. It stays on %s.', _name,
+             public.format_job_slot(_proposal.proposed_date, _proposal.proposed_start_time),
+             public.format_job_slot(_job.job_date, _job.start_time)),
+      _job.id
+    );
+    RETURN _proposal;
+  END IF;
+
+  IF _proposal.proposed_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The proposed date has already passed' USING ERRCODE = 'PT409';
+  END IF;
+
+  -- Availability may have changed since the proposal was made. Same lock as accept_job,
+  -- so a concurrent booking can't take the new slot too.
+  PERFORM 1 FROM public.maids WHERE id = _job.maid_id FOR UPDATE;
+
+  PERFORM public.assert_maid_available(
+    _job.maid_id, _job.job_type, _proposal.proposed_date, _job.duration_quantity,
+    _proposal.proposed_start_time, _job.id
+  );
+
+  UPDATE public.jobs
+  SET job_date = _proposal.proposed_date,
+      start_time = _proposal.proposed_start_time,
+      completion_flagged_at = NULL
+  WHERE id = _job.id
+  RETURNING * INTO _job;
+
+  -- Reminders for the old slot no longer apply
+  DELETE FROM public.job_reminders WHERE job_id = _job.id;
+
+  UPDATE public.reschedule_proposals
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = _proposal_id
+  RETURNING * INTO _proposal;
+
+  PERFORM public.notify_user(
+    _proposal.proposed_by, 'booking', 'New time accepted',
+    format('%s agreed to move the booking to %s.', _name,
+           public.format_job_slot(_job.job_date, _job.start_time)),
+    _job.id
+  );
+
+  PERFORM public.enqueue_dispatch(
+    _job.customer_id, 'booking_rescheduled', _job,
+    jsonb_build_object('previous_date', _proposal.previous_date)
+  );
+  PERFORM public.enqueue_dispatch(
+    (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking_rescheduled', _job,
+    jsonb_build_object('previous_date', _proposal.previous_date)
+  );
+
+  RETURN _proposal;
+END;
+$$;
@@ -0,0 +1,404 @@
+-- Recurring visits used to be marked 'waived' on creation, so they never went through
+-- checkout, the ledger or the maid's payouts. Each generated visit is now created unpaid
+-- and the customer pays for it like any other booking; visits still unpaid
+-- series_payment_due_hours before they start are cancelled by the scheduler.
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('series_payment_due_hours', '24', 'Recurring visits not paid for this many hours before they start are cancelled');
+
+DROP TRIGGER waive_series_payment_on_insert ON public.jobs;
+DROP FUNCTION public.waive_series_payment();
+
+-- Upcoming visits that were waived get charged too, as long as there is a day left to pay.
+-- Nearer ones keep whatever the customer and maid arranged.
+UPDATE public.jobs
+SET payment_status = 'unpaid'
+WHERE series_id IS NOT NULL
+  AND status = 'accepted'
+  AND payment_status = 'waived'
+  AND public.job_starts_at(jobs) > NOW()
+    + make_interval(hours => COALESCE(public.app_setting('series_payment_due_hours'), '24')::INTEGER)
+    + INTERVAL '24 hours';
+
+-- Customer starts checkout for a pending job or an upcoming recurring visit. Called by the
+-- payments Edge Function with the customer's token, before it creates the gateway order.
+CREATE OR REPLACE FUNCTION public.begin_payment(_job_id UUID, _provider TEXT)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.jobs;
+  _payment public.payments;
+BEGIN
+  _job := public.lock_job_for_customer(_job_id);
+
+  IF NOT (
+    _job.status = 'pending'
+    OR (_job.status = 'accepted' AND _job.series_id IS NOT NULL AND public.job_starts_at(_job) > NOW())
+  ) THEN
+    RAISE EXCEPTION 'Only bookings waiting for the maid and upcoming recurring visits can be paid for'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job.payment_status IN ('authorized', 'captured') THEN
+    RAISE EXCEPTION 'This booking is already paid for' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _job.payment_status = 'waived' THEN
+    RAISE EXCEPTION 'This booking does not need an online payment' USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'failed', failure_reason = 'Checkout restarted'
+  WHERE job_id = _job_id AND status = 'created';
+
+  INSERT INTO public.payments (job_id, customer_id, provider, amount)
+  VALUES (_job_id, _job.customer_id, _provider, _job.amount)
+  RETURNING * INTO _payment;
+
+  RETURN _payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  _provider TEXT,
+  _order_id TEXT,
+  _event TEXT,
+  _provider_payment_id TEXT DEFAULT NULL,
+  _amount NUMERIC DEFAULT NULL,
+  _reference TEXT DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _job public.jobs;
+  _job_payment_status TEXT;
+  _inserted INTEGER;
+BEGIN
+  SELECT * INTO _payment FROM public.payments
+  WHERE provider = _provider AND provider_order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  SELECT * INTO _job FROM public.jobs WHERE id = _payment.job_id;
+
+  IF _event = 'authorized' AND _payment.status = 'created' THEN
+    UPDATE public.payments
+    SET status = 'authorized', provider_payment_id = _provider_payment_id, authorized_at = NOW()
+    WHERE id = _payment.id
+    RETURNING * INTO _payment;
+
+    -- Recurring visits are already accepted, so there is nothing left for the maid to do
+    PERFORM public.notify_user(
+      (SELECT user_id FROM public.maids WHERE id = _job.maid_id), 'booking',
+      CASE WHEN _job.series_id IS NULL THEN 'Booking paid' ELSE 'Visit paid' END,
+      CASE
+        WHEN _job.series_id IS NULL
+          THEN format('The customer paid for the %s booking. You can accept it now.', to_char(_job.job_date, 'FMDD Mon'))
+        ELSE format('The customer paid for the %s visit.', to_char(_job.job_date, 'FMDD Mon'))
+      END,
+      _job.id
+    );
+
+  ELSIF _event = 'captured' AND _payment.status IN ('created', 'authorized') THEN
+    UPDATE public.payments
+    SET status = 'captured',
+        provider_payment_id = COALESCE(_provider_payment_id, provider_payment_id),
+        authorized_at = COALESCE(authorized_at, NOW()),
+        captured_at = NOW()
+    WHERE id = _payment.id
+    RETURNING * INTO _payment;
+
+    INSERT INTO public.ledger_entries (payment_id, job_id, maid_id, entry_type, amount, reference)
+    VALUES (_payment.id, _job.id, _job.maid_id, 'charge', _payment.amount, _payment.provider_payment_id)
+    ON CONFLICT DO NOTHING;
+
+  ELSIF _event = 'refunded' AND _payment.status IN ('captured', 'refunded') THEN
+    INSERT INTO public.ledger_entries (payment_id, job_id, maid_id, entry_type, amount, reference)
+    VALUES (_payment.id, _job.id, _job.maid_id, 'refund', _amount, _reference)
+    ON CONFLICT DO NOTHING;
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+    IF _inserted > 0 THEN
+      UPDATE public.payments
+      SET refunded_amount = refunded_amount + _amount,
+          status = CASE WHEN refunded_amount + _amount >= amount THEN 'refunded' ELSE status END
+      WHERE id = _payment.id
+      RETURNING * INTO _payment;
+    END IF;
+
+  ELSIF _event = 'voided' AND _payment.status = 'authorized' THEN
+    UPDATE public.payments
+    SET status = 'voided', settled_at = NOW()
+    WHERE id = _payment.id
+    RETURNING * INTO _payment;
+
+  ELSIF _event = 'failed' AND _payment.status = 'created' THEN
+    UPDATE public.payments
+    SET status = 'failed', failure_reason = _reason
+    WHERE id = _payment.id
+    RETURNING * INTO _payment;
+  END IF;
+
+  _job_payment_status := CASE
+    WHEN _payment.status = 'captured' AND _payment.refunded_amount > 0 THEN 'refunded'
+    WHEN _payment.status IN ('authorized', 'captured', 'refunded', 'voided') THEN _payment.status
+    ELSE 'unpaid'
+  END;
+
+  -- A failed retry must not hide an earlier payment that went through
+  IF _job.payment_status <> _job_payment_status
+    AND NOT (_payment.status = 'failed' AND _job.payment_status <> 'unpaid') THEN
+    UPDATE public.jobs SET payment_status = _job_payment_status WHERE id = _job.id;
+  END IF;
+
+  RETURN _payment;
+END;
+$$;
+
+-- Cancels recurring visits that are still unpaid series_payment_due_hours before they start
+CREATE OR REPLACE FUNCTION public.cancel_unpaid_series_visits()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _due INTERVAL := make_interval(hours => COALESCE(public.app_setting('series_payment_due_hours'), '24')::INTEGER);
+  _cancelled INTEGER;
+BEGIN
+  UPDATE public.jobs
+  SET status = 'cancelled',
+      cancelled_by = 'system',
+      cancellation_reason = 'The visit was not paid for in time'
+  WHERE series_id IS NOT NULL
+    AND status = 'accepted'
+    AND payment_status = 'unpaid'
+    AND public.job_starts_at(jobs) <= NOW() + _due;
+
+  GET DIAGNOSTICS _cancelled = ROW_COUNT;
+  RETURN _cancelled;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_job_lifecycle()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.expire_stale_jobs();
+  PERFORM public.cancel_unpaid_series_visits();
+  PERFORM public.enqueue_booking_reminders();
+  PERFORM public.flag_incomplete_jobs();
+  PERFORM public.refresh_maid_reliability();
+END;
+$$;
+
+-- Creates accepted jobs for an active series up to the rolling horizon. Dates the
+-- maid is unavailable for are left out rather than failing the whole run; they are
+-- tried again on the next run, but the customer only hears about them the first time.
+-- Visits are created unpaid, so dates inside the payment cutoff are not booked at all.
+CREATE OR REPLACE FUNCTION public.generate_series_jobs(_series_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.recurring_bookings;
+  _until DATE;
+  _date DATE;
+  _created INTEGER := 0;
+  _tz TEXT := COALESCE(public.app_setting('timezone'), 'Asia/Kolkata');
+  _due INTERVAL := make_interval(hours => COALESCE(public.app_setting('series_payment_due_hours'), '24')::INTEGER);
+BEGIN
+  SELECT * INTO _series FROM public.recurring_bookings WHERE id = _series_id;
+  IF NOT FOUND OR _series.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  -- Same lock as accept_job, held for the whole run so each date's check sees the ones before it
+  PERFORM 1 FROM public.maids WHERE id = _series.maid_id FOR UPDATE;
+
+  _until := CURRENT_DATE + 7 * COALESCE(public.app_setting('series_horizon_weeks'), '4')::INTEGER;
+
+  FOR _date IN SELECT * FROM public.series_occurrence_dates(_series, CURRENT_DATE + 1, _until) LOOP
+    -- Too late to pay for; this also keeps visits cancelled for non-payment from coming back
+    CONTINUE WHEN (_date + COALESCE(_series.start_time, TIME '09:00')) AT TIME ZONE _tz <= NOW() + _due;
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE series_id = _series.id
+        AND occurrence_date = _date
+        AND cancelled_by IS DISTINCT FROM 'system'
+    );
+
+    BEGIN
+      PERFORM public.assert_maid_available(
+        _series.maid_id, _series.job_type, _date, _series.duration_quantity, _series.start_time
+      );
+    EXCEPTION WHEN SQLSTATE 'PT409' THEN
+      INSERT INTO public.series_skipped_occurrences (series_id, occurrence_date)
+      VALUES (_series.id, _date)
+      ON CONFLICT DO NOTHING;
+
+      IF FOUND THEN
+        PERFORM public.notify_user(
+          _series.customer_id, 'booking', 'Visit not booked',
+          format('%s is not available on %s, so that visit of your recurring booking was not booked.',
+                 COALESCE(
+                   (SELECT profiles.full_name FROM public.maids
+                    JOIN public.profiles ON profiles.id = maids.user_id
+                    WHERE maids.id = _series.maid_id),
+                   'Your maid'
+                 ),
+                 to_char(_date, 'FMDD Mon'))
+        );
+      END IF;
+      CONTINUE;
+    END;
+
+    INSERT INTO public.jobs (
+      customer_id, maid_id, job_date, duration_quantity, duration_unit, start_time,
+      location, job_type, amount, status, series_id, occurrence_date
+    )
+    VALUES (
+      _series.customer_id,
+      _series.maid_id,
+      _date,
+      _series.duration_quantity,
+      CASE _series.job_type WHEN 'hourly' THEN 'hour' ELSE 'day' END,
+      _series.start_time,
+      _series.location,
+      _series.job_type,
+      _series.amount_per_visit,
+      'accepted',
+      _series.id,
+      _date
+    );
+    _created := _created + 1;
+  END LOOP;
+
+  IF _created > 0 THEN
+    PERFORM public.notify_user(
+      _series.customer_id, 'booking', 'Visits to pay for',
+      format('%s new %s of your recurring booking %s booked. Pay for each at least %s hours before it starts, or it will be cancelled.',
+             _created,
+             CASE WHEN _created = 1 THEN 'visit' ELSE 'visits' END,
+             CASE WHEN _created = 1 THEN 'was' ELSE 'were' END,
+             extract(epoch FROM _due)::INTEGER / 3600)
+    );
+  END IF;
+
+  UPDATE public.recurring_bookings SET generated_until = _until WHERE id = _series.id;
+  RETURN _created;
+END;
+$$;
+
+-- A visit can now be cancelled by the system for more than one reason, so both sides
+-- are given the one recorded on the job
+CREATE OR REPLACE FUNCTION public.notify_job_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _maid_user_id UUID;
+  _maid_name TEXT;
+  _customer_name TEXT;
+  _day TEXT := to_char(NEW.job_date, 'FMDD Mon');
+BEGIN
+  SELECT maids.user_id, COALESCE(profiles.full_name, 'Your maid')
+  INTO _maid_user_id, _maid_name
+  FROM public.maids
+  LEFT JOIN public.profiles ON profiles.id = maids.user_id
+  WHERE maids.id = NEW.maid_id;
+
+  _customer_name := COALESCE(
+    (SELECT full_name FROM public.profiles WHERE id = NEW.customer_id),
+    'A customer'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'New booking request',
+      format('%s requested a booking for %s.', _customer_name, _day), NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Booking accepted',
+      format('%s accepted your booking for %s.', _maid_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'completed' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Job completed',
+      format('%s completed your booking for %s. Leave a review!', _maid_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND NEW.expiry_reason IS NOT NULL THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Booking expired',
+      CASE NEW.expiry_reason
+        WHEN 'date_passed' THEN format('Your booking with %s for %s expired because the date passed without a response.', _maid_name, _day)
+        ELSE format('Your booking with %s for %s expired because they did not respond in time.', _maid_name, _day)
+      END,
+      NEW.id
+    );
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Booking request expired',
+      format('The request from %s for %s expired without a response.', _customer_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND NEW.series_id IS NOT NULL AND NEW.cancelled_by = 'system' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking', 'Visit cancelled',
+      format('Your visit with %s on %s was cancelled. %s.', _maid_name, _day, NEW.cancellation_reason),
+      NEW.id
+    );
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Visit cancelled',
+      format('Your visit to %s on %s was cancelled. %s.', _customer_name, _day, NEW.cancellation_reason),
+      NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND auth.uid() = NEW.customer_id THEN
+    PERFORM public.notify_user(
+      _maid_user_id, 'booking', 'Booking cancelled',
+      format('%s cancelled the booking for %s.', _customer_name, _day), NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM public.notify_user(
+      NEW.customer_id, 'booking',
+      CASE WHEN OLD.status = 'pending' THEN 'Booking declined' ELSE 'Booking cancelled' END,
+      format(
+        '%s %s your booking for %s.',
+        _maid_name,
+        CASE WHEN OLD.status = 'pending' THEN 'declined' ELSE 'cancelled' END,
+        _day
+      ),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_unpaid_series_visits() FROM PUBLIC, anon, authenticated;